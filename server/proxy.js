@@ -0,0 +1,320 @@
+// Local API proxy
+// Holds the Anthropic API key so it never reaches the browser. The app's
+// "Local proxy" provider posts to /v1/messages here with a per-user token;
+// the proxy reserves the request's max_tokens against the user's daily quota,
+// forwards it with the real key, settles the quota with the tokens actually used
+// and writes one JSON log line per request. Prompts and keys are never logged.
+//
+// No dependencies - needs Node 18+ for fetch.
+//
+//   ANTHROPIC_API_KEY=sk-ant-... npm run proxy
+//
+// Environment:
+//   ANTHROPIC_API_KEY      required
+//   PROXY_PORT             default 8787
+//   PROXY_ALLOWED_ORIGIN   origin allowed to call the proxy, default http://localhost:3000 ("*" for any)
+//   PROXY_CONFIG           users and quotas, default server/proxy.config.json
+//   PROXY_LOG_FILE         also append the log lines to this file
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Response headers passed back to the browser - the client paces itself from these
+const FORWARDED_HEADERS = /^(anthropic-ratelimit-.*|retry-after|request-id)$/;
+
+/**
+ * Users and their daily quotas from the config file
+ * A missing quota means unlimited; defaults apply to users without their own
+ */
+function loadConfig(configPath) {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`No proxy config at ${configPath} - copy server/proxy.config.example.json to get started`);
+  }
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const defaults = config.defaults || {};
+  const users = new Map();
+
+  (config.users || []).forEach((user, idx) => {
+    if (!user || typeof user.name !== 'string' || typeof user.token !== 'string' || !user.token) {
+      throw new Error(`users[${idx}] needs a name and a token`);
+    }
+    if (users.has(user.token)) {
+      throw new Error(`users[${idx}] (${user.name}) reuses another user's token`);
+    }
+    users.set(user.token, {
+      name: user.name,
+      dailyRequests: user.dailyRequests ?? defaults.dailyRequests ?? null,
+      dailyTokens: user.dailyTokens ?? defaults.dailyTokens ?? null
+    });
+  });
+
+  if (users.size === 0) {
+    throw new Error('The proxy config has no users');
+  }
+  return users;
+}
+
+/**
+ * Daily usage per user, kept in memory and reset at midnight UTC
+ * Tokens of requests still in flight are held as a reservation of their max_tokens,
+ * so concurrent requests can't overrun the quota before their usage is known
+ */
+function createQuotaTracker() {
+  const usage = new Map();
+
+  const today = (now) => new Date(now).toISOString().slice(0, 10);
+  const nextReset = (now) => {
+    const date = new Date(now);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)).toISOString();
+  };
+
+  const current = (user, now) => {
+    const entry = usage.get(user.name);
+    if (entry && entry.day === today(now)) return entry;
+    const fresh = { day: today(now), requests: 0, tokens: 0, reserved: 0 };
+    usage.set(user.name, fresh);
+    return fresh;
+  };
+
+  return {
+    /** Reason the user can't make a request that may use this many tokens today, or null */
+    check(user, tokens, now = Date.now()) {
+      const entry = current(user, now);
+      if (user.dailyRequests !== null && entry.requests >= user.dailyRequests) {
+        return `Daily request quota of ${user.dailyRequests} used up - resets at ${nextReset(now)}`;
+      }
+      if (user.dailyTokens !== null) {
+        const left = user.dailyTokens - entry.tokens - entry.reserved;
+        if (left <= 0) {
+          return `Daily token quota of ${user.dailyTokens} used up - resets at ${nextReset(now)}`;
+        }
+        if (tokens > left) {
+          return `max_tokens of ${tokens} is more than the ${left} tokens left of the daily quota of ${user.dailyTokens} - lower it or wait for the reset at ${nextReset(now)}`;
+        }
+      }
+      return null;
+    },
+    /** Count a request and hold its tokens until settle() */
+    reserve(user, tokens, now = Date.now()) {
+      const entry = current(user, now);
+      entry.requests += 1;
+      entry.reserved += tokens;
+      return { day: entry.day, tokens };
+    },
+    /** Release a reservation and count the tokens the request actually used */
+    settle(user, reservation, tokens, now = Date.now()) {
+      const entry = usage.get(user.name);
+      // A reservation from before the daily reset was already dropped with the old day
+      if (entry && entry.day === reservation.day) {
+        entry.reserved -= reservation.tokens;
+      }
+      current(user, now).tokens += tokens;
+    },
+    snapshot(user, now = Date.now()) {
+      const entry = current(user, now);
+      return { requests: entry.requests, tokens: entry.tokens, reserved: entry.reserved };
+    }
+  };
+}
+
+function createLogger(logFile) {
+  const stream = logFile ? fs.createWriteStream(logFile, { flags: 'a' }) : null;
+  return (entry) => {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    console.log(line);
+    if (stream) stream.write(line + '\n');
+  };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error(`Request body is larger than ${MAX_BODY_BYTES} bytes`), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Error body in the Anthropic API's shape, so the client reports it like any other API error
+ */
+function sendError(res, status, type, message) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ type: 'error', error: { type, message } }));
+}
+
+function createProxy({ apiKey, users, allowedOrigin, log, upstreamUrl = ANTHROPIC_URL }) {
+  const quotas = createQuotaTracker();
+
+  const setCorsHeaders = (req, res) => {
+    const origin = req.headers.origin;
+    if (allowedOrigin === '*' || origin === allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowedOrigin === '*' ? '*' : origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Headers', 'authorization, content-type, anthropic-version');
+      res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+      res.setHeader('Access-Control-Expose-Headers', 'retry-after, request-id, anthropic-ratelimit-requests-limit, anthropic-ratelimit-requests-remaining, anthropic-ratelimit-requests-reset, anthropic-ratelimit-tokens-limit, anthropic-ratelimit-tokens-remaining, anthropic-ratelimit-tokens-reset, anthropic-ratelimit-input-tokens-limit, anthropic-ratelimit-input-tokens-remaining, anthropic-ratelimit-input-tokens-reset');
+    }
+  };
+
+  const handleMessages = async (req, res) => {
+    const started = Date.now();
+    const entry = { user: null, model: null, status: 0 };
+    const finish = (extra) => log({ ...entry, ...extra, duration_ms: Date.now() - started });
+
+    const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const user = token ? users.get(token) : undefined;
+    if (!user) {
+      entry.status = 401;
+      sendError(res, 401, 'authentication_error', 'Unknown or missing proxy token');
+      finish({ error: 'unknown token' });
+      return;
+    }
+    entry.user = user.name;
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      entry.status = error.status || 400;
+      sendError(res, entry.status, 'invalid_request_error', error.status ? error.message : 'Request body is not valid JSON');
+      finish({ error: error.message });
+      return;
+    }
+    entry.model = typeof body.model === 'string' ? body.model : null;
+
+    // Usage is counted from the final response, so streaming isn't supported
+    if (body.stream) {
+      entry.status = 400;
+      sendError(res, 400, 'invalid_request_error', 'The proxy does not support streaming');
+      finish({ error: 'stream requested' });
+      return;
+    }
+
+    // The reservation - the API rejects a request without max_tokens anyway
+    const maxTokens = body.max_tokens;
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+      entry.status = 400;
+      sendError(res, 400, 'invalid_request_error', 'max_tokens must be a positive integer');
+      finish({ error: 'invalid max_tokens' });
+      return;
+    }
+
+    // 403 rather than 429: waiting a few seconds won't help, so the client must not retry
+    const quotaError = quotas.check(user, maxTokens);
+    if (quotaError) {
+      entry.status = 403;
+      sendError(res, 403, 'permission_error', quotaError);
+      finish({ error: 'quota exceeded' });
+      return;
+    }
+    const reservation = quotas.reserve(user, maxTokens);
+
+    let upstream;
+    let text;
+    let tokens = 0;
+    try {
+      try {
+        upstream = await fetch(upstreamUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': req.headers['anthropic-version'] || ANTHROPIC_VERSION
+          },
+          body: JSON.stringify(body)
+        });
+      } catch (error) {
+        entry.status = 502;
+        sendError(res, 502, 'api_error', `Could not reach the Anthropic API: ${error.message}`);
+        finish({ error: error.message });
+        return;
+      }
+
+      text = await upstream.text();
+      try {
+        const usage = JSON.parse(text).usage;
+        if (usage) tokens = (usage.input_tokens || 0) + (usage.output_tokens || 0);
+      } catch {
+        // Not JSON (e.g. a gateway error page) - pass it through as is
+      }
+    } finally {
+      // Also runs when the request failed, which releases the whole reservation
+      quotas.settle(user, reservation, tokens);
+    }
+
+    upstream.headers.forEach((value, name) => {
+      if (FORWARDED_HEADERS.test(name)) res.setHeader(name, value);
+    });
+    entry.status = upstream.status;
+    res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+    res.end(text);
+    finish({ tokens, used_today: quotas.snapshot(user) });
+  };
+
+  return http.createServer((req, res) => {
+    setCorsHeaders(req, res);
+    const route = (req.url || '').split('?')[0];
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && route === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+      return;
+    }
+    if (req.method === 'POST' && route === '/v1/messages') {
+      handleMessages(req, res).catch((error) => {
+        log({ status: 500, error: error.message });
+        if (!res.headersSent) sendError(res, 500, 'api_error', 'Proxy error');
+        else res.end();
+      });
+      return;
+    }
+    sendError(res, 404, 'not_found_error', `No route for ${req.method} ${route}`);
+  });
+}
+
+if (require.main === module) {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    console.error('❌ Set ANTHROPIC_API_KEY before starting the proxy');
+    process.exit(1);
+  }
+
+  const configPath = process.env.PROXY_CONFIG || path.join(__dirname, 'proxy.config.json');
+  let users;
+  try {
+    users = loadConfig(configPath);
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const port = parseInt(process.env.PROXY_PORT || '8787', 10);
+  const allowedOrigin = process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000';
+  const server = createProxy({ apiKey, users, allowedOrigin, log: createLogger(process.env.PROXY_LOG_FILE) });
+
+  server.listen(port, () => {
+    console.log(`🔐 Proxy listening on http://localhost:${port} for ${allowedOrigin} (${users.size} user${users.size === 1 ? '' : 's'})`);
+  });
+}
+
+module.exports = { createProxy, createQuotaTracker, loadConfig };
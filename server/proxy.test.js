@@ -0,0 +1,177 @@
+// Proxy tests - run with `npm run test:proxy` (Node's built-in test runner)
+// The proxy forwards to a fake Anthropic API on a local port instead of the real one.
+
+const { test, describe, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+const { createProxy, createQuotaTracker } = require('./proxy');
+
+const listen = (server) => new Promise((resolve) => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`));
+});
+const close = (server) => new Promise((resolve) => server.close(resolve));
+
+/**
+ * Fake Anthropic API - records requests and answers with the usage the test sets,
+ * or holds a response until the test releases it
+ */
+function createUpstream() {
+  const upstream = {
+    requests: [],
+    usage: { input_tokens: 100, output_tokens: 50 },
+    held: null,
+    server: http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        upstream.requests.push({ headers: req.headers, body: JSON.parse(body) });
+        const respond = () => {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'anthropic-ratelimit-requests-remaining': '49', 'x-internal': 'secret' });
+          res.end(JSON.stringify({ content: [{ type: 'text', text: 'ok' }], usage: upstream.usage }));
+        };
+        if (upstream.held) upstream.held.push(respond);
+        else respond();
+      });
+    })
+  };
+  return upstream;
+}
+
+const users = (quota) => new Map([
+  ['token-alice', { name: 'alice', dailyRequests: null, dailyTokens: null, ...quota }]
+]);
+
+const message = (maxTokens = 200) => ({ model: 'claude-sonnet-4-5', max_tokens: maxTokens, messages: [{ role: 'user', content: 'secret prompt' }] });
+
+async function post(url, body, token = 'token-alice') {
+  const response = await fetch(`${url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+describe('createProxy', () => {
+  let upstream;
+  let upstreamUrl;
+  let proxy;
+  let proxyUrl;
+  let logs;
+
+  const start = async (quota = {}, options = {}) => {
+    proxy = createProxy({ apiKey: 'sk-ant-real-key', users: users(quota), allowedOrigin: '*', log: (entry) => logs.push(entry), upstreamUrl, ...options });
+    proxyUrl = await listen(proxy);
+  };
+
+  beforeEach(async () => {
+    logs = [];
+    upstream = createUpstream();
+    upstreamUrl = await listen(upstream.server);
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    await close(upstream.server);
+  });
+
+  test('forwards the request with the real key and passes back the response', async () => {
+    await start();
+    const response = await post(proxyUrl, message());
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.content[0].text, 'ok');
+    assert.equal(response.headers.get('anthropic-ratelimit-requests-remaining'), '49');
+    assert.equal(response.headers.get('x-internal'), null);
+
+    const [forwarded] = upstream.requests;
+    assert.equal(forwarded.headers['x-api-key'], 'sk-ant-real-key');
+    assert.equal(forwarded.headers.authorization, undefined);
+    assert.deepEqual(forwarded.body, message());
+
+    assert.equal(logs.length, 1);
+    assert.deepEqual(logs[0].used_today, { requests: 1, tokens: 150, reserved: 0 });
+    assert.ok(!JSON.stringify(logs).includes('secret prompt'));
+  });
+
+  test('rejects unknown tokens, streaming and requests without max_tokens', async () => {
+    await start();
+    assert.equal((await post(proxyUrl, message(), 'token-mallory')).status, 401);
+    assert.equal((await post(proxyUrl, { ...message(), stream: true })).status, 400);
+    assert.equal((await post(proxyUrl, { ...message(), max_tokens: undefined })).status, 400);
+    assert.equal(upstream.requests.length, 0);
+  });
+
+  test('refuses a request whose max_tokens does not fit in the token quota left', async () => {
+    await start({ dailyTokens: 1000 });
+    const response = await post(proxyUrl, message(1200));
+
+    assert.equal(response.status, 403);
+    assert.match(response.body.error.message, /max_tokens of 1200 is more than the 1000 tokens left/);
+    assert.equal(upstream.requests.length, 0);
+  });
+
+  test('reserves max_tokens while a request is in flight and settles the real usage after', async () => {
+    await start({ dailyTokens: 1000 });
+    upstream.held = [];
+
+    const first = post(proxyUrl, message(600));
+    while (upstream.requests.length === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+
+    // 600 tokens are held for the first request, so a second one can't overrun the quota
+    const second = await post(proxyUrl, message(600));
+    assert.equal(second.status, 403);
+    assert.match(second.body.error.message, /400 tokens left/);
+
+    upstream.held.forEach((respond) => respond());
+    upstream.held = null;
+    assert.equal((await first).status, 200);
+
+    // Settled at the 150 tokens used, which leaves room for another 600
+    assert.equal((await post(proxyUrl, message(600))).status, 200);
+    assert.deepEqual(logs[logs.length - 1].used_today, { requests: 2, tokens: 300, reserved: 0 });
+  });
+
+  test('releases the reservation when the upstream cannot be reached', async () => {
+    const closed = createUpstream();
+    const closedUrl = await listen(closed.server);
+    await close(closed.server);
+    await start({ dailyTokens: 1000 }, { upstreamUrl: closedUrl });
+
+    assert.equal((await post(proxyUrl, message(1000))).status, 502);
+    // The whole quota is free again
+    assert.equal((await post(proxyUrl, message(1000))).status, 502);
+    assert.equal(logs.filter((entry) => entry.error === 'quota exceeded').length, 0);
+  });
+
+  test('enforces the daily request quota', async () => {
+    await start({ dailyRequests: 1 });
+    assert.equal((await post(proxyUrl, message())).status, 200);
+
+    const response = await post(proxyUrl, message());
+    assert.equal(response.status, 403);
+    assert.match(response.body.error.message, /Daily request quota of 1 used up/);
+  });
+});
+
+describe('createQuotaTracker', () => {
+  const user = { name: 'alice', dailyRequests: null, dailyTokens: 1000 };
+  const day = Date.parse('2024-05-01T23:59:00Z');
+
+  test('counts usage from a fresh day after midnight UTC', () => {
+    const quotas = createQuotaTracker();
+    quotas.settle(user, quotas.reserve(user, 500, day), 900, day);
+    assert.match(quotas.check(user, 500, day), /500 is more than the 100 tokens left/);
+    assert.equal(quotas.check(user, 500, day + 60 * 1000), null);
+  });
+
+  test('drops a reservation made before the reset instead of releasing it from the new day', () => {
+    const quotas = createQuotaTracker();
+    const reservation = quotas.reserve(user, 600, day);
+    const afterReset = day + 2 * 60 * 1000;
+    quotas.reserve(user, 300, afterReset);
+
+    quotas.settle(user, reservation, 200, afterReset);
+    assert.deepEqual(quotas.snapshot(user, afterReset), { requests: 1, tokens: 200, reserved: 300 });
+  });
+});
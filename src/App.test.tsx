@@ -1,9 +1,13 @@
+import 'fake-indexeddb/auto';
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// The import client starts a bundler-built Web Worker (import.meta.url), which jest can't load
+jest.mock('./utils/importClient', () => ({ loadImportIndex: jest.fn() }));
+
+test('renders the setup step', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByText('Writing Improvement System')).toBeInTheDocument();
+  expect(await screen.findByText('Get Started')).toBeInTheDocument();
 });
@@ -1,11 +1,39 @@
-import React, { useState } from 'react';
-import { FileText, Download, Upload, AlertCircle, CheckCircle, Loader, XCircle, Info, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { FileText, Download, Upload, AlertCircle, CheckCircle, Loader, XCircle, Info, ChevronRight, Activity } from 'lucide-react';
 import { AnthropicAPI, PracticeQuestion, GradingResult, Issue, Analysis, Message } from './utils/anthropicApi';
-import { parseChatLogs, filterMessagesHeuristic, ParsedMessage, getChatLogMetadata, ChatLogMetadata, getConversationRangeStats } from './utils/chatLogParser';
-import { PracticeSession, ViewType, ReEvaluationResult, PracticePerformanceSummary } from './types';
+import { parseConversations, filterMessagesHeuristic, ParsedMessage, ChatLogMetadata, getConversationRangeStats, getRevisionStats, getPastedContentStats, getHeuristicStats } from './utils/chatLogParser';
+import { getFormatLabel, SUPPORTED_UPLOAD_TYPES } from './utils/importers';
+import { loadImportIndex } from './utils/importClient';
+import { PracticeSession, ViewType, ReEvaluationResult, PracticePerformanceSummary, AppState, LearnerProfile, ProfileHistoryEntry, BaselineMetadata, ConversationSelection, HeuristicRuleSet, FilterOverrides, RedactionMap, EvaluationResult, CostEstimate, LLMProviderConfig, LLMProviderKind, StageModelSettings, PipelineStage, RateLimiterState, RunCheckpoint, BatchState, ResponseCacheSettings, RunUsage, LLMCallEvent } from './types';
+import { DEFAULT_RULE_SET, parseRuleSet } from './utils/heuristicRules';
+import { countLanguages, getLanguageName } from './utils/languageDetection';
+import { createRedactionMap, cloneRedactionMap, redactMessages, restoreText, restoreEvaluation, parseRedactionTerms } from './utils/redaction';
+import { needsLLMConfirmation, selectForEvaluation, countOverrides, isSelectedForEvaluation } from './utils/filterOverrides';
+import { createProvider, validateProviderConfig, LLM_PROVIDERS, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, DEFAULT_PROXY_URL } from './utils/providers';
+import { estimateRunCost, formatCost, parseBudget, getModelPricing, BudgetExceededError, STAGE_LABELS, getModelLabel } from './utils/costEstimator';
+import { validateStageSettings, parseStageSettings } from './utils/modelSettings';
+import { parseRequestsPerMinute } from './utils/rateLimiter';
+import { parseConcurrency, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from './utils/workQueue';
+import { parseCacheSettings, pruneResponseCache, clearResponseCache, DEFAULT_CACHE_SETTINGS, CACHE_TTL_OPTIONS } from './utils/responseCache';
+import { createDefaultSelection, selectConversationIndices, summarizeConversation, describeSelection } from './utils/conversationSelection';
+import { loadWorkspace, saveWorkspace, saveRunCheckpoint, loadRunCheckpoint, clearRunCheckpoint } from './utils/persistence';
+import { RunAbortedError, stopRun, describeCheckpoint } from './utils/runControl';
+import { createProfile, duplicateProfile, createEmptyAppState, createHistoryEntry, maskApiKey } from './utils/profiles';
 import PracticeSessionComponent from './components/PracticeSession';
 import ReEvaluationComponent from './components/ReEvaluation';
 import ProgressDashboard from './components/ProgressDashboard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ConversationSelector from './components/ConversationSelector';
+import HeuristicRuleEditor from './components/HeuristicRuleEditor';
+import FilterReview from './components/FilterReview';
+import RedactionPreview from './components/RedactionPreview';
+import ModelSettingsPanel from './components/ModelSettingsPanel';
+import RateLimitStatus from './components/RateLimitStatus';
+import BatchProgress from './components/BatchProgress';
+import RunDetailsDrawer from './components/RunDetailsDrawer';
+import AnnotatedText from './components/AnnotatedText';
+import RunControls from './components/RunControls';
+import ResumeRunBanner from './components/ResumeRunBanner';
 
 // Progress Stepper Component
 const ProgressStepper: React.FC<{
@@ -73,27 +101,369 @@ const ProgressStepper: React.FC<{
 // Main App Component
 function App() {
   const [apiKey, setApiKey] = useState('');
+  const [providerKind, setProviderKind] = useState<LLMProviderKind>('anthropic');
+  const [providerBaseUrl, setProviderBaseUrl] = useState('');
+  const [providerModel, setProviderModel] = useState('');
+  const [stageSettings, setStageSettings] = useState<StageModelSettings>({});
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [rateLimitInput, setRateLimitInput] = useState('');
+  const [rateLimiterState, setRateLimiterState] = useState<RateLimiterState | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [batchStates, setBatchStates] = useState<BatchState[]>([]);
+  const [cacheSettings, setCacheSettings] = useState<ResponseCacheSettings>(DEFAULT_CACHE_SETTINGS);
+  const [cachedResponses, setCachedResponses] = useState<number | null>(null);
+  const [, setTelemetryVersion] = useState(0);
+  const [showRunDetails, setShowRunDetails] = useState(false);
   const [api, setApi] = useState<AnthropicAPI | null>(null);
   const [validatingKey, setValidatingKey] = useState(false);
   const [currentView, setCurrentView] = useState<ViewType>('setup');
   const [completedSteps, setCompletedSteps] = useState<ViewType[]>([]);
   const [baselineAnalysis, setBaselineAnalysis] = useState<Analysis | null>(null);
+  const [baselineMetadata, setBaselineMetadata] = useState<BaselineMetadata | null>(null);
+  const [baselineEvaluations, setBaselineEvaluations] = useState<EvaluationResult[] | null>(null);
+  const [showEvaluatedMessages, setShowEvaluatedMessages] = useState(false);
   const [practiceSessions, setPracticeSessions] = useState<PracticeSession[]>([]);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState({ current: 0, total: 100, stage: '' });
   const [error, setError] = useState('');
   
   // File metadata and range selection
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [fileMetadata, setFileMetadata] = useState<ChatLogMetadata | null>(null);
-  const [conversationRange, setConversationRange] = useState({ start: 1, end: 100 });
+  const [selection, setSelection] = useState<ConversationSelection>(createDefaultSelection(100));
   const [showRangeSelector, setShowRangeSelector] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ status: string; current: number; total: number } | null>(null);
+  const [includeRevisions, setIncludeRevisions] = useState(false);
+  const [ruleSet, setRuleSet] = useState<HeuristicRuleSet>(DEFAULT_RULE_SET);
+  const [showRuleEditor, setShowRuleEditor] = useState(false);
+  const [filterOverrides, setFilterOverrides] = useState<FilterOverrides>({});
+  // Baseline run paused after Stage 2 so the user can review the filter decisions
+  const [filterReview, setFilterReview] = useState<RunCheckpoint | null>(null);
+  // Unfinished run of the active learner (paused, failed or interrupted by a reload)
+  const [checkpoint, setCheckpoint] = useState<RunCheckpoint | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
+  
+  // Privacy redaction - the map stays local so results can be shown with the originals
+  const [redactionEnabled, setRedactionEnabled] = useState(true);
+  const [redactionTerms, setRedactionTerms] = useState('');
+  const [redactionMap, setRedactionMap] = useState<RedactionMap>(createRedactionMap());
+  const [redactionPreview, setRedactionPreview] = useState<{ messages: ParsedMessage[]; map: RedactionMap } | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
   const [processingSteps, setProcessingSteps] = useState<string[]>([]);
   
   // Re-evaluation state
   const [followupAnalysis, setFollowupAnalysis] = useState<Analysis | null>(null);
   const [reEvaluationResult, setReEvaluationResult] = useState<ReEvaluationResult | null>(null);
 
+  // Learner profiles & persistence state
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState('');
+  const [hydrated, setHydrated] = useState(false);
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+  const createdAtRef = useRef(new Date().toISOString());
+  // Validated API clients per profile - kept in memory only, never persisted
+  const apisRef = useRef<{ [profileId: string]: AnthropicAPI }>({});
+
+  // Load a profile's workflow state into the working hooks
+  const applyAppState = (state: AppState, restored: boolean) => {
+    createdAtRef.current = state.created_at;
+    setCompletedSteps(state.completedSteps);
+    setBaselineAnalysis(state.baselineAnalysis || null);
+    setBaselineMetadata(state.baselineMetadata || null);
+    setFilterOverrides(state.filterOverrides || {});
+    setBaselineEvaluations(state.baselineEvaluations || null);
+    setRedactionMap(state.redactionMap || createRedactionMap());
+    setRedactionTerms((state.redactionTerms || []).join(', '));
+    setBudgetInput(state.budgetUsd ? String(state.budgetUsd) : '');
+    setPracticeSessions(state.practiceSessions);
+    setFollowupAnalysis(state.followupAnalysis || null);
+    setReEvaluationResult(state.reEvaluationResult || null);
+    // Practice and re-evaluation need a validated API key, so land on setup for those
+    setCurrentView(
+      state.currentView === 'practice' || state.currentView === 'reevaluation'
+        ? 'setup'
+        : state.currentView
+    );
+    setRestoredAt(restored && state.baselineAnalysis ? state.last_updated : null);
+  };
+
+  // Snapshot of the working hooks as the active profile's AppState
+  const buildActiveState = useCallback((): AppState => ({
+    currentView,
+    completedSteps,
+    baselineAnalysis: baselineAnalysis || undefined,
+    baselineMetadata: baselineMetadata || undefined,
+    filterOverrides,
+    baselineEvaluations: baselineEvaluations || undefined,
+    redactionMap,
+    redactionTerms: parseRedactionTerms(redactionTerms),
+    budgetUsd: parseBudget(budgetInput) ?? undefined,
+    practiceSessions,
+    followupAnalysis: followupAnalysis || undefined,
+    reEvaluationResult: reEvaluationResult || undefined,
+    created_at: createdAtRef.current,
+    last_updated: new Date().toISOString()
+  }), [currentView, completedSteps, baselineAnalysis, baselineMetadata, filterOverrides, baselineEvaluations, redactionMap, redactionTerms, budgetInput, practiceSessions, followupAnalysis, reEvaluationResult]);
+
+  // Profiles list with the active profile's state brought up to date
+  const withActiveState = (list: LearnerProfile[]): LearnerProfile[] => {
+    const state = buildActiveState();
+    return list.map(profile =>
+      profile.id === activeProfileId
+        ? { ...profile, state, last_updated: state.last_updated }
+        : profile
+    );
+  };
+
+  // Rehydrate the saved profiles once on load
+  useEffect(() => {
+    let cancelled = false;
+
+    loadWorkspace()
+      .then(saved => {
+        if (cancelled) return;
+
+        if (!saved || saved.profiles.length === 0) {
+          const profile = createProfile('Default learner');
+          setProfiles([profile]);
+          setActiveProfileId(profile.id);
+          return;
+        }
+
+        const active = saved.profiles.find(p => p.id === saved.activeProfileId) || saved.profiles[0];
+        setProfiles(saved.profiles);
+        setActiveProfileId(active.id);
+        applyAppState(active.state, true);
+        if (saved.heuristicRuleSet) {
+          try {
+            setRuleSet(parseRuleSet(saved.heuristicRuleSet));
+          } catch (err) {
+            console.warn('⚠️ Saved filter rules are invalid, using defaults:', err);
+          }
+        }
+        setStageSettings(parseStageSettings(saved.stageModelSettings));
+        setRateLimitInput(saved.rateLimitCeiling ? String(saved.rateLimitCeiling) : '');
+        setBatchConcurrency(parseConcurrency(saved.batchConcurrency));
+        setCacheSettings(parseCacheSettings(saved.responseCache));
+        console.log(`💾 Restored ${saved.profiles.length} learner profile(s); active: "${active.name}"`);
+      })
+      .catch(err => {
+        console.error('Failed to restore saved progress:', err);
+        if (cancelled) return;
+        const profile = createProfile('Default learner');
+        setProfiles([profile]);
+        setActiveProfileId(profile.id);
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save all profiles after every state transition (baseline, grading, re-evaluation, navigation)
+  useEffect(() => {
+    if (!hydrated || !activeProfileId) return;
+
+    const state = buildActiveState();
+    const updatedProfiles = profiles.map(profile =>
+      profile.id === activeProfileId
+        ? { ...profile, state, last_updated: state.last_updated }
+        : profile
+    );
+
+    saveWorkspace({
+      activeProfileId,
+      profiles: updatedProfiles,
+      heuristicRuleSet: ruleSet === DEFAULT_RULE_SET ? undefined : ruleSet,
+      stageModelSettings: Object.keys(stageSettings).length > 0 ? stageSettings : undefined,
+      rateLimitCeiling: parseRequestsPerMinute(rateLimitInput) ?? undefined,
+      batchConcurrency: batchConcurrency === DEFAULT_BATCH_CONCURRENCY ? undefined : batchConcurrency,
+      responseCache: cacheSettings
+    }).catch(err => {
+      console.error('Failed to save progress:', err);
+    });
+  }, [hydrated, activeProfileId, profiles, buildActiveState, ruleSet, stageSettings, rateLimitInput, batchConcurrency, cacheSettings]);
+
+  // Every request (including practice grading) uses the current per-stage settings
+  useEffect(() => {
+    api?.setStageSettings(stageSettings);
+  }, [api, stageSettings]);
+
+  useEffect(() => {
+    api?.setRateLimitCeiling(parseRequestsPerMinute(rateLimitInput));
+  }, [api, rateLimitInput]);
+
+  useEffect(() => {
+    api?.setConcurrency(batchConcurrency);
+  }, [api, batchConcurrency]);
+
+  useEffect(() => {
+    api?.setCacheSettings(cacheSettings);
+  }, [api, cacheSettings]);
+
+  // Drop expired responses and refresh the count whenever a run finishes
+  useEffect(() => {
+    if (!hydrated || processing) return;
+    let cancelled = false;
+    pruneResponseCache(cacheSettings.ttlDays)
+      .then(count => {
+        if (!cancelled) setCachedResponses(count);
+      })
+      .catch(err => {
+        console.warn('⚠️ Could not prune the response cache:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hydrated, processing, cacheSettings.ttlDays]);
+
+  // Each learner can have one unfinished run to resume
+  useEffect(() => {
+    if (!hydrated || !activeProfileId) return;
+    let cancelled = false;
+    loadRunCheckpoint(activeProfileId)
+      .then(saved => {
+        if (!cancelled) setCheckpoint(saved);
+      })
+      .catch(err => console.error('Failed to load run checkpoint:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [hydrated, activeProfileId]);
+
+  // Mirror the rate limiter's pace and queue for the processing screens
+  useEffect(() => {
+    if (!api) {
+      setRateLimiterState(null);
+      return;
+    }
+    setRateLimiterState(api.getRateLimiterState());
+    return api.onRateLimiterChange(setRateLimiterState);
+  }, [api]);
+
+  // Re-render the run details as calls are logged - the log changes in place, so count the changes
+  useEffect(() => {
+    if (!api) return;
+    return api.onTelemetryChange(() => setTelemetryVersion(version => version + 1));
+  }, [api]);
+  const llmCalls: LLMCallEvent[] = api ? api.getTelemetry() : [];
+
+  // Append an entry to the active learner's history
+  const addHistoryEntry = (type: ProfileHistoryEntry['type'], summary: string) => {
+    const entry = createHistoryEntry(type, summary);
+    setProfiles(prev => prev.map(profile =>
+      profile.id === activeProfileId
+        ? { ...profile, history: [...profile.history, entry] }
+        : profile
+    ));
+  };
+
+  // Reset transient setup state when the learner changes
+  const resetSetupState = () => {
+    setApiKey('');
+    setError('');
+    setUploadedFiles([]);
+    setFileMetadata(null);
+    setShowRangeSelector(false);
+    setProcessingSteps([]);
+    setFilterReview(null);
+    setRedactionPreview(null);
+  };
+
+  // Profile handlers
+  const handleSwitchProfile = (profileId: string) => {
+    if (profileId === activeProfileId) return;
+
+    const updatedProfiles = withActiveState(profiles);
+    const target = updatedProfiles.find(p => p.id === profileId);
+    if (!target) return;
+
+    setProfiles(updatedProfiles);
+    setActiveProfileId(profileId);
+    setApi(apisRef.current[profileId] || null);
+    resetSetupState();
+    applyAppState(target.state, false);
+  };
+
+  const handleCreateProfile = () => {
+    const name = window.prompt('Name for the new learner profile:');
+    if (!name?.trim()) return;
+
+    const profile = createProfile(name);
+    setProfiles([...withActiveState(profiles), profile]);
+    setActiveProfileId(profile.id);
+    setApi(null);
+    resetSetupState();
+    applyAppState(profile.state, false);
+  };
+
+  const handleRenameProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    const name = window.prompt('Rename learner profile:', profile.name);
+    if (!name?.trim()) return;
+
+    setProfiles(prev => prev.map(p => p.id === profileId ? { ...p, name: name.trim() } : p));
+  };
+
+  const handleDuplicateProfile = (profileId: string) => {
+    const updatedProfiles = withActiveState(profiles);
+    const source = updatedProfiles.find(p => p.id === profileId);
+    if (!source) return;
+
+    setProfiles([...updatedProfiles, duplicateProfile(source)]);
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    const proceed = window.confirm(
+      `Delete "${profile.name}" and all of their evaluations, practice sessions and history? This cannot be undone.`
+    );
+    if (!proceed) return;
+
+    delete apisRef.current[profileId];
+    clearRunCheckpoint(profileId).catch(err => console.error('Failed to clear run checkpoint:', err));
+    let remaining = profiles.filter(p => p.id !== profileId);
+
+    if (profileId !== activeProfileId) {
+      setProfiles(remaining);
+      return;
+    }
+
+    // Deleting the active profile - fall back to another one (or a fresh default)
+    if (remaining.length === 0) {
+      remaining = [createProfile('Default learner')];
+    }
+    const next = remaining[0];
+    setProfiles(remaining);
+    setActiveProfileId(next.id);
+    setApi(apisRef.current[next.id] || null);
+    resetSetupState();
+    applyAppState(next.state, false);
+  };
+
+  // Discard the active learner's saved progress and reset the workflow
+  const handleStartOver = () => {
+    const proceed = window.confirm(
+      'This will permanently delete this learner\'s saved evaluation, practice sessions, re-evaluation results and history. Continue?'
+    );
+    if (!proceed) return;
+
+    const fresh = createEmptyAppState();
+    setProfiles(prev => prev.map(p => p.id === activeProfileId ? { ...p, history: [] } : p));
+    discardCheckpoint();
+    resetSetupState();
+    applyAppState(fresh, false);
+  };
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
   // Helper function to mark a step as completed
   const markStepCompleted = (step: ViewType) => {
     setCompletedSteps(prev => {
@@ -137,11 +507,24 @@ function App() {
           : session
       )
     );
+
+    const session = practiceSessions.find(s => s.session_id === sessionId);
+    addHistoryEntry(
+      'practice',
+      `Practice session ${session?.session_number ?? ''} graded: ${Math.round(score * 100)}%`
+    );
   };
 
   const validateApiKey = async () => {
-    if (!apiKey.trim()) {
-      setError('Please enter an API key');
+    const config: LLMProviderConfig = {
+      kind: providerKind,
+      apiKey: apiKey.trim() || undefined,
+      baseUrl: providerBaseUrl.trim() || undefined,
+      model: providerModel.trim() || undefined
+    };
+    const configError = validateProviderConfig(config);
+    if (configError) {
+      setError(configError);
       return;
     }
 
@@ -149,14 +532,24 @@ function App() {
     setError('');
 
     try {
-      const testApi = new AnthropicAPI(apiKey.trim());
+      const testApi = new AnthropicAPI(createProvider(config));
       const isValid = await testApi.testConnection();
       
       if (isValid) {
+        apisRef.current[activeProfileId] = testApi;
         setApi(testApi);
+        if (config.apiKey) {
+          setProfiles(prev => prev.map(p =>
+            p.id === activeProfileId ? { ...p, apiKeyRef: maskApiKey(apiKey) } : p
+          ));
+        }
         setError('');
       } else {
-        setError('Connection test failed. Please check your API key and try again.');
+        setError(providerKind === 'openai-compatible'
+          ? 'Connection test failed. Check that the server is running, the URL and model name are right, and it allows requests from this page (CORS).'
+          : providerKind === 'anthropic-proxy'
+            ? 'Connection test failed. Check that the proxy is running (npm run proxy), your token is in its config, and PROXY_ALLOWED_ORIGIN matches this page.'
+            : 'Connection test failed. Please check your API key and try again.');
       }
     } catch (err: any) {
       console.error('API validation error:', err);
@@ -167,60 +560,332 @@ function App() {
   };
 
   // Handle file upload and show metadata
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = async (files: File[]) => {
     try {
-      setProcessingSteps(['📂 Reading file...']);
-      setUploadedFile(file);
+      setProcessingSteps([files.length > 1 ? `📂 Reading ${files.length} files...` : '📂 Reading file...']);
+      setUploadedFiles(files);
       setError('');
       
-      const text = await file.text();
-      const data = JSON.parse(text);
+      setFileMetadata(null);
+      setShowRangeSelector(false);
+      
+      // Parsed in a Web Worker; the index is cached for the evaluation run
+      const { format, metadata } = await loadImportIndex(files, (status, current, total) => {
+        setImportProgress({ status, current, total });
+      });
       
       setProcessingSteps(prev => [...prev, '📊 Analyzing chat log structure...']);
-      const metadata = getChatLogMetadata(data);
       setFileMetadata(metadata);
       
       // Set default range to all conversations
-      setConversationRange({ start: 1, end: metadata.totalConversations });
+      setSelection(createDefaultSelection(metadata.totalConversations));
       setShowRangeSelector(true);
       
       setProcessingSteps(prev => [
         ...prev, 
-        `✓ Found ${metadata.totalConversations} conversations`,
+        format === 'documents'
+          ? `✓ Imported ${metadata.totalConversations} documents`
+          : `✓ Detected ${getFormatLabel(format)} export format`,
+        `✓ Found ${metadata.totalConversations} ${format === 'documents' ? 'documents' : 'conversations'}`,
         `✓ Estimated ${metadata.estimatedMessages} total messages`,
         `✓ Date range: ${metadata.dateRange.earliest?.toLocaleDateString()} to ${metadata.dateRange.latest?.toLocaleDateString()}`
       ]);
       
     } catch (err: any) {
-      setError('Error reading file. Please ensure it\'s a valid OpenAI chat export JSON.');
+      setError(`Error reading file. Please upload an OpenAI or Claude.ai chat export JSON, or .txt, .md, .docx or .eml documents. ${err.message || ''}`.trim());
       setFileMetadata(null);
       setShowRangeSelector(false);
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  // Parse the current selection and show what redaction would replace - nothing is sent
+  const handlePreviewRedaction = async () => {
+    if (uploadedFiles.length === 0) return;
+    try {
+      const { conversations } = await loadImportIndex(uploadedFiles);
+      const messages = parseConversations(conversations, { selection, includeRevisions });
+      const map = cloneRedactionMap(redactionMap);
+      redactMessages(messages, map, { customTerms: parseRedactionTerms(redactionTerms) });
+      setRedactionPreview({ messages, map });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Upper-bound estimate for a run - assumes Stage 2 confirms every Stage 1 survivor
+  const estimateFilteredRun = (parsedMessages: ParsedMessage[], comparison: boolean = false) => {
+    const candidates = parsedMessages.filter(msg => isSelectedForEvaluation(msg, filterOverrides));
+    const estimate = estimateRunCost({
+      relevanceTexts: candidates.filter(msg => needsLLMConfirmation(msg, filterOverrides)).map(msg => msg.text),
+      evaluationTexts: candidates.map(msg => msg.text),
+      comparison
+    }, api?.model, api?.getStageModels());
+    return { messages: candidates.length, estimate };
+  };
+
+  // Re-evaluation confirm dialog: parse and filter locally, nothing is sent
+  const estimateReEvaluationCost = async (files: File[], reSelection: ConversationSelection) => {
+    const { conversations } = await loadImportIndex(files);
+    const parsedMessages = parseConversations(conversations, {
+      selection: reSelection,
+      excludeMessageIds: baselineMetadata?.message_ids_evaluated
+    });
+    filterMessagesHeuristic(parsedMessages, undefined, ruleSet);
+    return estimateFilteredRun(parsedMessages, true);
+  };
+
+  // Log the estimate, and let the user back out when it is over budget
+  const confirmEstimate = (estimate: CostEstimate): boolean => {
+    const { total } = estimate;
+    setProcessingSteps(prev => [
+      ...prev,
+      `💰 Estimated cost: ~${formatCost(total.cost_usd)} (${total.requests} requests, ~${(total.input_tokens + total.output_tokens).toLocaleString()} tokens with ${getModelPricing(estimate.model).label})`
+    ]);
+    const budget = parseBudget(budgetInput);
+    if (budget === null || total.cost_usd <= budget) return true;
+    return window.confirm(
+      `The estimated cost (~${formatCost(total.cost_usd)}) is over your budget of ${formatCost(budget)}.\n\n` +
+      `The run will stop as soon as the budget is spent. Continue anyway?`
+    );
+  };
+
+  // Runs refuse to start with settings the panel flags as invalid
+  const stageSettingsValid = (): boolean => {
+    if (Object.keys(validateStageSettings(stageSettings, providerKind)).length === 0) return true;
+    setError('Fix the per-stage model settings before starting a run');
+    setShowModelSettings(true);
+    return false;
+  };
+
+  const describeRunError = (err: any) =>
+    err instanceof BudgetExceededError ? `💰 ${err.message}` : `❌ Error: ${err.message}`;
+
+  // Messages the API failed on even after retries are reported, not scored
+  const describeUnevaluated = (evaluations: EvaluationResult[]): string[] => {
+    const count = evaluations.filter(e => e.unevaluated).length;
+    return count > 0 ? [`⚠️ ${count} messages could not be evaluated and are left out of the scores`] : [];
+  };
+
+  // Token totals for the processing log, with what the response cache saved
+  const describeUsage = (usage: RunUsage, withRequests: boolean = true): string => {
+    const requests = withRequests ? ` in ${usage.requests} requests` : '';
+    const cached = usage.cache_hits
+      ? `; ${usage.cache_hits} cached responses saved ~${formatCost(usage.cache_saved_usd || 0)}`
+      : '';
+    return `💰 Used ${(usage.input_tokens + usage.output_tokens).toLocaleString()} tokens${requests} (${formatCost(usage.cost_usd)}${cached})`;
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Delete every cached response? Later runs will call the API again.')) return;
+    try {
+      await clearResponseCache();
+      setCachedResponses(0);
+    } catch (err) {
+      console.error('Failed to clear the response cache:', err);
+      alert('Could not clear the response cache.');
+    }
+  };
+
+  // A learner has at most one checkpoint, so a new run replaces the unfinished one
+  const confirmReplaceCheckpoint = (): boolean =>
+    !checkpoint || window.confirm('Starting a new run discards your unfinished run. Continue?');
+
+  // Run control - Pause and Cancel abort the signal of the run in progress
+  const startRunController = (): AbortSignal => {
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    setBatchStates([]);
+    return controller.signal;
+  };
+
+  const handlePauseRun = () => {
+    if (runControllerRef.current) {
+      stopRun(runControllerRef.current, 'paused');
     }
   };
 
+  const handleCancelRun = () => {
+    if (!runControllerRef.current) return;
+    if (!window.confirm('Cancel this run? Finished batches are discarded; tokens already used are still billed.')) return;
+    stopRun(runControllerRef.current, 'cancelled');
+  };
+
+  // Checkpoints are saved after every finished batch - a failed save only costs the ability to resume
+  const saveCheckpoint = async (run: RunCheckpoint) => {
+    run.updated_at = new Date().toISOString();
+    setCheckpoint({ ...run });
+    try {
+      await saveRunCheckpoint(activeProfileId, run);
+    } catch (err) {
+      console.error('Failed to save run checkpoint:', err);
+    }
+  };
+
+  const discardCheckpoint = async () => {
+    setCheckpoint(null);
+    try {
+      await clearRunCheckpoint(activeProfileId);
+    } catch (err) {
+      console.error('Failed to clear run checkpoint:', err);
+    }
+  };
+
+  // Paused, failed and budget-stopped runs keep their checkpoint; cancelled ones drop it
+  const handleRunError = (err: any, run?: RunCheckpoint) => {
+    const usage = api?.stopUsageTracking();
+    runControllerRef.current = null;
+    setProcessing(false);
+    
+    if (err instanceof RunAbortedError && err.reason === 'cancelled') {
+      if (run) {
+        discardCheckpoint();
+      }
+      setProcessingSteps(prev => [...prev, '⏹️ Run cancelled']);
+      return;
+    }
+    if (run) {
+      saveCheckpoint({ ...run, status: 'paused', usage });
+    }
+    if (err instanceof RunAbortedError) {
+      setProcessingSteps(prev => [...prev, '⏸️ Paused - resume from the last finished batch whenever you are ready']);
+      return;
+    }
+    setError(err.message);
+    setProcessingSteps(prev => [...prev, describeRunError(err)]);
+  };
+
+  // Stage 2 for the messages the checkpoint has no verdict for yet
+  const confirmRemainingRelevance = async (
+    run: RunCheckpoint,
+    signal: AbortSignal,
+    onProgress: (status: string) => void
+  ) => {
+    if (!api) return;
+    const pending = new Set(run.relevanceIds.filter(id => !(id in run.verdicts)));
+    const toConfirm = run.messages.filter(msg => pending.has(msg.id));
+    await saveCheckpoint(run);
+    
+    await api.classifyRelevanceLLM(
+      toConfirm.map(msg => ({ id: msg.id, text: msg.text })),
+      10, // batch size
+      onProgress,
+      {
+        signal,
+        onBatchStatus: setBatchStates,
+        onBatchComplete: (batchVerdicts) => {
+          Object.assign(run.verdicts, batchVerdicts);
+          run.usage = api.getUsage();
+          return saveCheckpoint(run);
+        }
+      }
+    );
+    run.messages.forEach(msg => {
+      if (msg.id in run.verdicts) {
+        msg.llmVerdict = run.verdicts[msg.id];
+      }
+    });
+  };
+
+  // Stage 3 for the messages the checkpoint has no result for yet - returns every result of the run
+  const evaluateRemaining = async (
+    run: RunCheckpoint,
+    signal: AbortSignal,
+    onProgress: (status: string) => void
+  ): Promise<EvaluationResult[]> => {
+    if (!api) return run.evaluations;
+    const done = new Set(run.evaluations.map(e => e.message_id));
+    const pending = new Set(run.evaluationIds.filter(id => !done.has(id)));
+    const toEvaluate = run.messages
+      .filter(msg => pending.has(msg.id))
+      .map(msg => ({ id: msg.id, text: msg.text, language: msg.language }));
+    await saveCheckpoint(run);
+    
+    await api.evaluateBatch(toEvaluate, onProgress, {
+      signal,
+      onBatchStatus: setBatchStates,
+      onBatchComplete: (results) => {
+        run.evaluations.push(...results);
+        run.usage = api.getUsage();
+        return saveCheckpoint(run);
+      }
+    });
+    return run.evaluations;
+  };
+
+  // Pick an unfinished run back up from its checkpoint - the uploaded files are not needed
+  const handleResumeRun = async () => {
+    if (!api || !checkpoint) return;
+    if (!stageSettingsValid()) return;
+    const run: RunCheckpoint = { ...checkpoint, status: 'running' };
+    
+    setError('');
+    setProcessingSteps([`↩️ Resuming: ${describeCheckpoint(checkpoint)}`]);
+    api.startUsageTracking(parseBudget(budgetInput), run.estimated_cost_usd, run.usage);
+    
+    if (run.stage === 'review') {
+      run.messages.forEach(msg => {
+        if (msg.id in run.verdicts) {
+          msg.llmVerdict = run.verdicts[msg.id];
+        }
+      });
+      setCurrentView('setup');
+      setFilterReview(run);
+      return;
+    }
+    
+    setProcessing(true);
+    setCurrentView(run.kind === 'baseline' ? 'setup' : 'reevaluation');
+    try {
+      const signal = startRunController();
+      if (run.kind === 'reevaluation') {
+        await runReEvaluation(run, signal);
+      } else if (run.stage === 'relevance') {
+        await runBaselineRelevance(run, signal);
+      } else {
+        await runBaselineEvaluation(run, signal);
+      }
+    } catch (err: any) {
+      handleRunError(err, run);
+    }
+  };
+
+  const handleDiscardRun = () => {
+    if (!window.confirm('Discard the unfinished run? Its finished batches will be lost.')) return;
+    api?.stopUsageTracking();
+    setFilterReview(null);
+    discardCheckpoint();
+  };
+
   const handleEvaluation = async () => {
-    if (!api || !uploadedFile || !fileMetadata) {
+    if (!api || uploadedFiles.length === 0 || !fileMetadata) {
       setError('Please validate API key and upload a file first');
       return;
     }
+    if (!stageSettingsValid() || !confirmReplaceCheckpoint()) return;
+    let run: RunCheckpoint | undefined;
 
     try {
       setProcessing(true);
       setError('');
       setProcessingSteps([]);
       
-      const text = await uploadedFile.text();
-      const data = JSON.parse(text);
+      const { conversations } = await loadImportIndex(uploadedFiles);
+      const selectedIndices = selectConversationIndices(fileMetadata.conversations, selection);
+      if (selectedIndices.length === 0) {
+        throw new Error('No conversations match the current selection');
+      }
       
-      // Step 1: Parse with range selection
+      // Step 1: Parse the selected conversations
       setProgress({ current: 10, total: 100, stage: 'Parsing chat logs...' });
       setProcessingSteps(['📖 Step 1: Parsing chat logs...']);
       
-      const parsedMessages: ParsedMessage[] = parseChatLogs(
-        data,
+      const parsedMessages: ParsedMessage[] = parseConversations(
+        conversations,
         {
-          startConversation: conversationRange.start,
-          endConversation: conversationRange.end
+          selection,
+          includeRevisions
         },
         (status, current, total) => {
           setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
@@ -229,6 +894,38 @@ function App() {
       
       setProcessingSteps(prev => [...prev, `✓ Parsed ${parsedMessages.length} total messages`]);
       
+      const languageCounts = countLanguages(parsedMessages);
+      if (languageCounts.length > 1) {
+        setProcessingSteps(prev => [
+          ...prev,
+          `🌐 Languages: ${languageCounts.map(({ language, count }) => `${getLanguageName(language)} (${count})`).join(', ')}`
+        ]);
+      }
+      
+      // Redact personal information before any text is sent to the API
+      if (redactionEnabled) {
+        const map = cloneRedactionMap(redactionMap);
+        const redactedCount = redactMessages(parsedMessages, map, { customTerms: parseRedactionTerms(redactionTerms) });
+        setRedactionMap(map);
+        setProcessingSteps(prev => [...prev, `🔒 Redacted ${redactedCount} personal details before sending`]);
+      }
+      
+      const pastedStats = getPastedContentStats(parsedMessages);
+      if (pastedStats.messagesWithPasted > 0) {
+        setProcessingSteps(prev => [
+          ...prev,
+          `✂️ Removed pasted content (code, quotes, drafts) from ${pastedStats.messagesWithPasted} messages`
+        ]);
+      }
+      
+      const revisionStats = includeRevisions ? getRevisionStats(parsedMessages) : undefined;
+      if (revisionStats) {
+        setProcessingSteps(prev => [
+          ...prev,
+          `✓ ${revisionStats.messages_with_revisions} messages were edited before sending (${revisionStats.total_revisions} earlier drafts)`
+        ]);
+      }
+      
       // Step 2: Filter for writing-related content
       setProgress({ current: 20, total: 100, stage: 'Filtering for writing content...' });
       setProcessingSteps(prev => [...prev, '🔍 Step 2: Filtering for writing-related messages...']);
@@ -237,110 +934,216 @@ function App() {
         parsedMessages,
         (status, current, total) => {
           setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-        }
+        },
+        ruleSet
       );
+      const heuristicStats = getHeuristicStats(parsedMessages, ruleSet);
       
       // Limit to 20 for demo/cost efficiency
       const filteredTest = filtered.slice(0, 20);
       
-      if (filtered.length === 0) {
+      if (filtered.length === 0 && !parsedMessages.some(msg => filterOverrides[msg.id] === 'include')) {
         throw new Error('No writing-related messages found in selected range');
       }
       
       setProcessingSteps(prev => [
         ...prev, 
         `✓ Found ${filtered.length} writing messages`,
+        `  Dropped: ${heuristicStats.by_reason.too_short || 0} too short, ${heuristicStats.by_reason.non_writing_signals || 0} non-writing, ${heuristicStats.by_reason.no_signals || 0} without signals`,
         `📊 Using ${filtered.length} messages for Stage 2 confirmation`
       ]);
       
-      // Step 3: Stage 2 - LLM Confirmation
-      setProgress({ current: 30, total: 100, stage: 'LLM confirmation of relevance...' });
-      setProcessingSteps(prev => [...prev, '🤖 Step 3: LLM confirmation filtering...']);
+      // Step 3: Stage 2 - LLM Confirmation (messages with an override are already decided)
+      const toConfirm = filtered.filter(msg => needsLLMConfirmation(msg, filterOverrides));
+      const { estimate } = estimateFilteredRun(parsedMessages);
+      if (!confirmEstimate(estimate)) {
+        setProcessingSteps(prev => [...prev, '⏹️ Cancelled - estimate is over budget']);
+        setProcessing(false);
+        return;
+      }
+      api.startUsageTracking(parseBudget(budgetInput), estimate.total.cost_usd);
+      
+      const now = new Date().toISOString();
+      run = {
+        kind: 'baseline',
+        stage: 'relevance',
+        status: 'running',
+        messages: parsedMessages,
+        relevanceIds: toConfirm.map(msg => msg.id),
+        verdicts: {},
+        evaluationIds: [],
+        evaluations: [],
+        estimated_cost_usd: estimate.total.cost_usd,
+        selection,
+        conversationsEvaluated: selectedIndices.length,
+        conversationsRange: {
+          start: selectedIndices[0] + 1,
+          end: selectedIndices[selectedIndices.length - 1] + 1
+        },
+        heuristicStats,
+        revisionStats,
+        created_at: now,
+        updated_at: now
+      };
+      await runBaselineRelevance(run, startRunController());
       
-      const confirmed = await api.filterRelevantMessagesLLM(
-        filtered.map(msg => ({ id: msg.id, text: msg.text })),
-        10, // batch size
-        (status) => {
-          setProgress(prev => ({ ...prev, stage: status }));
-          setProcessingSteps(prev => {
-            if (status.includes('⏸️')) {
-              return [...prev, `  ${status}`];
-            }
-            return [...prev.slice(0, -1), `  ${status}`];
-          });
+    } catch (err: any) {
+      handleRunError(err, run);
+    }
+  };
+
+  // Step 3 of the baseline - stops at the filter review
+  const runBaselineRelevance = async (run: RunCheckpoint, signal: AbortSignal) => {
+    if (!api) return;
+    
+    setProgress({ current: 30, total: 100, stage: 'LLM confirmation of relevance...' });
+    setProcessingSteps(prev => [...prev, '🤖 Step 3: LLM confirmation filtering...']);
+    
+    await confirmRemainingRelevance(run, signal, (status) => {
+      setProgress(prev => ({ ...prev, stage: status }));
+      setProcessingSteps(prev => {
+        if (status.includes('⏸️')) {
+          return [...prev, `  ${status}`];
         }
-      );
+        return [...prev.slice(0, -1), `  ${status}`];
+      });
+    });
+    
+    const relevantCount = run.relevanceIds.filter(id => run.verdicts[id] !== 'not_relevant').length;
+    setProcessingSteps(prev => [
+      ...prev,
+      `✓ Confirmed ${relevantCount}/${run.relevanceIds.length} messages as writing-related`,
+      '📋 Review the filter decisions below, then start the evaluation'
+    ]);
+    setProgress({ current: 40, total: 100, stage: 'Waiting for filter review...' });
+    
+    // The review can take a while - keep the checkpoint so a reload comes back to it
+    run.stage = 'review';
+    await saveCheckpoint(run);
+    runControllerRef.current = null;
+    setFilterReview(run);
+    setProcessing(false);
+  };
+
+  // Steps 4-5 of the baseline, once the user has reviewed the filter decisions
+  const handleConfirmReview = async () => {
+    if (!api || !filterReview) return;
+    const run = filterReview;
+    
+    try {
+      setProcessing(true);
+      setError('');
+      setFilterReview(null);
       
+      const confirmed = selectForEvaluation(run.messages, filterOverrides);
       if (confirmed.length === 0) {
-        throw new Error('No messages confirmed as writing-related by LLM');
+        throw new Error('No messages selected for evaluation');
       }
       
+      const overrideCounts = countOverrides(run.messages, filterOverrides);
       setProcessingSteps(prev => [
         ...prev,
-        `✓ Confirmed ${confirmed.length}/${filtered.length} messages as writing-related`,
+        ...(overrideCounts.include + overrideCounts.exclude > 0
+          ? [`✓ Applied your overrides: ${overrideCounts.include} included, ${overrideCounts.exclude} excluded`]
+          : []),
         `📊 Proceeding with ${confirmed.length} messages for evaluation`
       ]);
       
-      // Step 4: AI Evaluation
-      setProgress({ current: 50, total: 100, stage: 'AI evaluation in progress...' });
-      setProcessingSteps(prev => [...prev, '📝 Step 4: AI evaluation of writing quality...']);
-      
-      const evaluations = await api.evaluateBatch(confirmed, (status) => {
-        setProgress(prev => ({ ...prev, stage: status }));
-        setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-      });
-      
-      setProcessingSteps(prev => [...prev, `✓ Completed evaluation of ${evaluations.length} messages`]);
-      
-      // Step 5: Pattern Analysis
-      setProgress({ current: 80, total: 100, stage: 'Analyzing patterns...' });
-      setProcessingSteps(prev => [...prev, '📈 Step 5: Analyzing patterns and identifying issues...']);
-      
-      const analysis = await api.analyzePatterns(evaluations, (status) => {
-        setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-      });
-      
-      // Add metadata to the analysis
-      const analysisWithMetadata: Analysis = {
-        ...analysis,
-        metadata: {
-          evaluation_date: new Date().toISOString(),
-          conversations_range: {
-            start: conversationRange.start,
-            end: conversationRange.end
-          },
-          total_conversations_evaluated: conversationRange.end - conversationRange.start + 1,
-          messages_evaluated: evaluations.length
-        }
-      };
-      
-      setProcessingSteps(prev => [
-        ...prev,
-        `✓ Identified top issues in grammar, punctuation, and tone`,
-        '🎉 Analysis complete!'
-      ]);
-      
-      setProgress({ current: 100, total: 100, stage: 'Complete!' });
-      setBaselineAnalysis(analysisWithMetadata);
-      
-      // Mark evaluation as completed
-      markStepCompleted('setup');
-      markStepCompleted('evaluation');
-      
-      setTimeout(() => {
-        setProcessing(false);
-        setCurrentView('evaluation');
-      }, 1500);
+      run.stage = 'evaluation';
+      run.evaluationIds = confirmed.map(msg => msg.id);
+      run.evaluations = [];
+      await runBaselineEvaluation(run, startRunController());
       
     } catch (err: any) {
-      setError(err.message);
-      setProcessing(false);
-      setProcessingSteps(prev => [...prev, `❌ Error: ${err.message}`]);
+      handleRunError(err, run);
     }
   };
 
+  const runBaselineEvaluation = async (run: RunCheckpoint, signal: AbortSignal) => {
+    if (!api) return;
+    
+    // Step 4: AI Evaluation
+    setProgress({ current: 50, total: 100, stage: 'AI evaluation in progress...' });
+    setProcessingSteps(prev => [...prev, '📝 Step 4: AI evaluation of writing quality...']);
+    
+    const evaluations = await evaluateRemaining(run, signal, (status) => {
+      setProgress(prev => ({ ...prev, stage: status }));
+      setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
+    });
+    
+    setProcessingSteps(prev => [
+      ...prev,
+      `✓ Completed evaluation of ${evaluations.length} messages`,
+      ...describeUnevaluated(evaluations)
+    ]);
+    
+    // Step 5: Pattern Analysis
+    setProgress({ current: 80, total: 100, stage: 'Analyzing patterns...' });
+    setProcessingSteps(prev => [...prev, '📈 Step 5: Analyzing patterns and identifying issues...']);
+    
+    const analysis = await api.analyzePatterns(evaluations, (status) => {
+      setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
+    }, signal);
+    
+    const usage = api.stopUsageTracking();
+    runControllerRef.current = null;
+    
+    // Add metadata to the analysis
+    const analysisWithMetadata: Analysis = {
+      ...analysis,
+      metadata: {
+        evaluation_date: new Date().toISOString(),
+        conversations_range: run.conversationsRange,
+        total_conversations_evaluated: run.conversationsEvaluated,
+        selection: run.selection,
+        messages_evaluated: evaluations.length,
+        heuristic_stats: run.heuristicStats,
+        usage,
+        stage_models: usage.stage_models,
+        ...(run.revisionStats && { revision_stats: run.revisionStats })
+      }
+    };
+    
+    setProcessingSteps(prev => [
+      ...prev,
+      `✓ Identified top issues in grammar, punctuation, and tone`,
+      describeUsage(usage),
+      '🎉 Analysis complete!'
+    ]);
+    
+    setProgress({ current: 100, total: 100, stage: 'Complete!' });
+    setBaselineAnalysis(analysisWithMetadata);
+    setBaselineEvaluations(evaluations);
+    setBaselineMetadata({
+      evaluation_id: `eval_${Date.now().toString(36)}`,
+      evaluation_date: analysisWithMetadata.metadata!.evaluation_date,
+      total_messages_evaluated: evaluations.length,
+      earliest_message_timestamp: run.messages.reduce((min, m) => Math.min(min, m.timestamp), Infinity),
+      latest_message_timestamp: run.messages.reduce((max, m) => Math.max(max, m.timestamp), 0),
+      // Every parsed message, so re-evaluation also skips ones the filters rejected
+      message_ids_evaluated: run.messages.map(m => m.id),
+      cost_estimate: usage.cost_usd,
+      conversations_evaluated: run.conversationsEvaluated
+    });
+    addHistoryEntry(
+      'baseline',
+      `Baseline evaluation of ${evaluations.length} messages (grammar ${analysis.summary.avg_grammar_score.toFixed(1)}/5)`
+    );
+    await discardCheckpoint();
+    
+    // Mark evaluation as completed
+    markStepCompleted('setup');
+    markStepCompleted('evaluation');
+    
+    setTimeout(() => {
+      setProcessing(false);
+      setCurrentView('evaluation');
+    }, 1500);
+  };
+
   const generatePracticeSessions = async () => {
     if (!api || !baselineAnalysis) return;
+    if (!stageSettingsValid()) return;
     
     setProcessing(true);
     setProcessingSteps([]);
@@ -364,6 +1167,15 @@ function App() {
         `  • Tone: ${baselineAnalysis.top_tone_issues.length} issues`
       ]);
 
+      const estimate = estimateRunCost({ practiceSessions: 3 }, api.model, api.getStageModels());
+      if (!confirmEstimate(estimate)) {
+        setProcessingSteps(prev => [...prev, '⏹️ Cancelled - estimate is over budget']);
+        setProcessing(false);
+        return;
+      }
+      api.startUsageTracking(parseBudget(budgetInput), estimate.total.cost_usd);
+      const signal = startRunController();
+
       const sessions: PracticeSession[] = [];
       const today = new Date();
 
@@ -372,7 +1184,7 @@ function App() {
         setProgress({ current: 10 + (i * 25), total: 100, stage: `Generating session ${i}...` });
         setProcessingSteps(prev => [...prev, `\n📝 Step ${i + 1}: Generating Session ${i} questions...`]);
         
-        const questions = await api.generatePracticeQuestions(allIssues, i);
+        const questions = await api.generatePracticeQuestions(allIssues, i, 'medium', undefined, signal);
         
         setProcessingSteps(prev => [
           ...prev,
@@ -392,9 +1204,12 @@ function App() {
         });
       }
       
+      const usage = api.stopUsageTracking();
+      runControllerRef.current = null;
       setProcessingSteps(prev => [
         ...prev,
         '\n🎉 Practice plan generation complete!',
+        describeUsage(usage, false),
         `✓ ${sessions.length} sessions ready`,
         `✓ ${sessions.reduce((sum, s) => sum + s.questions.length, 0)} total practice questions`
       ]);
@@ -411,19 +1226,18 @@ function App() {
       }, 1500);
       
     } catch (err: any) {
-      setError(err.message);
-      setProcessing(false);
-      setProcessingSteps(prev => [...prev, `❌ Error: ${err.message}`]);
+      handleRunError(err);
     }
   };
 
   // Re-evaluation handler
   const handleReEvaluation = async (
-    file: File,
+    files: File[],
     options: {
       start: number;
       end: number;
       mode: 'incremental' | 'range';
+      selection?: ConversationSelection;
       practicePerformance: PracticePerformanceSummary;
     }
   ) => {
@@ -431,31 +1245,57 @@ function App() {
       setError('Missing API or baseline analysis');
       return;
     }
+    if (!stageSettingsValid() || !confirmReplaceCheckpoint()) return;
+    let run: RunCheckpoint | undefined;
 
     try {
       setProcessing(true);
       setError('');
       setProcessingSteps([]);
       
-      const text = await file.text();
-      const data = JSON.parse(text);
+      const { conversations } = await loadImportIndex(files);
       
       // Step 1: Parse only the new conversations
       setProgress({ current: 10, total: 100, stage: 'Parsing new conversations...' });
-      setProcessingSteps([`🔄 Re-evaluation: Analyzing conversations ${options.start}-${options.end}...`]);
+      const reSelection: ConversationSelection = options.selection || {
+        mode: 'range',
+        range: { start: options.start, end: options.end }
+      };
+      const selectedIndices = selectConversationIndices(conversations.map(summarizeConversation), reSelection);
+      setProcessingSteps([`🔄 Re-evaluation: Analyzing ${describeSelection(reSelection)}...`]);
       
-      const parsedMessages: ParsedMessage[] = parseChatLogs(
-        data,
+      const parsedMessages: ParsedMessage[] = parseConversations(
+        conversations,
         {
-          startConversation: options.start,
-          endConversation: options.end
+          selection: reSelection,
+          excludeMessageIds: baselineMetadata?.message_ids_evaluated
         },
         (status) => {
           setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
         }
       );
       
-      setProcessingSteps(prev => [...prev, `✓ Parsed ${parsedMessages.length} messages from new conversations`]);
+      setProcessingSteps(prev => [
+        ...prev,
+        baselineMetadata
+          ? `✓ Parsed ${parsedMessages.length} messages not seen in the baseline`
+          : `✓ Parsed ${parsedMessages.length} messages from new conversations`
+      ]);
+      
+      if (redactionEnabled) {
+        const map = cloneRedactionMap(redactionMap);
+        const redactedCount = redactMessages(parsedMessages, map, { customTerms: parseRedactionTerms(redactionTerms) });
+        setRedactionMap(map);
+        setProcessingSteps(prev => [...prev, `🔒 Redacted ${redactedCount} personal details before sending`]);
+      }
+      
+      const rePastedStats = getPastedContentStats(parsedMessages);
+      if (rePastedStats.messagesWithPasted > 0) {
+        setProcessingSteps(prev => [
+          ...prev,
+          `✂️ Removed pasted content (code, quotes, drafts) from ${rePastedStats.messagesWithPasted} messages`
+        ]);
+      }
       
       // Step 2: Filter for writing-related content
       setProgress({ current: 20, total: 100, stage: 'Filtering for writing content...' });
@@ -465,130 +1305,189 @@ function App() {
         parsedMessages,
         (status) => {
           setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-        }
+        },
+        ruleSet
       );
+      const heuristicStats = getHeuristicStats(parsedMessages, ruleSet);
       
       const filterTest = filtered.slice(0, 20);
       
-      if (filtered.length === 0) {
+      if (filtered.length === 0 && !parsedMessages.some(msg => filterOverrides[msg.id] === 'include')) {
         throw new Error('No writing-related messages found in selected conversations');
       }
       
       setProcessingSteps(prev => [
         ...prev,
         `✓ Found ${filtered.length} writing messages`,
+        `  Dropped: ${heuristicStats.by_reason.too_short || 0} too short, ${heuristicStats.by_reason.non_writing_signals || 0} non-writing, ${heuristicStats.by_reason.no_signals || 0} without signals`,
         `📊 Processing ${filtered.length} messages for evaluation`
       ]);
       
+      // Overrides saved during the baseline review apply here too
+      const toConfirm = filtered.filter(msg => needsLLMConfirmation(msg, filterOverrides));
+      // Already confirmed against the budget in the re-evaluation dialog
+      const { estimate } = estimateFilteredRun(parsedMessages, true);
+      setProcessingSteps(prev => [...prev, `💰 Estimated cost: ~${formatCost(estimate.total.cost_usd)}`]);
+      api.startUsageTracking(parseBudget(budgetInput), estimate.total.cost_usd);
+      
+      const now = new Date().toISOString();
+      run = {
+        kind: 'reevaluation',
+        stage: 'relevance',
+        status: 'running',
+        messages: parsedMessages,
+        relevanceIds: toConfirm.map(msg => msg.id),
+        verdicts: {},
+        evaluationIds: [],
+        evaluations: [],
+        estimated_cost_usd: estimate.total.cost_usd,
+        selection: reSelection,
+        conversationsEvaluated: selectedIndices.length,
+        conversationsRange: { start: options.start, end: options.end },
+        heuristicStats,
+        practicePerformance: options.practicePerformance,
+        created_at: now,
+        updated_at: now
+      };
+      await runReEvaluation(run, startRunController());
+      
+    } catch (err: any) {
+      handleRunError(err, run);
+    }
+  };
+
+  // Steps 3-6 of a re-evaluation, from wherever its checkpoint stopped
+  const runReEvaluation = async (run: RunCheckpoint, signal: AbortSignal) => {
+    if (!api || !baselineAnalysis || !run.practicePerformance) return;
+    const practicePerformance = run.practicePerformance;
+    
+    if (run.stage === 'relevance') {
       // Step 3: LLM Confirmation
       setProgress({ current: 30, total: 100, stage: 'LLM confirmation...' });
       setProcessingSteps(prev => [...prev, '🤖 LLM confirmation filtering...']);
       
-      const confirmed = await api.filterRelevantMessagesLLM(
-        filtered.map(msg => ({ id: msg.id, text: msg.text })),
-        10,
-        (status) => {
-          setProgress(prev => ({ ...prev, stage: status }));
-          if (status.includes('⏸️')) {
-            setProcessingSteps(prev => [...prev, `  ${status}`]);
-          }
+      await confirmRemainingRelevance(run, signal, (status) => {
+        setProgress(prev => ({ ...prev, stage: status }));
+        if (status.includes('⏸️')) {
+          setProcessingSteps(prev => [...prev, `  ${status}`]);
         }
-      );
+      });
       
+      const confirmed = selectForEvaluation(run.messages, filterOverrides);
       if (confirmed.length === 0) {
         throw new Error('No messages confirmed as writing-related');
       }
       
+      const overrideCounts = countOverrides(run.messages, filterOverrides);
       setProcessingSteps(prev => [
         ...prev,
-        `✓ Confirmed ${confirmed.length} messages for evaluation`
+        `✓ Confirmed ${confirmed.length} messages for evaluation`,
+        ...(overrideCounts.include + overrideCounts.exclude > 0
+          ? [`  Applied saved overrides: ${overrideCounts.include} included, ${overrideCounts.exclude} excluded`]
+          : [])
       ]);
       
-      // Step 4: AI Evaluation
-      setProgress({ current: 50, total: 100, stage: 'Evaluating writing quality...' });
-      setProcessingSteps(prev => [...prev, '📝 Evaluating writing quality...']);
-      
-      const evaluations = await api.evaluateBatch(confirmed, (status) => {
-        setProgress(prev => ({ ...prev, stage: status }));
-      });
-      
-      setProcessingSteps(prev => [...prev, `✓ Evaluated ${evaluations.length} messages`]);
-      
-      // Step 5: Pattern Analysis
-      setProgress({ current: 70, total: 100, stage: 'Analyzing patterns...' });
-      setProcessingSteps(prev => [...prev, '📈 Analyzing patterns...']);
-      
-      const followup = await api.analyzePatterns(evaluations, (status) => {
+      run.stage = 'evaluation';
+      run.evaluationIds = confirmed.map(msg => msg.id);
+      run.evaluations = [];
+    }
+    
+    // Step 4: AI Evaluation
+    setProgress({ current: 50, total: 100, stage: 'Evaluating writing quality...' });
+    setProcessingSteps(prev => [...prev, '📝 Evaluating writing quality...']);
+    
+    const evaluations = await evaluateRemaining(run, signal, (status) => {
+      setProgress(prev => ({ ...prev, stage: status }));
+    });
+    
+    setProcessingSteps(prev => [
+      ...prev,
+      `✓ Evaluated ${evaluations.length} messages`,
+      ...describeUnevaluated(evaluations)
+    ]);
+    
+    // Step 5: Pattern Analysis
+    setProgress({ current: 70, total: 100, stage: 'Analyzing patterns...' });
+    setProcessingSteps(prev => [...prev, '📈 Analyzing patterns...']);
+    
+    const followup = await api.analyzePatterns(evaluations, (status) => {
+      setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
+    }, signal);
+    
+    // Add metadata to followup analysis
+    const followupWithMetadata: Analysis = {
+      ...followup,
+      metadata: {
+        evaluation_date: new Date().toISOString(),
+        conversations_range: run.conversationsRange,
+        total_conversations_evaluated: run.conversationsEvaluated,
+        selection: run.selection,
+        messages_evaluated: evaluations.length,
+        heuristic_stats: run.heuristicStats
+      }
+    };
+    
+    // Step 6: Generate comparison analysis
+    setProgress({ current: 85, total: 100, stage: 'Generating comparison analysis...' });
+    setProcessingSteps(prev => [...prev, '📊 Generating comparison with baseline...']);
+    
+    const comparisonResult = await api.generateComparisonAnalysis(
+      baselineAnalysis,
+      followupWithMetadata,
+      {
+        completed_sessions: practicePerformance.completed_sessions,
+        total_sessions: practicePerformance.total_sessions,
+        average_score: practicePerformance.average_score,
+        strengths: practicePerformance.strengths,
+        weaknesses: practicePerformance.weaknesses
+      },
+      (status) => {
         setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-      });
-      
-      // Add metadata to followup analysis
-      const followupWithMetadata: Analysis = {
-        ...followup,
-        metadata: {
-          evaluation_date: new Date().toISOString(),
-          conversations_range: {
-            start: options.start,
-            end: options.end
-          },
-          total_conversations_evaluated: options.end - options.start + 1,
-          messages_evaluated: evaluations.length
-        }
-      };
-      
-      setFollowupAnalysis(followupWithMetadata);
-      
-      // Step 6: Generate comparison analysis
-      setProgress({ current: 85, total: 100, stage: 'Generating comparison analysis...' });
-      setProcessingSteps(prev => [...prev, '📊 Generating comparison with baseline...']);
-      
-      const comparisonResult = await api.generateComparisonAnalysis(
-        baselineAnalysis,
-        followupWithMetadata,
-        {
-          completed_sessions: options.practicePerformance.completed_sessions,
-          total_sessions: options.practicePerformance.total_sessions,
-          average_score: options.practicePerformance.average_score,
-          strengths: options.practicePerformance.strengths,
-          weaknesses: options.practicePerformance.weaknesses
-        },
-        (status) => {
-          setProcessingSteps(prev => [...prev.slice(0, -1), `  ${status}`]);
-        }
-      );
-      
-      // Create full re-evaluation result
-      const fullResult: ReEvaluationResult = {
-        followupAnalysis: followupWithMetadata,
-        practicePerformance: options.practicePerformance,
-        ...comparisonResult
-      };
-      
-      setReEvaluationResult(fullResult);
-      
-      setProcessingSteps(prev => [
-        ...prev,
-        '✓ Comparison analysis complete',
-        `📊 Grammar change: ${comparisonResult.comparison.grammar.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.grammar.changePercent.toFixed(1)}%`,
-        `📊 Punctuation change: ${comparisonResult.comparison.punctuation.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.punctuation.changePercent.toFixed(1)}%`,
-        `📊 Tone change: ${comparisonResult.comparison.tone.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.tone.changePercent.toFixed(1)}%`,
-        `✓ Resolved ${comparisonResult.issueComparison.resolved.length} issues`,
-        '🎉 Re-evaluation complete!'
-      ]);
-      
-      setProgress({ current: 100, total: 100, stage: 'Complete!' });
-      markStepCompleted('reevaluation');
-      
-      setTimeout(() => {
-        setProcessing(false);
-        setCurrentView('dashboard');
-      }, 2000);
-      
-    } catch (err: any) {
-      setError(err.message);
+      },
+      signal
+    );
+    
+    // Usage covers the comparison summary too, so it is recorded last
+    const usage = api.stopUsageTracking();
+    runControllerRef.current = null;
+    const followupWithUsage: Analysis = {
+      ...followupWithMetadata,
+      metadata: { ...followupWithMetadata.metadata!, usage, stage_models: usage.stage_models }
+    };
+    setFollowupAnalysis(followupWithUsage);
+    
+    // Create full re-evaluation result
+    const fullResult: ReEvaluationResult = {
+      followupAnalysis: followupWithUsage,
+      practicePerformance,
+      ...comparisonResult
+    };
+    
+    setReEvaluationResult(fullResult);
+    addHistoryEntry(
+      'reevaluation',
+      `Re-evaluation of ${evaluations.length} messages (grammar ${comparisonResult.comparison.grammar.change >= 0 ? '+' : ''}${comparisonResult.comparison.grammar.changePercent.toFixed(1)}%)`
+    );
+    await discardCheckpoint();
+    
+    setProcessingSteps(prev => [
+      ...prev,
+      '✓ Comparison analysis complete',
+      `📊 Grammar change: ${comparisonResult.comparison.grammar.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.grammar.changePercent.toFixed(1)}%`,
+      `📊 Punctuation change: ${comparisonResult.comparison.punctuation.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.punctuation.changePercent.toFixed(1)}%`,
+      `📊 Tone change: ${comparisonResult.comparison.tone.changePercent >= 0 ? '+' : ''}${comparisonResult.comparison.tone.changePercent.toFixed(1)}%`,
+      `✓ Resolved ${comparisonResult.issueComparison.resolved.length} issues`,
+      describeUsage(usage),
+      '🎉 Re-evaluation complete!'
+    ]);
+    
+    setProgress({ current: 100, total: 100, stage: 'Complete!' });
+    markStepCompleted('reevaluation');
+    
+    setTimeout(() => {
       setProcessing(false);
-      setProcessingSteps(prev => [...prev, `❌ Error: ${err.message}`]);
-    }
+      setCurrentView('dashboard');
+    }, 2000);
   };
 
   const ScoreCard = ({ label, score, colorClass }: { label: string; score: number; colorClass: string }) => (
@@ -608,11 +1507,37 @@ function App() {
       {/* Header */}
       <div className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-6 py-4">
-          <div className="flex items-center space-x-3">
-            <FileText className="text-blue-600" size={32} />
-            <div>
-              <h1 className="text-2xl font-bold text-gray-800">Writing Improvement System</h1>
-              <p className="text-sm text-gray-600">AI-powered analysis with real Anthropic Claude API</p>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FileText className="text-blue-600" size={32} />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-800">Writing Improvement System</h1>
+                <p className="text-sm text-gray-600">AI-powered analysis with real Anthropic Claude API</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              {llmCalls.length > 0 && (
+                <button
+                  onClick={() => setShowRunDetails(true)}
+                  className="flex items-center space-x-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                  title="Every LLM call of the current run - stage, latency, tokens, retries and parse outcome"
+                >
+                  <Activity size={16} />
+                  <span>Run details ({llmCalls.length})</span>
+                </button>
+              )}
+              {profiles.length > 0 && (
+                <ProfileSwitcher
+                  profiles={profiles}
+                  activeProfileId={activeProfileId}
+                  onSwitch={handleSwitchProfile}
+                  onCreate={handleCreateProfile}
+                  onRename={handleRenameProfile}
+                  onDuplicate={handleDuplicateProfile}
+                  onDelete={handleDeleteProfile}
+                  disabled={processing}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -628,47 +1553,257 @@ function App() {
       )}
 
       <div className="max-w-4xl mx-auto px-6 py-8">
+        {/* Unfinished run left by a pause, an error or a closed tab */}
+        {checkpoint && !processing && !filterReview && (
+          <ResumeRunBanner
+            checkpoint={checkpoint}
+            canResume={!!api}
+            onResume={handleResumeRun}
+            onDiscard={handleDiscardRun}
+          />
+        )}
+
         {/* Setup View */}
         {currentView === 'setup' && (
           <div className="bg-white rounded-xl shadow-lg p-8">
             <h2 className="text-2xl font-bold mb-6">Get Started</h2>
+
+            {/* Restored progress banner */}
+            {restoredAt && baselineAnalysis && (
+              <div className="mb-6 bg-green-50 border-2 border-green-200 rounded-lg p-4">
+                <div className="flex items-start">
+                  <CheckCircle className="text-green-600 mr-3 flex-shrink-0 mt-0.5" size={20} />
+                  <div className="flex-1">
+                    <p className="font-semibold text-green-900">Saved progress restored</p>
+                    <p className="text-sm text-green-800 mb-3">
+                      Last saved {new Date(restoredAt).toLocaleString()}. Your baseline analysis
+                      {practiceSessions.length > 0 && `, ${practiceSessions.length} practice sessions`}
+                      {reEvaluationResult && ' and re-evaluation results'} are available.
+                      {!api && ' Validate your API key to continue practice or re-evaluation.'}
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        onClick={() => setCurrentView('evaluation')}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-colors"
+                      >
+                        View Evaluation Report →
+                      </button>
+                      <button
+                        onClick={handleStartOver}
+                        className="px-4 py-2 bg-white border border-red-300 text-red-600 hover:bg-red-50 text-sm font-medium rounded-lg transition-colors"
+                      >
+                        Start Over
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
             
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Anthropic API Key
+                Model Provider
               </label>
-              <div className="flex space-x-3">
+              <div className="flex space-x-2 mb-2">
+                {LLM_PROVIDERS.map(provider => (
+                  <button
+                    key={provider.kind}
+                    onClick={() => setProviderKind(provider.kind)}
+                    disabled={!!api}
+                    className={`px-4 py-2 text-sm rounded-lg border transition-colors ${
+                      providerKind === provider.kind
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                    }`}
+                  >
+                    {provider.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mb-4">
+                {LLM_PROVIDERS.find(provider => provider.kind === providerKind)?.description}
+              </p>
+
+              {providerKind === 'openai-compatible' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                  <input
+                    type="text"
+                    value={providerBaseUrl}
+                    onChange={(e) => setProviderBaseUrl(e.target.value)}
+                    placeholder={DEFAULT_OPENAI_BASE_URL}
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    disabled={!!api}
+                  />
+                  <input
+                    type="text"
+                    value={providerModel}
+                    onChange={(e) => setProviderModel(e.target.value)}
+                    placeholder={`Model (${DEFAULT_OPENAI_MODEL})`}
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    disabled={!!api}
+                  />
+                </div>
+              )}
+
+              {providerKind === 'anthropic-proxy' && (
                 <input
-                  type="password"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="sk-ant-api03-..."
-                  className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  type="text"
+                  value={providerBaseUrl}
+                  onChange={(e) => setProviderBaseUrl(e.target.value)}
+                  placeholder={DEFAULT_PROXY_URL}
+                  className="w-full px-4 py-3 mb-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                   disabled={!!api}
                 />
+              )}
+
+              {providerKind !== 'mock' && (
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {providerKind === 'anthropic'
+                    ? 'Anthropic API Key'
+                    : providerKind === 'anthropic-proxy' ? 'Proxy Token' : 'API Key (optional for local servers)'}
+                </label>
+              )}
+              <div className="flex space-x-3">
+                {providerKind !== 'mock' && (
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder={providerKind === 'anthropic' ? 'sk-ant-api03-...' : providerKind === 'anthropic-proxy' ? 'Token from the proxy config' : 'sk-...'}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    disabled={!!api}
+                  />
+                )}
                 {!api ? (
                   <button
                     onClick={validateApiKey}
-                    disabled={validatingKey || !apiKey}
+                    disabled={validatingKey || ((providerKind === 'anthropic' || providerKind === 'anthropic-proxy') && !apiKey)}
                     className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium rounded-lg"
                   >
-                    {validatingKey ? <Loader className="animate-spin" size={20} /> : 'Validate'}
+                    {validatingKey
+                      ? <Loader className="animate-spin" size={20} />
+                      : providerKind === 'mock' ? 'Start offline demo' : 'Validate'}
                   </button>
                 ) : (
                   <div className="flex items-center px-4 py-3 bg-green-50 border border-green-200 rounded-lg">
                     <CheckCircle className="text-green-600 mr-2" size={20} />
-                    <span className="text-green-700 font-medium">Valid</span>
+                    <span className="text-green-700 font-medium">Connected: {api.providerLabel} ({api.model})</span>
                   </div>
                 )}
               </div>
-              <p className="mt-2 text-sm text-gray-500">
-                Get your API key from <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">console.anthropic.com</a>
-              </p>
-              <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-                <p className="text-xs text-yellow-800">
-                  <strong>🔒 Security Note:</strong> Your API key is only stored in your browser and used for direct API calls. 
-                  Never share your API key or use it in production applications visible to untrusted users.
+              {activeProfile?.apiKeyRef && !api && providerKind !== 'mock' && (
+                <p className="mt-2 text-sm text-gray-600">
+                  {activeProfile.name} last used the key <span className="font-mono">{activeProfile.apiKeyRef}</span>
+                </p>
+              )}
+              {providerKind === 'anthropic' && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Get your API key from <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">console.anthropic.com</a>
                 </p>
+              )}
+              {providerKind === 'anthropic-proxy' && (
+                <div className="mt-2 bg-green-50 border border-green-200 rounded-lg p-3">
+                  <p className="text-xs text-green-800">
+                    <strong>🔒 Proxy mode:</strong> The Anthropic API key stays on the proxy server. This page only sends your proxy token,
+                    and the proxy enforces your daily request and token quotas.
+                  </p>
+                </div>
+              )}
+              {providerKind !== 'mock' && providerKind !== 'anthropic-proxy' && (
+                <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <p className="text-xs text-yellow-800">
+                    <strong>🔒 Security Note:</strong> Your API key is only stored in your browser and used for direct API calls. 
+                    Never share your API key or use it in production applications visible to untrusted users.
+                  </p>
+                </div>
+              )}
+              <div className="mt-3">
+                <button
+                  onClick={() => setShowModelSettings(!showModelSettings)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  {showModelSettings
+                    ? 'Hide model settings'
+                    : `Model settings per stage${Object.keys(stageSettings).length > 0 ? ` (${Object.keys(stageSettings).length} customized)` : ''}`}
+                </button>
+                {showModelSettings && (
+                  <div className="mt-3">
+                    <ModelSettingsPanel
+                      settings={stageSettings}
+                      onChange={setStageSettings}
+                      providerKind={providerKind}
+                      providerModel={api?.model || (providerKind === 'openai-compatible' ? providerModel || DEFAULT_OPENAI_MODEL : undefined)}
+                      disabled={processing}
+                    />
+                  </div>
+                )}
+              </div>
+              {providerKind !== 'mock' && (
+                <div className="mt-3 flex items-center space-x-3">
+                  <label htmlFor="rate-limit" className="text-sm font-medium text-gray-700">
+                    Max requests per minute
+                  </label>
+                  <input
+                    id="rate-limit"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={rateLimitInput}
+                    placeholder="Auto"
+                    onChange={(e) => setRateLimitInput(e.target.value)}
+                    className="w-24 px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <span className="text-xs text-gray-500">Auto follows the limits your account reports</span>
+                </div>
+              )}
+              <div className="mt-3 flex items-center space-x-3">
+                <label htmlFor="batch-concurrency" className="text-sm font-medium text-gray-700">
+                  Parallel batches
+                </label>
+                <select
+                  id="batch-concurrency"
+                  value={batchConcurrency}
+                  onChange={(e) => setBatchConcurrency(parseConcurrency(e.target.value))}
+                  disabled={processing}
+                  className="w-24 px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500">Batches sent at once - still paced by the rate limit</span>
+              </div>
+              <div className="mt-3 flex items-center space-x-3">
+                <label htmlFor="cache-ttl" className="text-sm font-medium text-gray-700">
+                  Reuse responses for
+                </label>
+                <select
+                  id="cache-ttl"
+                  value={cacheSettings.ttlDays}
+                  onChange={(e) => setCacheSettings({ ...cacheSettings, ttlDays: parseInt(e.target.value, 10) })}
+                  disabled={processing}
+                  className="w-24 px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {CACHE_TTL_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={cacheSettings.bypass}
+                    onChange={(e) => setCacheSettings({ ...cacheSettings, bypass: e.target.checked })}
+                    disabled={processing}
+                  />
+                  <span>Bypass cache</span>
+                </label>
+                <button
+                  onClick={handleClearCache}
+                  disabled={processing || !cachedResponses}
+                  className="px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Clear cache{cachedResponses !== null ? ` (${cachedResponses})` : ''}
+                </button>
               </div>
             </div>
 
@@ -677,25 +1812,41 @@ function App() {
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors">
                   <Upload className="mx-auto mb-4 text-gray-400" size={48} />
                   <h3 className="text-lg font-semibold mb-2">Upload Chat Logs</h3>
-                  <p className="text-gray-600 mb-4">OpenAI chat export (JSON format)</p>
+                  <p className="text-gray-600 mb-4">OpenAI or Claude.ai chat export (JSON), or your own documents (.txt, .md, .docx, .eml)</p>
                   
                   <label className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg cursor-pointer">
                     <Upload size={18} className="mr-2" />
-                    Choose File
+                    Choose Files
                     <input 
                       type="file" 
-                      accept=".json" 
+                      accept={SUPPORTED_UPLOAD_TYPES} 
+                      multiple
                       className="hidden" 
-                      onChange={(e) => e.target.files && handleFileUpload(e.target.files[0])} 
+                      onChange={(e) => e.target.files && e.target.files.length > 0 && handleFileUpload(Array.from(e.target.files))} 
                     />
                   </label>
                   
-                  {uploadedFile && (
+                  {uploadedFiles.length > 0 && (
                     <p className="mt-3 text-sm text-green-600 flex items-center justify-center">
                       <CheckCircle size={16} className="mr-2" />
-                      {uploadedFile.name}
+                      {uploadedFiles.length === 1 ? uploadedFiles[0].name : `${uploadedFiles.length} files selected`}
                     </p>
                   )}
+
+                  {importProgress && (
+                    <div className="mt-4 max-w-md mx-auto text-left">
+                      <div className="flex items-center text-sm text-blue-800 mb-2">
+                        <Loader className="animate-spin mr-2 flex-shrink-0" size={14} />
+                        <span className="truncate">{importProgress.status}</span>
+                      </div>
+                      <div className="w-full bg-blue-100 rounded-full h-2">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all"
+                          style={{ width: `${importProgress.total > 0 ? Math.round((importProgress.current / importProgress.total) * 100) : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* File Metadata Display */}
@@ -708,7 +1859,9 @@ function App() {
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                       <div className="bg-blue-50 rounded-lg p-4">
-                        <p className="text-sm text-blue-600 font-medium">Total Conversations</p>
+                        <p className="text-sm text-blue-600 font-medium">
+                          {fileMetadata.format === 'documents' ? 'Total Documents' : 'Total Conversations'}
+                        </p>
                         <p className="text-3xl font-bold text-blue-900">{fileMetadata.totalConversations}</p>
                       </div>
                       <div className="bg-green-50 rounded-lg p-4">
@@ -724,45 +1877,102 @@ function App() {
                       </div>
                     </div>
 
-                    {/* Conversation Range Selector */}
+                    {/* Conversation Selector */}
                     <div className="border-t pt-4">
                       <label className="block text-sm font-medium text-gray-700 mb-3">
-                        Select Conversation Range to Analyze
+                        Select Conversations to Analyze
                       </label>
-                      <div className="grid grid-cols-2 gap-4 mb-4">
-                        <div>
-                          <label className="block text-xs text-gray-600 mb-1">Start Conversation</label>
+                      <ConversationSelector
+                        metadata={fileMetadata}
+                        selection={selection}
+                        onChange={setSelection}
+                        disabled={processing}
+                      />
+
+                      {fileMetadata.format === 'openai' && (
+                        <label className="mt-3 flex items-center text-sm text-gray-700 cursor-pointer">
                           <input
-                            type="number"
-                            min={1}
-                            max={fileMetadata.totalConversations}
-                            value={conversationRange.start}
-                            onChange={(e) => setConversationRange(prev => ({
-                              ...prev,
-                              start: Math.max(1, Math.min(parseInt(e.target.value) || 1, prev.end))
-                            }))}
-                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            type="checkbox"
+                            checked={includeRevisions}
+                            onChange={(e) => setIncludeRevisions(e.target.checked)}
+                            className="mr-2"
                           />
-                        </div>
-                        <div>
-                          <label className="block text-xs text-gray-600 mb-1">End Conversation</label>
+                          Include earlier edits of each message as revision history (measures self-correction)
+                        </label>
+                      )}
+
+                      {/* Privacy */}
+                      <div className="mt-4 border border-gray-200 rounded-lg p-4">
+                        <label className="flex items-center text-sm font-medium text-gray-700 cursor-pointer">
                           <input
-                            type="number"
-                            min={conversationRange.start}
-                            max={fileMetadata.totalConversations}
-                            value={conversationRange.end}
-                            onChange={(e) => setConversationRange(prev => ({
-                              ...prev,
-                              end: Math.max(prev.start, Math.min(parseInt(e.target.value) || prev.end, fileMetadata.totalConversations))
-                            }))}
-                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            type="checkbox"
+                            checked={redactionEnabled}
+                            onChange={(e) => setRedactionEnabled(e.target.checked)}
+                            className="mr-2"
                           />
-                        </div>
+                          Redact personal information (emails, phone numbers, addresses, names, API keys) before sending
+                        </label>
+                        {redactionEnabled && (
+                          <>
+                            <input
+                              type="text"
+                              value={redactionTerms}
+                              placeholder="Other names or terms to redact, comma-separated"
+                              onChange={(e) => setRedactionTerms(e.target.value)}
+                              className="mt-2 w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                            />
+                            <button
+                              onClick={handlePreviewRedaction}
+                              disabled={processing}
+                              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              Preview redactions
+                            </button>
+                            {redactionPreview && (
+                              <RedactionPreview
+                                messages={redactionPreview.messages}
+                                map={redactionPreview.map}
+                                onClose={() => setRedactionPreview(null)}
+                              />
+                            )}
+                          </>
+                        )}
                       </div>
-                      
-                      <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
-                        <strong>Selected:</strong> {conversationRange.end - conversationRange.start + 1} conversations 
-                        (#{conversationRange.start} to #{conversationRange.end})
+
+                      {/* Budget */}
+                      <div className="mt-4 flex items-center space-x-3">
+                        <label htmlFor="budget" className="text-sm font-medium text-gray-700">
+                          Budget cap per run (USD)
+                        </label>
+                        <input
+                          id="budget"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budgetInput}
+                          placeholder="No cap"
+                          onChange={(e) => setBudgetInput(e.target.value)}
+                          className="w-28 px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                        />
+                        <span className="text-xs text-gray-500">The run stops before any request that would go over</span>
+                      </div>
+
+                      <div className="mt-3">
+                        <button
+                          onClick={() => setShowRuleEditor(!showRuleEditor)}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {showRuleEditor ? 'Hide filter rules' : `Customize filter rules (${ruleSet.name})`}
+                        </button>
+                        {showRuleEditor && (
+                          <div className="mt-3">
+                            <HeuristicRuleEditor
+                              ruleSet={ruleSet}
+                              onChange={setRuleSet}
+                              disabled={processing}
+                            />
+                          </div>
+                        )}
                       </div>
 
                       <button
@@ -780,13 +1990,18 @@ function App() {
 
             {processing && (
               <div className="mt-8 bg-blue-50 rounded-lg p-6 border border-blue-200">
-                <div className="flex justify-between mb-4">
+                <div className="flex justify-between items-center mb-4">
                   <span className="font-medium text-blue-900">{progress.stage}</span>
-                  <span className="text-blue-700 font-semibold">{progress.current}%</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-blue-700 font-semibold">{progress.current}%</span>
+                    <RunControls onPause={handlePauseRun} onCancel={handleCancelRun} />
+                  </div>
                 </div>
                 <div className="w-full bg-blue-200 rounded-full h-3 mb-4">
                   <div className="bg-blue-600 h-3 rounded-full transition-all" style={{ width: `${progress.current}%` }} />
                 </div>
+                <RateLimitStatus state={rateLimiterState} />
+                <BatchProgress states={batchStates} />
                 
                 {/* Processing Steps Log */}
                 <div className="bg-white rounded-lg p-4 max-h-64 overflow-y-auto border border-blue-200">
@@ -814,6 +2029,25 @@ function App() {
               </div>
             )}
 
+            {filterReview && !processing && (
+              <FilterReview
+                messages={filterReview.messages}
+                overrides={filterOverrides}
+                onOverridesChange={setFilterOverrides}
+                onConfirm={handleConfirmReview}
+                onCancel={() => {
+                  api?.stopUsageTracking();
+                  setFilterReview(null);
+                  setProcessingSteps([]);
+                  discardCheckpoint();
+                }}
+                spentUsd={api?.getUsage().cost_usd || 0}
+                budgetUsd={parseBudget(budgetInput)}
+                model={api?.model}
+                stageModels={api?.getStageModels()}
+              />
+            )}
+
             {error && (
               <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start">
                 <AlertCircle className="text-red-600 mr-3" size={20} />
@@ -860,8 +2094,32 @@ function App() {
               </div>
               <div className="bg-white rounded-lg p-4 border-l-4 border-blue-500">
                 <p className="text-sm font-semibold text-gray-700 mb-1">Overall Assessment:</p>
-                <p className="text-gray-800">{baselineAnalysis.summary.overall_assessment}</p>
+                <p className="text-gray-800">{restoreText(baselineAnalysis.summary.overall_assessment, redactionMap)}</p>
               </div>
+              {baselineAnalysis.metadata?.usage && (
+                <p className="mt-3 text-xs text-gray-600">
+                  💰 API usage: {baselineAnalysis.metadata.usage.requests} requests ·{' '}
+                  {(baselineAnalysis.metadata.usage.input_tokens + baselineAnalysis.metadata.usage.output_tokens).toLocaleString()} tokens ·{' '}
+                  {formatCost(baselineAnalysis.metadata.usage.cost_usd)}
+                  {baselineAnalysis.metadata.usage.estimated_cost_usd !== undefined &&
+                    ` (estimated ${formatCost(baselineAnalysis.metadata.usage.estimated_cost_usd)})`}
+                  {!!baselineAnalysis.metadata.usage.cache_hits &&
+                    ` · ${baselineAnalysis.metadata.usage.cache_hits} cached responses (saved ~${formatCost(baselineAnalysis.metadata.usage.cache_saved_usd || 0)})`}
+                </p>
+              )}
+              {baselineAnalysis.summary.unevaluated_messages !== undefined && (
+                <p className="mt-1 text-xs text-yellow-800">
+                  ⚠️ {baselineAnalysis.summary.unevaluated_messages} messages could not be evaluated after several retries and are not included in these scores.
+                </p>
+              )}
+              {baselineAnalysis.metadata?.stage_models && (
+                <p className="mt-1 text-xs text-gray-600">
+                  🤖 Models:{' '}
+                  {Object.entries(baselineAnalysis.metadata.stage_models)
+                    .map(([stage, model]) => `${STAGE_LABELS[stage as PipelineStage]}: ${getModelLabel(model)}`)
+                    .join(' · ')}
+                </p>
+              )}
             </div>
 
             {/* Score Cards */}
@@ -910,7 +2168,7 @@ function App() {
                         <div key={idx} className="bg-white rounded-lg p-4 border-l-4 border-gray-300 hover:border-gray-400 transition-colors">
                           <div className="flex justify-between items-start mb-2">
                             <span className="font-bold text-gray-800">
-                              {idx + 1}. {issue.issue}
+                              {idx + 1}. {restoreText(issue.issue, redactionMap)}
                             </span>
                             <span className={`text-xs px-2 py-1 rounded font-semibold ${
                               issue.severity === 'high' ? 'bg-red-100 text-red-700' :
@@ -926,7 +2184,7 @@ function App() {
                           </div>
                           <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
                             <p className="text-sm text-gray-700">
-                              <span className="font-semibold text-gray-800">💡 Recommendation:</span> {issue.recommendation}
+                              <span className="font-semibold text-gray-800">💡 Recommendation:</span> {restoreText(issue.recommendation, redactionMap)}
                             </p>
                           </div>
                         </div>
@@ -937,6 +2195,59 @@ function App() {
               );
             })}
 
+            {/* Evaluated Messages - originals restored from the local redaction map */}
+            {baselineEvaluations && baselineEvaluations.length > 0 && (
+              <div className="mb-6 border-2 border-gray-200 rounded-lg p-6">
+                <button
+                  onClick={() => setShowEvaluatedMessages(!showEvaluatedMessages)}
+                  className="flex items-center text-lg font-bold text-gray-800"
+                >
+                  <ChevronRight
+                    size={20}
+                    className={`mr-2 transition-transform ${showEvaluatedMessages ? 'rotate-90' : ''}`}
+                  />
+                  Evaluated Messages ({baselineEvaluations.length})
+                </button>
+                {showEvaluatedMessages && (
+                  <div className="mt-4 space-y-3 max-h-96 overflow-y-auto">
+                    {baselineEvaluations.map(result => restoreEvaluation(result, redactionMap)).map(result => (
+                      <div key={result.message_id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                        <AnnotatedText text={result.text} annotations={result.annotations} className="text-sm text-gray-800 mb-2" />
+                        {result.unevaluated ? (
+                          <p className="text-xs text-yellow-800 mb-1">
+                            Not evaluated{result.evaluation_error && `: ${result.evaluation_error}`}
+                          </p>
+                        ) : (
+                          <p className="text-xs text-gray-600 mb-1">
+                            Grammar {result.grammar_score}/5 · Punctuation {result.punctuation_score}/5 · Tone {result.tone_score}/5
+                          </p>
+                        )}
+                        {[...result.grammar_issues, ...result.punctuation_issues, ...result.tone_issues].length > 0 && (
+                          <ul className="text-xs text-gray-700 list-disc list-inside">
+                            {[...result.grammar_issues, ...result.punctuation_issues, ...result.tone_issues].map((issue, idx) => (
+                              <li key={idx}>{issue}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {result.annotations && result.annotations.length > 0 && (
+                          <ul className="mt-1 text-xs text-gray-700 space-y-0.5">
+                            {result.annotations.map((annotation, idx) => (
+                              <li key={idx}>
+                                <span className="line-through text-red-700">{annotation.quote}</span>
+                                {' → '}
+                                <span className="text-green-700">{annotation.suggestion || '(delete)'}</span>
+                                <span className="text-gray-500"> - {annotation.issue}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex gap-4">
               <button
                 onClick={generatePracticeSessions}
@@ -959,13 +2270,17 @@ function App() {
             {/* Progress display for generating sessions */}
             {processing && processingSteps.length > 0 && (
               <div className="mt-6 bg-blue-50 rounded-lg p-6 border border-blue-200">
-                <div className="flex justify-between mb-4">
+                <div className="flex justify-between items-center mb-4">
                   <span className="font-medium text-blue-900">{progress.stage}</span>
-                  <span className="text-blue-700 font-semibold">{progress.current}%</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-blue-700 font-semibold">{progress.current}%</span>
+                    <RunControls onCancel={handleCancelRun} />
+                  </div>
                 </div>
                 <div className="w-full bg-blue-200 rounded-full h-3 mb-4">
                   <div className="bg-blue-600 h-3 rounded-full transition-all" style={{ width: `${progress.current}%` }} />
                 </div>
+                <RateLimitStatus state={rateLimiterState} />
                 
                 <div className="bg-white rounded-lg p-4 max-h-64 overflow-y-auto border border-blue-200">
                   <h4 className="font-semibold text-gray-800 mb-2 flex items-center">
@@ -1015,6 +2330,7 @@ function App() {
             baselineAnalysis={baselineAnalysis}
             followupAnalysis={followupAnalysis || undefined}
             reEvaluationResult={reEvaluationResult || undefined}
+            redactionMap={redactionMap}
             onStartReEvaluation={() => {
               setCurrentView('reevaluation');
             }}
@@ -1028,8 +2344,15 @@ function App() {
         {currentView === 'reevaluation' && baselineAnalysis && api && (
           <ReEvaluationComponent
             baselineAnalysis={baselineAnalysis}
+            baselineMessageIds={baselineMetadata?.message_ids_evaluated}
             practiceSessions={practiceSessions}
             onRunReEvaluation={handleReEvaluation}
+            onEstimateCost={estimateReEvaluationCost}
+            budgetUsd={parseBudget(budgetInput)}
+            rateLimiterState={rateLimiterState}
+            batchStates={batchStates}
+            onPauseRun={handlePauseRun}
+            onCancelRun={handleCancelRun}
             processing={processing}
             progress={progress}
             processingSteps={processingSteps}
@@ -1044,6 +2367,10 @@ function App() {
           </div>
         )}
       </div>
+
+      {showRunDetails && (
+        <RunDetailsDrawer events={llmCalls} onClose={() => setShowRunDetails(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,38 @@
+import React from 'react';
+import { IssueAnnotation, IssueCategory } from '../types';
+import { segmentAnnotatedText } from '../utils/annotations';
+
+interface Props {
+  text: string;
+  annotations?: IssueAnnotation[];
+  className?: string;
+}
+
+const CATEGORY_STYLES: { [category in IssueCategory]: string } = {
+  grammar: 'bg-red-100 border-b-2 border-red-400',
+  punctuation: 'bg-yellow-100 border-b-2 border-yellow-500',
+  tone: 'bg-purple-100 border-b-2 border-purple-400'
+};
+
+const describe = (annotation: IssueAnnotation) =>
+  `${annotation.category}: ${annotation.issue} - ${annotation.suggestion ? `"${annotation.suggestion}"` : 'delete'}`;
+
+const AnnotatedText: React.FC<Props> = ({ text, annotations = [], className = '' }) => (
+  <p className={`whitespace-pre-wrap ${className}`}>
+    {segmentAnnotatedText(text, annotations).map(segment =>
+      segment.annotations.length === 0 ? (
+        <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+      ) : (
+        <mark
+          key={segment.start}
+          title={segment.annotations.map(describe).join('\n')}
+          className={`text-inherit rounded-sm cursor-help ${CATEGORY_STYLES[segment.annotations[0].category]}`}
+        >
+          {segment.text}
+        </mark>
+      )
+    )}
+  </p>
+);
+
+export default AnnotatedText;
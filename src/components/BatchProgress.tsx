@@ -0,0 +1,46 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { BatchState } from '../types';
+
+interface Props {
+  states: BatchState[];
+}
+
+const STATE_STYLES: { [state in BatchState]: string } = {
+  queued: 'bg-blue-100 border-blue-200',
+  running: 'bg-blue-400 border-blue-500 animate-pulse',
+  done: 'bg-green-500 border-green-600',
+  failed: 'bg-red-500 border-red-600'
+};
+
+const BatchProgress: React.FC<Props> = ({ states }) => {
+  if (states.length === 0) return null;
+
+  const count = (state: BatchState) => states.filter(s => s === state).length;
+  const finished = count('done') + count('failed');
+  const parts = [
+    `${finished}/${states.length} batches finished`,
+    ...(count('running') > 0 ? [`${count('running')} running`] : []),
+    ...(count('failed') > 0 ? [`${count('failed')} failed`] : [])
+  ];
+
+  return (
+    <div className="mb-4">
+      <p className="text-xs text-blue-800 flex items-center mb-1">
+        <Layers size={14} className="mr-1 flex-shrink-0" />
+        {parts.join(' · ')}
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {states.map((state, idx) => (
+          <span
+            key={idx}
+            title={`Batch ${idx + 1}: ${state}`}
+            className={`w-3 h-3 rounded-sm border ${STATE_STYLES[state]}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchProgress;
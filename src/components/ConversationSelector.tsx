@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Hash, Calendar, Type, ListChecks, AlertCircle } from 'lucide-react';
+import { ChatLogMetadata, ConversationSelection, ConversationSelectionMode } from '../types';
+import { selectConversationIndices, describeSelection } from '../utils/conversationSelection';
+
+interface Props {
+  metadata: ChatLogMetadata;
+  selection: ConversationSelection;
+  onChange: (selection: ConversationSelection) => void;
+  disabled?: boolean;
+}
+
+const MODES: { mode: ConversationSelectionMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'range', label: 'Position', icon: <Hash size={14} /> },
+  { mode: 'dateRange', label: 'Dates', icon: <Calendar size={14} /> },
+  { mode: 'title', label: 'Title', icon: <Type size={14} /> },
+  { mode: 'manual', label: 'Pick', icon: <ListChecks size={14} /> }
+];
+
+// Hand-pick list is capped so huge exports stay responsive - use the filter to narrow
+const MAX_LISTED_CONVERSATIONS = 200;
+
+const toDateInput = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : '');
+
+const ConversationSelector: React.FC<Props> = ({ metadata, selection, onChange, disabled }) => {
+  const [listFilter, setListFilter] = useState('');
+
+  const total = metadata.totalConversations;
+  const range = selection.range || { start: 1, end: total };
+
+  // Count matches for the preview; an invalid title regex is reported inline
+  let selectedCount = 0;
+  let selectionError = '';
+  try {
+    selectedCount = selectConversationIndices(metadata.conversations, selection).length;
+  } catch (err: any) {
+    selectionError = err.message;
+  }
+
+  const switchMode = (mode: ConversationSelectionMode) => {
+    if (mode === selection.mode) return;
+    switch (mode) {
+      case 'range':
+        onChange({ mode, range: { start: 1, end: total } });
+        break;
+      case 'dateRange':
+        onChange({
+          mode,
+          dateRange: {
+            from: toDateInput(metadata.dateRange.earliest),
+            to: toDateInput(metadata.dateRange.latest)
+          }
+        });
+        break;
+      case 'title':
+        onChange({ mode, titlePattern: '' });
+        break;
+      case 'manual':
+        onChange({ mode, conversationIds: [] });
+        break;
+    }
+  };
+
+  const pickedIds = new Set(selection.conversationIds || []);
+  const togglePicked = (id: string) => {
+    const next = new Set(pickedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    onChange({ ...selection, conversationIds: Array.from(next) });
+  };
+
+  const listed = metadata.conversations
+    .map((conversation, idx) => ({ ...conversation, position: idx + 1 }))
+    .filter(c => !listFilter || c.title.toLowerCase().includes(listFilter.toLowerCase()));
+
+  return (
+    <div>
+      <div className="flex space-x-2 mb-4">
+        {MODES.map(({ mode, label, icon }) => (
+          <button
+            key={mode}
+            onClick={() => switchMode(mode)}
+            disabled={disabled}
+            className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+              selection.mode === mode
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {icon}
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {selection.mode === 'range' && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Start Conversation</label>
+            <input
+              type="number"
+              min={1}
+              max={total}
+              value={range.start}
+              disabled={disabled}
+              onChange={(e) => onChange({
+                ...selection,
+                range: { ...range, start: Math.max(1, Math.min(parseInt(e.target.value) || 1, range.end)) }
+              })}
+              className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">End Conversation</label>
+            <input
+              type="number"
+              min={range.start}
+              max={total}
+              value={range.end}
+              disabled={disabled}
+              onChange={(e) => onChange({
+                ...selection,
+                range: { ...range, end: Math.max(range.start, Math.min(parseInt(e.target.value) || range.end, total)) }
+              })}
+              className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      {selection.mode === 'dateRange' && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">From</label>
+            <input
+              type="date"
+              value={selection.dateRange?.from || ''}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...selection, dateRange: { ...selection.dateRange, from: e.target.value } })}
+              className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">To</label>
+            <input
+              type="date"
+              value={selection.dateRange?.to || ''}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...selection, dateRange: { ...selection.dateRange, to: e.target.value } })}
+              className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          <p className="col-span-2 text-xs text-gray-500">
+            Only messages sent within these dates are analyzed.
+          </p>
+        </div>
+      )}
+
+      {selection.mode === 'title' && (
+        <div className="mb-4">
+          <label className="block text-xs text-gray-600 mb-1">Title pattern (regular expression, case-insensitive)</label>
+          <input
+            type="text"
+            value={selection.titlePattern || ''}
+            disabled={disabled}
+            placeholder="e.g. email|cover letter"
+            onChange={(e) => onChange({ ...selection, titlePattern: e.target.value })}
+            className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </div>
+      )}
+
+      {selection.mode === 'manual' && (
+        <div className="mb-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <input
+              type="text"
+              value={listFilter}
+              placeholder="Filter titles..."
+              onChange={(e) => setListFilter(e.target.value)}
+              className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button
+              onClick={() => onChange({ ...selection, conversationIds: [] })}
+              disabled={disabled || pickedIds.size === 0}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {listed.slice(0, MAX_LISTED_CONVERSATIONS).map(conversation => (
+              <label
+                key={`${conversation.id}_${conversation.position}`}
+                className="flex items-center px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={pickedIds.has(conversation.id)}
+                  disabled={disabled}
+                  onChange={() => togglePicked(conversation.id)}
+                  className="mr-3"
+                />
+                <span className="text-gray-400 w-12 flex-shrink-0">#{conversation.position}</span>
+                <span className="flex-1 truncate text-gray-800">{conversation.title}</span>
+                <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                  {conversation.earliestTimestamp
+                    ? new Date(conversation.earliestTimestamp * 1000).toLocaleDateString()
+                    : ''}
+                  {' · '}{conversation.messageCount} msgs
+                </span>
+              </label>
+            ))}
+            {listed.length === 0 && (
+              <p className="px-3 py-4 text-sm text-gray-500 text-center">No conversations match this filter</p>
+            )}
+          </div>
+          {listed.length > MAX_LISTED_CONVERSATIONS && (
+            <p className="mt-1 text-xs text-gray-500">
+              Showing {MAX_LISTED_CONVERSATIONS} of {listed.length} - filter to find more
+            </p>
+          )}
+        </div>
+      )}
+
+      {selectionError ? (
+        <div className="bg-red-50 rounded-lg p-3 text-sm text-red-700 flex items-center">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          {selectionError}
+        </div>
+      ) : (
+        <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
+          <strong>Selected:</strong> {selectedCount} of {total} conversations ({describeSelection(selection)})
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationSelector;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, Search } from 'lucide-react';
+import { ParsedMessage, FilterOverrides, FilterOverride, StageModels } from '../types';
+import { isSelectedForEvaluation, countOverrides } from '../utils/filterOverrides';
+import { getLanguageName } from '../utils/languageDetection';
+import { estimateRunCost, formatCost } from '../utils/costEstimator';
+
+interface Props {
+  messages: ParsedMessage[];
+  overrides: FilterOverrides;
+  onOverridesChange: (overrides: FilterOverrides) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  spentUsd?: number;         // Stage 2 cost already spent in this run
+  budgetUsd?: number | null; // Per-run cap, if any
+  model?: string;            // Priced for the connected model
+  stageModels?: StageModels; // ...and any per-stage overrides
+}
+
+type ReviewFilter = 'all' | 'included' | 'excluded' | 'overridden';
+
+const FILTERS: { filter: ReviewFilter; label: string }[] = [
+  { filter: 'all', label: 'All' },
+  { filter: 'included', label: 'Included' },
+  { filter: 'excluded', label: 'Excluded' },
+  { filter: 'overridden', label: 'Overridden' }
+];
+
+const HEURISTIC_LABELS: { [reason: string]: string } = {
+  too_short: 'Too short',
+  writing_signals: 'Writing signals',
+  non_writing_signals: 'Non-writing signals',
+  looks_like_prose: 'Looks like prose',
+  no_signals: 'No signals'
+};
+
+const LLM_LABELS: { [verdict: string]: string } = {
+  relevant: 'LLM: relevant',
+  not_relevant: 'LLM: not relevant',
+  unknown: 'LLM: unclassified (kept)'
+};
+
+// Long reviews are capped so the list stays responsive - use search to narrow
+const MAX_LISTED_MESSAGES = 200;
+
+const FilterReview: React.FC<Props> = ({
+  messages,
+  overrides,
+  onOverridesChange,
+  onConfirm,
+  onCancel,
+  spentUsd = 0,
+  budgetUsd = null,
+  model,
+  stageModels
+}) => {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [search, setSearch] = useState('');
+
+  const selectedCount = messages.filter(m => isSelectedForEvaluation(m, overrides)).length;
+  const overrideCounts = countOverrides(messages, overrides);
+  const estimate = estimateRunCost({
+    evaluationTexts: messages.filter(m => isSelectedForEvaluation(m, overrides)).map(m => m.text)
+  }, model, stageModels);
+  const overBudget = budgetUsd !== null && spentUsd + estimate.total.cost_usd > budgetUsd;
+
+  const setOverride = (id: string, override: FilterOverride | null) => {
+    const next = { ...overrides };
+    if (override) {
+      next[id] = override;
+    } else {
+      delete next[id];
+    }
+    onOverridesChange(next);
+  };
+
+  const listed = messages.filter(message => {
+    if (search && !message.text.toLowerCase().includes(search.toLowerCase())) return false;
+    switch (filter) {
+      case 'included':
+        return isSelectedForEvaluation(message, overrides);
+      case 'excluded':
+        return !isSelectedForEvaluation(message, overrides);
+      case 'overridden':
+        return !!overrides[message.id];
+      default:
+        return true;
+    }
+  });
+
+  return (
+    <div className="mt-8 bg-white border-2 border-blue-200 rounded-lg p-6">
+      <h3 className="text-lg font-bold text-gray-800 mb-1">Review Filtered Messages</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Check what the filters kept before evaluation. Force-include or exclude any message -
+        your choices are remembered for this learner in later runs.
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-xs text-green-600 font-medium">Will be evaluated</p>
+          <p className="text-2xl font-bold text-green-900">{selectedCount}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-600 font-medium">Excluded</p>
+          <p className="text-2xl font-bold text-gray-900">{messages.length - selectedCount}</p>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3">
+          <p className="text-xs text-purple-600 font-medium">Overrides</p>
+          <p className="text-2xl font-bold text-purple-900">
+            {overrideCounts.include + overrideCounts.exclude}
+          </p>
+          <p className="text-xs text-purple-700">
+            {overrideCounts.include} included · {overrideCounts.exclude} excluded
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        {FILTERS.map(({ filter: value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+              filter === value
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <div className="flex-1 flex items-center border-2 border-gray-300 rounded-lg px-2">
+          <Search size={14} className="text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            placeholder="Search messages..."
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 px-2 py-1.5 text-sm outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {listed.slice(0, MAX_LISTED_MESSAGES).map(message => {
+          const selected = isSelectedForEvaluation(message, overrides);
+          const override = overrides[message.id];
+          return (
+            <div key={message.id} className={`p-3 ${selected ? '' : 'bg-gray-50'}`}>
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0 mr-3">
+                  <p className="text-xs text-gray-500 truncate mb-1">
+                    {message.conversationTitle} · {new Date(message.timestamp * 1000).toLocaleDateString()}
+                  </p>
+                  <p className={`text-sm ${selected ? 'text-gray-800' : 'text-gray-500'}`}>
+                    {message.text.length > 300 ? `${message.text.substring(0, 300)}...` : message.text}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {message.language && message.language !== 'und' && (
+                      <span className="px-2 py-0.5 text-xs rounded bg-blue-100 text-blue-800">
+                        {getLanguageName(message.language)}
+                      </span>
+                    )}
+                    {message.heuristic && (
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded ${
+                          message.heuristic.kept ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                        title={message.heuristic.matchedTerms.join(', ')}
+                      >
+                        Stage 1: {HEURISTIC_LABELS[message.heuristic.reason]} ({message.heuristic.score})
+                      </span>
+                    )}
+                    {message.llmVerdict && (
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded ${
+                          message.llmVerdict === 'not_relevant' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                        }`}
+                      >
+                        {LLM_LABELS[message.llmVerdict]}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col space-y-1 flex-shrink-0">
+                  <button
+                    onClick={() => setOverride(message.id, override === 'include' ? null : 'include')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-xs rounded border ${
+                      override === 'include'
+                        ? 'bg-green-600 border-green-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-green-50'
+                    }`}
+                  >
+                    <CheckCircle size={12} />
+                    <span>Include</span>
+                  </button>
+                  <button
+                    onClick={() => setOverride(message.id, override === 'exclude' ? null : 'exclude')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-xs rounded border ${
+                      override === 'exclude'
+                        ? 'bg-red-600 border-red-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-red-50'
+                    }`}
+                  >
+                    <XCircle size={12} />
+                    <span>Exclude</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {listed.length === 0 && (
+          <p className="px-3 py-4 text-sm text-gray-500 text-center">No messages match this view</p>
+        )}
+      </div>
+      {listed.length > MAX_LISTED_MESSAGES && (
+        <p className="mt-1 text-xs text-gray-500">
+          Showing {MAX_LISTED_MESSAGES} of {listed.length} - search to find more
+        </p>
+      )}
+
+      <p className={`mt-4 text-sm ${overBudget ? 'text-red-700' : 'text-gray-600'}`}>
+        💰 Evaluation and pattern analysis: ~{formatCost(estimate.total.cost_usd)} ({estimate.total.requests} requests)
+        {spentUsd > 0 && ` · ${formatCost(spentUsd)} spent on Stage 2`}
+        {budgetUsd !== null && ` · budget ${formatCost(budgetUsd)}`}
+        {overBudget && ' - the run will stop when the budget is spent'}
+      </p>
+
+      <div className="flex space-x-3 mt-3">
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 border-2 border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={selectedCount === 0}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 rounded-lg transition-colors"
+        >
+          Evaluate {selectedCount} messages →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterReview;
@@ -0,0 +1,259 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Download, Upload, RotateCcw } from 'lucide-react';
+import { HeuristicRule, HeuristicRuleSet } from '../types';
+import { DEFAULT_RULE_SET, compileRuleSet, evaluateHeuristic, parseRuleSet, exportRuleSet } from '../utils/heuristicRules';
+
+interface Props {
+  ruleSet: HeuristicRuleSet;
+  onChange: (ruleSet: HeuristicRuleSet) => void;
+  disabled?: boolean;
+}
+
+const REASON_LABELS: { [reason: string]: string } = {
+  too_short: 'Dropped - too short',
+  writing_signals: 'Kept - writing signals',
+  non_writing_signals: 'Dropped - non-writing signals',
+  looks_like_prose: 'Kept - looks like prose',
+  no_signals: 'Dropped - no signals'
+};
+
+const HeuristicRuleEditor: React.FC<Props> = ({ ruleSet, onChange, disabled }) => {
+  const [sampleText, setSampleText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRule = (idx: number, changes: Partial<HeuristicRule>) => {
+    onChange({
+      ...ruleSet,
+      rules: ruleSet.rules.map((rule, i) => (i === idx ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  const addRule = () => {
+    onChange({
+      ...ruleSet,
+      rules: [
+        ...ruleSet.rules,
+        { id: `custom_${Date.now()}`, label: 'New rule', terms: [], weight: 1, enabled: true }
+      ]
+    });
+  };
+
+  const removeRule = (idx: number) => {
+    onChange({ ...ruleSet, rules: ruleSet.rules.filter((_, i) => i !== idx) });
+  };
+
+  const resetRules = () => {
+    if (window.confirm('Replace the current filter rules with the defaults?')) {
+      onChange(DEFAULT_RULE_SET);
+    }
+  };
+
+  const downloadRules = () => {
+    const blob = new Blob([exportRuleSet(ruleSet)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `filter_rules_${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importRules = async (file: File) => {
+    try {
+      const imported = parseRuleSet(JSON.parse(await file.text()));
+      onChange(imported);
+      alert(`Imported "${imported.name}" with ${imported.rules.length} rules`);
+    } catch (err: any) {
+      alert(`Could not import rules: ${err.message}`);
+    }
+  };
+
+  const setThreshold = (field: 'keepThreshold' | 'dropThreshold' | 'minWords', value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isNaN(parsed)) {
+      onChange({ ...ruleSet, [field]: parsed });
+    }
+  };
+
+  const thresholdsInvalid = ruleSet.dropThreshold >= ruleSet.keepThreshold;
+  const sampleVerdict = sampleText.trim()
+    ? evaluateHeuristic(sampleText, compileRuleSet(ruleSet), ruleSet)
+    : null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <input
+          type="text"
+          value={ruleSet.name}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...ruleSet, name: e.target.value })}
+          className="font-semibold text-gray-800 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-500 outline-none"
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-white"
+          >
+            <Upload size={12} />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={downloadRules}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-white"
+          >
+            <Download size={12} />
+            <span>Export</span>
+          </button>
+          <button
+            onClick={resetRules}
+            disabled={disabled}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-white"
+          >
+            <RotateCcw size={12} />
+            <span>Defaults</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importRules(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Minimum words</label>
+          <input
+            type="number"
+            min={0}
+            value={ruleSet.minWords}
+            disabled={disabled}
+            onChange={(e) => setThreshold('minWords', e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Keep at score ≥</label>
+          <input
+            type="number"
+            value={ruleSet.keepThreshold}
+            disabled={disabled}
+            onChange={(e) => setThreshold('keepThreshold', e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Drop at score ≤</label>
+          <input
+            type="number"
+            value={ruleSet.dropThreshold}
+            disabled={disabled}
+            onChange={(e) => setThreshold('dropThreshold', e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        </div>
+      </div>
+      {thresholdsInvalid && (
+        <p className="text-xs text-red-600 mb-2">The drop score must be below the keep score.</p>
+      )}
+      <label className="flex items-center text-xs text-gray-700 mb-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={ruleSet.keepProse}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...ruleSet, keepProse: e.target.checked })}
+          className="mr-2"
+        />
+        Keep undecided messages that look like prose (let the LLM decide)
+      </label>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {ruleSet.rules.map((rule, idx) => (
+          <div key={rule.id} className="bg-white border border-gray-200 rounded p-2">
+            <div className="flex items-center space-x-2 mb-1">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                disabled={disabled}
+                onChange={(e) => updateRule(idx, { enabled: e.target.checked })}
+              />
+              <input
+                type="text"
+                value={rule.label}
+                disabled={disabled}
+                onChange={(e) => updateRule(idx, { label: e.target.value })}
+                className="flex-1 text-sm font-medium text-gray-800 outline-none"
+              />
+              <label className="text-xs text-gray-500">Weight</label>
+              <input
+                type="number"
+                value={rule.weight}
+                disabled={disabled}
+                onChange={(e) => {
+                  const weight = parseFloat(e.target.value);
+                  if (!Number.isNaN(weight)) updateRule(idx, { weight });
+                }}
+                className={`w-16 px-1 py-0.5 border rounded text-sm ${
+                  rule.weight > 0 ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'
+                }`}
+              />
+              <button
+                onClick={() => removeRule(idx)}
+                disabled={disabled}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <textarea
+              value={rule.terms.join(', ')}
+              disabled={disabled}
+              rows={2}
+              placeholder="Comma-separated words or phrases"
+              onChange={(e) => updateRule(idx, { terms: e.target.value.split(',').map(term => term.trimStart()) })}
+              className="w-full px-2 py-1 border border-gray-200 rounded text-xs font-mono text-gray-700"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addRule}
+        disabled={disabled}
+        className="mt-2 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Plus size={14} />
+        <span>Add rule</span>
+      </button>
+
+      {/* Try the rules on a sample message */}
+      <div className="mt-4 border-t pt-3">
+        <label className="block text-xs text-gray-600 mb-1">Test a message</label>
+        <textarea
+          value={sampleText}
+          rows={2}
+          placeholder="Paste a message to see how Stage 1 scores it"
+          onChange={(e) => setSampleText(e.target.value)}
+          className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+        {sampleVerdict && (
+          <p className={`mt-1 text-xs ${sampleVerdict.kept ? 'text-green-700' : 'text-red-700'}`}>
+            {REASON_LABELS[sampleVerdict.reason]} (score {sampleVerdict.score})
+            {sampleVerdict.matchedTerms.length > 0 && ` · matched: ${sampleVerdict.matchedTerms.join(', ')}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HeuristicRuleEditor;
@@ -0,0 +1,143 @@
+import React from 'react';
+import { RotateCcw, Sparkles } from 'lucide-react';
+import { LLMProviderKind, PipelineStage, StageModelSetting, StageModelSettings } from '../types';
+import { MODEL_PRICING, STAGE_LABELS } from '../utils/costEstimator';
+import {
+  CONFIGURABLE_STAGES,
+  STAGE_TOKEN_LIMITS,
+  MAX_OUTPUT_TOKENS,
+  RECOMMENDED_STAGE_SETTINGS,
+  getAnthropicModels,
+  validateStageSettings
+} from '../utils/modelSettings';
+import { usesAnthropicModels } from '../utils/providers';
+
+interface Props {
+  settings: StageModelSettings;
+  onChange: (settings: StageModelSettings) => void;
+  providerKind: LLMProviderKind;
+  providerModel?: string;  // Model used by stages without an override
+  disabled?: boolean;
+}
+
+const ModelSettingsPanel: React.FC<Props> = ({ settings, onChange, providerKind, providerModel, disabled }) => {
+  const errors = validateStageSettings(settings, providerKind);
+  const anthropicModels = getAnthropicModels();
+
+  const updateStage = (stage: PipelineStage, changes: Partial<StageModelSetting>) => {
+    const next: StageModelSetting = { ...settings[stage], ...changes };
+    if (next.model === undefined) delete next.model;
+    if (next.maxTokens === undefined) delete next.maxTokens;
+
+    const updated = { ...settings };
+    if (next.model === undefined && next.maxTokens === undefined) {
+      delete updated[stage];
+    } else {
+      updated[stage] = next;
+    }
+    onChange(updated);
+  };
+
+  const resetSettings = () => {
+    if (window.confirm('Use the provider\'s model and default max tokens for every stage?')) {
+      onChange({});
+    }
+  };
+
+  if (providerKind === 'mock') {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        The offline demo answers every stage itself - model settings apply to the Anthropic and OpenAI-compatible providers.
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-600">
+          Pick a model and output limit for each stage. Empty fields use{' '}
+          <span className="font-mono">{providerModel || 'the provider default'}</span>.
+        </p>
+        <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+          {usesAnthropicModels(providerKind) && (
+            <button
+              onClick={() => onChange(RECOMMENDED_STAGE_SETTINGS)}
+              disabled={disabled}
+              className="flex items-center space-x-1 px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50"
+              title="Haiku for the relevance check, Sonnet for evaluation and practice questions"
+            >
+              <Sparkles size={12} />
+              <span>Recommended</span>
+            </button>
+          )}
+          <button
+            onClick={resetSettings}
+            disabled={disabled}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <RotateCcw size={12} />
+            <span>Reset</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {CONFIGURABLE_STAGES.map(stage => {
+          const setting = settings[stage] || {};
+          const { default: defaultTokens, min } = STAGE_TOKEN_LIMITS[stage];
+          return (
+            <div key={stage}>
+              <div className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-4 text-sm text-gray-700">{STAGE_LABELS[stage]}</span>
+                {usesAnthropicModels(providerKind) ? (
+                  <select
+                    value={setting.model || ''}
+                    onChange={(e) => updateStage(stage, { model: e.target.value || undefined })}
+                    disabled={disabled}
+                    className="col-span-5 px-2 py-1.5 border-2 border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Default</option>
+                    {anthropicModels.map(model => (
+                      <option key={model} value={model}>
+                        {MODEL_PRICING[model].label} (${MODEL_PRICING[model].input}/${MODEL_PRICING[model].output} per MTok)
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={setting.model || ''}
+                    placeholder="Default"
+                    onChange={(e) => updateStage(stage, { model: e.target.value || undefined })}
+                    disabled={disabled}
+                    className="col-span-5 px-2 py-1.5 border-2 border-gray-300 rounded-lg text-sm"
+                  />
+                )}
+                <input
+                  type="number"
+                  min={min}
+                  max={MAX_OUTPUT_TOKENS}
+                  step={100}
+                  value={setting.maxTokens ?? ''}
+                  placeholder={`${defaultTokens}`}
+                  onChange={(e) => updateStage(stage, {
+                    maxTokens: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                  })}
+                  disabled={disabled}
+                  title="Max output tokens"
+                  className="col-span-3 px-2 py-1.5 border-2 border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              {errors[stage] && (
+                <p className="mt-1 text-xs text-red-600">{errors[stage]}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
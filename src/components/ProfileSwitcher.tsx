@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Users, ChevronDown, Plus, Edit2, Copy, Trash2, Check, Key } from 'lucide-react';
+import { LearnerProfile } from '../types';
+
+interface Props {
+  profiles: LearnerProfile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onCreate: () => void;
+  onRename: (profileId: string) => void;
+  onDuplicate: (profileId: string) => void;
+  onDelete: (profileId: string) => void;
+  disabled?: boolean;
+}
+
+const ProfileSwitcher: React.FC<Props> = ({
+  profiles,
+  activeProfileId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  disabled
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const runAction = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        disabled={disabled}
+        title={disabled ? 'Profiles cannot be switched while processing' : 'Switch learner profile'}
+        className="flex items-center space-x-2 px-4 py-2 bg-gray-50 border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+      >
+        <Users className="text-blue-600" size={18} />
+        <span className="font-medium text-gray-800 max-w-[12rem] truncate">
+          {activeProfile?.name || 'No profile'}
+        </span>
+        <ChevronDown className="text-gray-500" size={16} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+          <div className="p-3 border-b border-gray-200">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Learner Profiles</p>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfileId;
+              return (
+                <div
+                  key={profile.id}
+                  className={`flex items-center justify-between px-3 py-2 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <button
+                    onClick={() => runAction(() => onSwitch(profile.id))}
+                    className="flex-1 text-left min-w-0"
+                  >
+                    <div className="flex items-center">
+                      {isActive && <Check className="text-blue-600 mr-1 flex-shrink-0" size={14} />}
+                      <span className={`truncate ${isActive ? 'font-semibold text-blue-900' : 'text-gray-800'}`}>
+                        {profile.name}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 flex items-center space-x-2">
+                      <span>{profile.state.baselineAnalysis ? 'Baseline complete' : 'No baseline yet'}</span>
+                      {profile.apiKeyRef && (
+                        <span className="flex items-center">
+                          <Key size={10} className="mr-1" />
+                          {profile.apiKeyRef}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <button
+                      onClick={() => runAction(() => onRename(profile.id))}
+                      title="Rename"
+                      className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                    >
+                      <Edit2 size={14} />
+                    </button>
+                    <button
+                      onClick={() => runAction(() => onDuplicate(profile.id))}
+                      title="Duplicate"
+                      className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => runAction(() => onDelete(profile.id))}
+                      title="Delete"
+                      className="p-1 text-gray-500 hover:text-red-600 rounded"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Recent history for the active learner */}
+          {activeProfile && activeProfile.history.length > 0 && (
+            <div className="p-3 border-t border-gray-200 bg-gray-50">
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Recent Activity</p>
+              <ul className="space-y-1">
+                {activeProfile.history.slice(-5).reverse().map(entry => (
+                  <li key={entry.id} className="text-xs text-gray-700">
+                    <span className="text-gray-500">{new Date(entry.date).toLocaleDateString()}</span>
+                    {' · '}
+                    {entry.summary}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="p-2 border-t border-gray-200">
+            <button
+              onClick={() => runAction(onCreate)}
+              className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            >
+              <Plus size={16} />
+              <span>New Profile</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -5,14 +5,19 @@ import {
   Analysis, 
   Issue, 
   ReEvaluationResult,
-  PracticePerformanceSummary 
+  LanguageScores,
+  RedactionMap
 } from '../types';
+import { getLanguageName } from '../utils/languageDetection';
+import { restoreText } from '../utils/redaction';
+import { getModelLabel } from '../utils/costEstimator';
 
 interface Props {
   sessions: PracticeSession[];
   baselineAnalysis?: Analysis;
   followupAnalysis?: Analysis;
   reEvaluationResult?: ReEvaluationResult;
+  redactionMap?: RedactionMap;  // Restores redacted names/emails in AI-written text
   onStartReEvaluation: () => void;
   onBackToPractice: () => void;
 }
@@ -22,6 +27,7 @@ const ProgressDashboard: React.FC<Props> = ({
   baselineAnalysis, 
   followupAnalysis,
   reEvaluationResult,
+  redactionMap,
   onStartReEvaluation,
   onBackToPractice
 }) => {
@@ -61,6 +67,19 @@ const ProgressDashboard: React.FC<Props> = ({
     }))
     .sort((a, b) => a.accuracy - b.accuracy);
 
+  // Per-language scores - only worth a section when the learner writes in more than one language
+  const languageRows = (() => {
+    const baselineScores = baselineAnalysis?.language_scores || [];
+    const followupScores = followupAnalysis?.language_scores || [];
+    const languages = Array.from(new Set([...baselineScores, ...followupScores].map(s => s.language)));
+    return languages.map(language => ({
+      language,
+      baseline: baselineScores.find(s => s.language === language),
+      followup: followupScores.find(s => s.language === language)
+    }));
+  })();
+  const showLanguageScores = languageRows.filter(row => row.language !== 'und').length > 1;
+
   // Check if we have comparison data
   const hasComparison = baselineAnalysis && followupAnalysis;
   const comparison = reEvaluationResult?.comparison;
@@ -116,6 +135,12 @@ const ProgressDashboard: React.FC<Props> = ({
     );
   };
 
+  // Scores from different evaluation models are not directly comparable
+  const baselineEvaluationModel = baselineAnalysis?.metadata?.stage_models?.evaluation;
+  const followupEvaluationModel = (followupAnalysis || reEvaluationResult?.followupAnalysis)?.metadata?.stage_models?.evaluation;
+  const evaluationModelChanged = !!baselineEvaluationModel && !!followupEvaluationModel &&
+    baselineEvaluationModel !== followupEvaluationModel;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -137,6 +162,13 @@ const ProgressDashboard: React.FC<Props> = ({
             Writing Improvement Results
           </h3>
           
+          {evaluationModelChanged && (
+            <p className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              ⚠️ The baseline was evaluated with {getModelLabel(baselineEvaluationModel!)} and the follow-up with{' '}
+              {getModelLabel(followupEvaluationModel!)} - part of the score change may come from the model.
+            </p>
+          )}
+          
           {/* Score Comparison Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
             {/* Grammar */}
@@ -198,7 +230,7 @@ const ProgressDashboard: React.FC<Props> = ({
           {reEvaluationResult?.overallImprovement && (
             <div className="bg-white rounded-lg p-6 border-l-4 border-green-500">
               <p className="text-sm font-semibold text-gray-700 mb-2">📝 AI Assessment:</p>
-              <p className="text-gray-800">{reEvaluationResult.overallImprovement}</p>
+              <p className="text-gray-800">{restoreText(reEvaluationResult.overallImprovement, redactionMap)}</p>
             </div>
           )}
 
@@ -214,7 +246,7 @@ const ProgressDashboard: React.FC<Props> = ({
                 {reEvaluationResult.issueComparison.resolved.length > 0 ? (
                   <ul className="text-sm text-green-700 space-y-1">
                     {reEvaluationResult.issueComparison.resolved.slice(0, 3).map((issue, idx) => (
-                      <li key={idx} className="truncate">✓ {issue.issue}</li>
+                      <li key={idx} className="truncate">✓ {restoreText(issue.issue, redactionMap)}</li>
                     ))}
                     {reEvaluationResult.issueComparison.resolved.length > 3 && (
                       <li className="text-green-600 font-medium">
@@ -235,7 +267,7 @@ const ProgressDashboard: React.FC<Props> = ({
                 {reEvaluationResult.issueComparison.persistent.length > 0 ? (
                   <ul className="text-sm text-yellow-700 space-y-1">
                     {reEvaluationResult.issueComparison.persistent.slice(0, 3).map((issue, idx) => (
-                      <li key={idx} className="truncate">• {issue.issue}</li>
+                      <li key={idx} className="truncate">• {restoreText(issue.issue, redactionMap)}</li>
                     ))}
                     {reEvaluationResult.issueComparison.persistent.length > 3 && (
                       <li className="text-yellow-600 font-medium">
@@ -256,7 +288,7 @@ const ProgressDashboard: React.FC<Props> = ({
                 {reEvaluationResult.issueComparison.newIssues.length > 0 ? (
                   <ul className="text-sm text-red-700 space-y-1">
                     {reEvaluationResult.issueComparison.newIssues.slice(0, 3).map((issue, idx) => (
-                      <li key={idx} className="truncate">• {issue.issue}</li>
+                      <li key={idx} className="truncate">• {restoreText(issue.issue, redactionMap)}</li>
                     ))}
                     {reEvaluationResult.issueComparison.newIssues.length > 3 && (
                       <li className="text-red-600 font-medium">
@@ -324,6 +356,53 @@ const ProgressDashboard: React.FC<Props> = ({
         </div>
       </div>
 
+      {/* Scores by Language */}
+      {showLanguageScores && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-lg font-bold text-gray-800 mb-4">Scores by Language</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Language</th>
+                <th className="py-2 font-medium">Messages</th>
+                <th className="py-2 font-medium text-blue-600">Grammar</th>
+                <th className="py-2 font-medium text-green-600">Punctuation</th>
+                <th className="py-2 font-medium text-purple-600">Tone</th>
+              </tr>
+            </thead>
+            <tbody>
+              {languageRows.map(({ language, baseline, followup }) => {
+                const cell = (field: keyof Omit<LanguageScores, 'language' | 'messages'>) => (
+                  <td className="py-2">
+                    {baseline ? baseline[field].toFixed(1) : '–'}
+                    {followup && (
+                      <>
+                        <ArrowRight className="inline mx-1 text-gray-400" size={12} />
+                        <span className="font-semibold">{followup[field].toFixed(1)}</span>
+                      </>
+                    )}
+                  </td>
+                );
+                return (
+                  <tr key={language} className="border-b border-gray-100">
+                    <td className="py-2 font-medium text-gray-800">{getLanguageName(language)}</td>
+                    <td className="py-2 text-gray-600">
+                      {baseline?.messages || 0}{followup && ` → ${followup.messages}`}
+                    </td>
+                    {cell('avg_grammar_score')}
+                    {cell('avg_punctuation_score')}
+                    {cell('avg_tone_score')}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Each language is scored against its own conventions{hasComparison ? ' (baseline → follow-up)' : ''}.
+          </p>
+        </div>
+      )}
+
       {/* Session Progress */}
       {completedSessions.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6">
@@ -427,7 +506,7 @@ const ProgressDashboard: React.FC<Props> = ({
             </div>
           </div>
           <div className="mt-4 bg-gray-50 rounded-lg p-4 border-l-4 border-gray-400">
-            <p className="text-sm text-gray-700">{baselineAnalysis.summary.overall_assessment}</p>
+            <p className="text-sm text-gray-700">{restoreText(baselineAnalysis.summary.overall_assessment, redactionMap)}</p>
           </div>
         </div>
       )}
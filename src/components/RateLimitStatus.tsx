@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { RateLimiterState } from '../types';
+
+interface Props {
+  state: RateLimiterState | null;
+}
+
+const RateLimitStatus: React.FC<Props> = ({ state }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a request is waiting, so the countdown moves
+  useEffect(() => {
+    if (!state?.nextSlotAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state?.nextSlotAt]);
+
+  if (!state || state.requestsPerMinute === null) return null;
+
+  const parts = [
+    `${state.requestsInLastMinute}/${state.requestsPerMinute} requests per minute`
+      + (state.adaptive ? ' (your account\'s limit)' : ' (default)')
+      + (state.ceiling !== null && state.ceiling === state.requestsPerMinute ? ' - your cap' : ''),
+    ...(state.queueDepth > 0 ? [`${state.queueDepth} waiting`] : []),
+    ...(state.nextSlotAt ? [`next slot in ${Math.max(0, Math.ceil((state.nextSlotAt - now) / 1000))}s`] : []),
+    ...(state.tokensRemaining !== undefined ? [`${Math.max(0, state.tokensRemaining).toLocaleString()} tokens left this minute`] : [])
+  ];
+
+  return (
+    <p className="mb-4 text-xs text-blue-800 flex items-center">
+      <Gauge size={14} className="mr-1 flex-shrink-0" />
+      {parts.join(' · ')}
+    </p>
+  );
+};
+
+export default RateLimitStatus;
@@ -4,22 +4,46 @@ import {
   Analysis, 
   PracticeSession, 
   PracticePerformanceSummary,
-  ChatLogMetadata 
+  ChatLogMetadata,
+  ConversationSelection,
+  CostEstimate,
+  RateLimiterState,
+  BatchState
 } from '../types';
-import { getChatLogMetadata } from '../utils/chatLogParser';
+import { parseConversations } from '../utils/chatLogParser';
+import { createDefaultSelection, selectConversationIndices, describeSelection } from '../utils/conversationSelection';
+import ConversationSelector from './ConversationSelector';
+import RateLimitStatus from './RateLimitStatus';
+import BatchProgress from './BatchProgress';
+import RunControls from './RunControls';
+import { SUPPORTED_UPLOAD_TYPES } from '../utils/importers';
+import { loadImportIndex } from '../utils/importClient';
+import { formatCost, STAGE_LABELS } from '../utils/costEstimator';
 
 interface Props {
   baselineAnalysis: Analysis;
+  baselineMessageIds?: string[];  // Stable IDs from the baseline run, used to skip already-evaluated messages
   practiceSessions: PracticeSession[];
   onRunReEvaluation: (
-    file: File, 
+    files: File[], 
     options: { 
       start: number; 
       end: number; 
       mode: 'incremental' | 'range';
+      selection?: ConversationSelection;  // Custom selection - takes precedence over start/end
       practicePerformance: PracticePerformanceSummary;
     }
   ) => void;
+  // Parses and filters the selection locally to estimate what the run will send
+  onEstimateCost: (
+    files: File[],
+    selection: ConversationSelection
+  ) => Promise<{ messages: number; estimate: CostEstimate }>;
+  budgetUsd?: number | null;
+  rateLimiterState?: RateLimiterState | null;
+  batchStates?: BatchState[];
+  onPauseRun?: () => void;
+  onCancelRun?: () => void;
   processing: boolean;
   progress: { current: number; total: number; stage: string };
   processingSteps: string[];
@@ -27,24 +51,37 @@ interface Props {
 
 const ReEvaluation: React.FC<Props> = ({ 
   baselineAnalysis,
+  baselineMessageIds,
   practiceSessions,
   onRunReEvaluation,
+  onEstimateCost,
+  budgetUsd,
+  rateLimiterState,
+  batchStates,
+  onPauseRun,
+  onCancelRun,
   processing,
   progress,
   processingSteps
 }) => {
-  const [newFile, setNewFile] = useState<File | null>(null);
+  const [newFiles, setNewFiles] = useState<File[]>([]);
   const [newFileMetadata, setNewFileMetadata] = useState<ChatLogMetadata | null>(null);
   const [evaluationMode, setEvaluationMode] = useState<'incremental' | 'range'>('incremental');
-  const [rangeStart, setRangeStart] = useState<number>(1);
-  const [rangeEnd, setRangeEnd] = useState<number>(100);
+  const [customSelection, setCustomSelection] = useState<ConversationSelection>(createDefaultSelection(100));
   const [analyzing, setAnalyzing] = useState(false);
+  const [analyzingStatus, setAnalyzingStatus] = useState('');
   const [error, setError] = useState('');
+  const [newMessageStats, setNewMessageStats] = useState<{ messages: number; conversations: number; skipped: number } | null>(null);
 
   // Extract baseline conversation range
   const baselineRange = baselineAnalysis.metadata?.conversations_range || { start: 1, end: 0 };
   const baselineEnd = baselineRange.end;
 
+  // Baselines with stable message IDs are deduplicated by ID, so any conversation
+  // order works - older baselines fall back to "everything after the baseline range"
+  const dedupById = !!baselineMessageIds && baselineMessageIds.length > 0;
+  const incrementalStart = dedupById ? 1 : baselineEnd + 1;
+
   // Calculate practice performance summary
   const calculatePracticePerformance = (): PracticePerformanceSummary => {
     const completedSessions = practiceSessions.filter(s => s.completed);
@@ -91,64 +128,107 @@ const ReEvaluation: React.FC<Props> = ({
   const practicePerformance = calculatePracticePerformance();
 
   // Calculate new conversations available
-  const newConversationsAvailable = newFileMetadata 
-    ? Math.max(0, newFileMetadata.totalConversations - baselineEnd)
-    : 0;
+  const newConversationsAvailable = !newFileMetadata
+    ? 0
+    : dedupById
+      ? newMessageStats?.conversations || 0
+      : Math.max(0, newFileMetadata.totalConversations - baselineEnd);
+
+  // Position range of the custom selection (legacy overlap handling only applies to these)
+  const rangeStart = customSelection.range?.start || 1;
+  const rangeEnd = customSelection.range?.end || newFileMetadata?.totalConversations || 1;
+  const isPositionRange = customSelection.mode === 'range';
+
+  // Conversations matched by the custom selection (0 while a title pattern is invalid)
+  let customSelectedCount = 0;
+  try {
+    customSelectedCount = newFileMetadata
+      ? selectConversationIndices(newFileMetadata.conversations, customSelection).length
+      : 0;
+  } catch {
+    customSelectedCount = 0;
+  }
 
   // Auto-set incremental range when file is loaded
   useEffect(() => {
     if (newFileMetadata && evaluationMode === 'incremental') {
-      setRangeStart(baselineEnd + 1);
-      setRangeEnd(newFileMetadata.totalConversations);
+      setCustomSelection({ mode: 'range', range: { start: incrementalStart, end: newFileMetadata.totalConversations } });
     }
-  }, [newFileMetadata, evaluationMode, baselineEnd]);
+  }, [newFileMetadata, evaluationMode, incrementalStart]);
 
-  const handleFileUpload = async (file: File) => {
-    setNewFile(file);
+  const handleFileUpload = async (files: File[]) => {
+    setNewFiles(files);
     setAnalyzing(true);
     setError('');
     
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      
-      const metadata = getChatLogMetadata(data);
+      const { conversations, metadata } = await loadImportIndex(files, (status) => {
+        setAnalyzingStatus(status);
+      });
       setNewFileMetadata(metadata);
       
+      if (dedupById) {
+        const unseen = parseConversations(conversations, { excludeMessageIds: baselineMessageIds });
+        setNewMessageStats({
+          messages: unseen.length,
+          conversations: new Set(unseen.map(m => m.conversationId)).size,
+          skipped: parseConversations(conversations).length - unseen.length
+        });
+      }
+      
       // Set default range based on mode
       if (evaluationMode === 'incremental') {
-        setRangeStart(baselineEnd + 1);
-        setRangeEnd(metadata.totalConversations);
+        setCustomSelection({ mode: 'range', range: { start: incrementalStart, end: metadata.totalConversations } });
       } else {
-        setRangeStart(1);
-        setRangeEnd(metadata.totalConversations);
+        setCustomSelection(createDefaultSelection(metadata.totalConversations));
       }
       
     } catch (err: any) {
       console.error('Error parsing file:', err);
-      setError('Error parsing file. Please ensure it\'s a valid OpenAI chat export JSON file.');
-      setNewFile(null);
+      setError(`Error parsing file. Please upload an OpenAI or Claude.ai chat export JSON file, or .txt, .md, .docx or .eml documents. ${err.message || ''}`.trim());
+      setNewFiles([]);
       setNewFileMetadata(null);
+      setNewMessageStats(null);
     } finally {
       setAnalyzing(false);
+      setAnalyzingStatus('');
     }
   };
 
-  const handleStartEvaluation = () => {
-    if (!newFile || !newFileMetadata) return;
+  const handleStartEvaluation = async () => {
+    if (newFiles.length === 0 || !newFileMetadata) return;
     
     let actualStart = rangeStart;
     let actualEnd = rangeEnd;
+    let selection: ConversationSelection | undefined;
     
     if (evaluationMode === 'incremental') {
-      // For incremental, only evaluate conversations after baseline
-      actualStart = baselineEnd + 1;
+      // For incremental, only evaluate conversations after baseline (or every
+      // conversation when baseline messages are skipped by ID)
+      actualStart = incrementalStart;
       actualEnd = newFileMetadata.totalConversations;
       
-      if (actualStart > actualEnd) {
+      if (actualStart > actualEnd || newConversationsAvailable === 0) {
         setError('No new conversations to evaluate. The file has the same or fewer conversations than baseline.');
         return;
       }
+    } else if (dedupById || !isPositionRange) {
+      // Date/title/hand-picked selections (and any selection once baseline
+      // messages are skipped by ID) are passed through as-is
+      let selectedIndices: number[];
+      try {
+        selectedIndices = selectConversationIndices(newFileMetadata.conversations, customSelection);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+      if (selectedIndices.length === 0) {
+        setError('No conversations match the current selection.');
+        return;
+      }
+      selection = customSelection;
+      actualStart = selectedIndices[0] + 1;
+      actualEnd = selectedIndices[selectedIndices.length - 1] + 1;
     } else {
       // For custom range, check for overlap with baseline and skip already-evaluated
       if (rangeStart <= baselineEnd && rangeEnd > baselineEnd) {
@@ -163,15 +243,36 @@ const ReEvaluation: React.FC<Props> = ({
       // If rangeStart > baselineEnd, evaluate the full range (all new)
     }
     
-    const conversationCount = actualEnd - actualStart + 1;
-    const estimatedMessages = conversationCount * 10; // Rough estimate
+    const conversationCount = selection
+      ? selectConversationIndices(newFileMetadata.conversations, selection).length
+      : actualEnd - actualStart + 1;
+    
+    let estimatedMessages: number;
+    let estimate: CostEstimate;
+    try {
+      ({ messages: estimatedMessages, estimate } = await onEstimateCost(
+        newFiles,
+        selection || { mode: 'range', range: { start: actualStart, end: actualEnd } }
+      ));
+    } catch (err: any) {
+      setError(`Could not estimate the cost of this run. ${err.message || ''}`.trim());
+      return;
+    }
+    const overBudget = !!budgetUsd && estimate.total.cost_usd > budgetUsd;
     
     const proceed = window.confirm(
       `Re-evaluation Summary:\n\n` +
-      `📊 Conversations to evaluate: ${actualStart} to ${actualEnd} (${conversationCount} conversations)\n` +
-      `📝 Estimated messages: ~${estimatedMessages}\n` +
-      `⏱️ Estimated time: ~${Math.ceil(estimatedMessages / 20)} minutes\n` +
-      `💰 Estimated cost: ~$${(estimatedMessages * 0.0005).toFixed(2)}\n\n` +
+      (selection
+        ? `📊 Conversations to evaluate: ${describeSelection(selection)} (${conversationCount} conversations)\n`
+        : `📊 Conversations to evaluate: ${actualStart} to ${actualEnd} (${conversationCount} conversations)\n`) +
+      `📝 Messages to evaluate: up to ${estimatedMessages}\n` +
+      `⏱️ Estimated time: ~${Math.ceil(estimate.total.requests / 5)} minutes\n` +
+      `💰 Estimated cost: ~${formatCost(estimate.total.cost_usd)} ` +
+      `(${estimate.stages.map(stage => `${STAGE_LABELS[stage.stage]} ${formatCost(stage.cost_usd)}`).join(', ')})\n` +
+      (budgetUsd
+        ? `💳 Budget: ${formatCost(budgetUsd)}${overBudget ? ' - OVER BUDGET, the run will stop when it is spent' : ''}\n`
+        : '') +
+      `\n` +
       `Practice Performance:\n` +
       `✅ Sessions completed: ${practicePerformance.completed_sessions}/${practicePerformance.total_sessions}\n` +
       `📈 Average practice score: ${Math.round(practicePerformance.average_score * 100)}%\n\n` +
@@ -179,10 +280,11 @@ const ReEvaluation: React.FC<Props> = ({
     );
     
     if (proceed) {
-      onRunReEvaluation(newFile, { 
+      onRunReEvaluation(newFiles, { 
         start: actualStart, 
         end: actualEnd, 
         mode: evaluationMode,
+        selection,
         practicePerformance 
       });
     }
@@ -212,7 +314,12 @@ const ReEvaluation: React.FC<Props> = ({
               <p className="text-blue-900 font-bold text-xl">
                 {baselineRange.start}-{baselineRange.end}
               </p>
-              <p className="text-xs text-blue-600">({baselineRange.end - baselineRange.start + 1} total)</p>
+              <p className="text-xs text-blue-600">
+                ({baselineAnalysis.metadata?.total_conversations_evaluated ?? baselineRange.end - baselineRange.start + 1} total)
+              </p>
+              {baselineAnalysis.metadata?.selection && baselineAnalysis.metadata.selection.mode !== 'range' && (
+                <p className="text-xs text-blue-600 mt-1">{describeSelection(baselineAnalysis.metadata.selection)}</p>
+              )}
             </div>
             <div className="bg-white rounded-lg p-3 border border-blue-100">
               <p className="text-blue-700 font-medium text-xs">Evaluation Date</p>
@@ -285,13 +392,16 @@ const ReEvaluation: React.FC<Props> = ({
           
           <div className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             analyzing ? 'border-blue-400 bg-blue-50' : 
-            newFile ? 'border-green-400 bg-green-50' :
+            newFiles.length > 0 ? 'border-green-400 bg-green-50' :
             'border-gray-300 hover:border-gray-400'
           }`}>
             {analyzing ? (
               <div className="flex flex-col items-center">
                 <Loader className="animate-spin text-blue-600 mb-3" size={40} />
                 <p className="text-blue-900 font-medium">Analyzing file...</p>
+                {analyzingStatus && (
+                  <p className="text-sm text-blue-700 mt-1">{analyzingStatus}</p>
+                )}
               </div>
             ) : (
               <>
@@ -299,20 +409,21 @@ const ReEvaluation: React.FC<Props> = ({
                 
                 <label className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg cursor-pointer transition-colors">
                   <Upload size={18} className="mr-2" />
-                  {newFile ? 'Choose Different File' : 'Choose Chat Log File'}
+                  {newFiles.length > 0 ? 'Choose Different Files' : 'Choose Chat Log or Documents'}
                   <input
                     type="file"
-                    accept=".json"
+                    accept={SUPPORTED_UPLOAD_TYPES}
+                    multiple
                     className="hidden"
-                    onChange={(e) => e.target.files && handleFileUpload(e.target.files[0])}
+                    onChange={(e) => e.target.files && e.target.files.length > 0 && handleFileUpload(Array.from(e.target.files))}
                     disabled={processing}
                   />
                 </label>
                 
-                {newFile && (
+                {newFiles.length > 0 && (
                   <div className="mt-4 text-sm text-green-600 flex items-center justify-center">
                     <CheckCircle className="mr-2" size={16} />
-                    {newFile.name}
+                    {newFiles.length === 1 ? newFiles[0].name : `${newFiles.length} files selected`}
                   </div>
                 )}
               </>
@@ -320,7 +431,7 @@ const ReEvaluation: React.FC<Props> = ({
           </div>
           
           <p className="mt-2 text-xs text-gray-500">
-            Upload the same file with more conversations, or a new export
+            Upload the same file with more conversations, a new export, or new documents
           </p>
         </div>
 
@@ -334,7 +445,9 @@ const ReEvaluation: React.FC<Props> = ({
                 <p className="text-purple-900 font-bold text-2xl">{newFileMetadata.totalConversations}</p>
               </div>
               <div className="bg-white rounded-lg p-3 border border-purple-100">
-                <p className="text-purple-700 font-medium text-xs">New Conversations</p>
+                <p className="text-purple-700 font-medium text-xs">
+                  {dedupById ? 'Conversations with New Messages' : 'New Conversations'}
+                </p>
                 <p className={`font-bold text-2xl ${
                   newConversationsAvailable > 0 ? 'text-green-600' : 'text-yellow-600'
                 }`}>
@@ -345,7 +458,9 @@ const ReEvaluation: React.FC<Props> = ({
               <div className="bg-white rounded-lg p-3 border border-purple-100">
                 <p className="text-purple-700 font-medium text-xs">Already Evaluated</p>
                 <p className="text-gray-600 font-bold text-2xl">
-                  1-{Math.min(baselineEnd, newFileMetadata.totalConversations)}
+                  {dedupById
+                    ? `${newMessageStats?.skipped || 0} msgs`
+                    : `1-${Math.min(baselineEnd, newFileMetadata.totalConversations)}`}
                 </p>
               </div>
             </div>
@@ -354,7 +469,7 @@ const ReEvaluation: React.FC<Props> = ({
               <div className="mt-4 bg-yellow-100 border border-yellow-300 rounded-lg p-3 flex items-start">
                 <AlertCircle className="text-yellow-600 mr-2 flex-shrink-0 mt-0.5" size={18} />
                 <p className="text-sm text-yellow-800">
-                  No new conversations found beyond baseline. You can still use Custom Range to re-evaluate 
+                  No new conversations found beyond baseline. You can still use Custom Selection to re-evaluate 
                   specific conversations, but for measuring improvement, add more conversations to your export.
                 </p>
               </div>
@@ -395,7 +510,9 @@ const ReEvaluation: React.FC<Props> = ({
                     )}
                   </p>
                   <p className="text-sm text-gray-600 mb-2">
-                    Evaluate only conversations #{baselineEnd + 1} onwards (new since baseline)
+                    {dedupById
+                      ? `Evaluate only messages not seen in the baseline (${newMessageStats?.messages || 0} new messages)`
+                      : `Evaluate only conversations #${baselineEnd + 1} onwards (new since baseline)`}
                   </p>
                   {newConversationsAvailable > 0 && (
                     <div className="flex flex-wrap gap-2 text-xs">
@@ -413,13 +530,14 @@ const ReEvaluation: React.FC<Props> = ({
                 </div>
               </label>
 
-              {/* Custom Range Mode */}
-              <label className={`flex items-start p-5 border-2 rounded-lg cursor-pointer transition-all ${
+              {/* Custom Selection Mode */}
+              <div className={`flex items-start p-5 border-2 rounded-lg transition-all ${
                 evaluationMode === 'range' 
                   ? 'border-blue-500 bg-blue-50 shadow-md' 
                   : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
               }`}>
                 <input
+                  id="reevaluation-mode-range"
                   type="radio"
                   name="mode"
                   value="range"
@@ -428,52 +546,30 @@ const ReEvaluation: React.FC<Props> = ({
                   className="mt-1 mr-4"
                 />
                 <div className="flex-1">
-                  <p className="font-semibold text-gray-800 mb-1">
-                    📐 Custom Range
-                  </p>
-                  <p className="text-sm text-gray-600 mb-3">
-                    Choose specific conversation range to evaluate
-                  </p>
+                  <label htmlFor="reevaluation-mode-range" className="cursor-pointer">
+                    <p className="font-semibold text-gray-800 mb-1">
+                      📐 Custom Selection
+                    </p>
+                    <p className="text-sm text-gray-600 mb-3">
+                      Choose conversations by position, date range, title or by hand
+                    </p>
+                  </label>
                   
                   {evaluationMode === 'range' && (
                     <div className="space-y-3">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label className="block text-xs text-gray-600 mb-1 font-medium">
-                            From Conversation:
-                          </label>
-                          <input
-                            type="number"
-                            min={1}
-                            max={newFileMetadata.totalConversations}
-                            value={rangeStart}
-                            onChange={(e) => {
-                              const val = parseInt(e.target.value) || 1;
-                              setRangeStart(Math.max(1, Math.min(val, rangeEnd)));
-                            }}
-                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                          />
-                        </div>
-                        <div>
-                          <label className="block text-xs text-gray-600 mb-1 font-medium">
-                            To Conversation:
-                          </label>
-                          <input
-                            type="number"
-                            min={rangeStart}
-                            max={newFileMetadata.totalConversations}
-                            value={rangeEnd}
-                            onChange={(e) => {
-                              const val = parseInt(e.target.value) || rangeEnd;
-                              setRangeEnd(Math.max(rangeStart, Math.min(val, newFileMetadata.totalConversations)));
-                            }}
-                            className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                          />
-                        </div>
-                      </div>
+                      <ConversationSelector
+                        metadata={newFileMetadata}
+                        selection={customSelection}
+                        onChange={setCustomSelection}
+                        disabled={processing}
+                      />
                       
                       {/* Smart overlap detection */}
-                      {rangeStart <= baselineEnd && (
+                      {dedupById ? (
+                        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-xs text-blue-800">
+                          Messages already evaluated in the baseline are skipped automatically, whatever their position in the export.
+                        </div>
+                      ) : isPositionRange && rangeStart <= baselineEnd && (
                         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs">
                           <p className="text-yellow-800">
                             <strong>⚠️ Overlap detected:</strong> Conversations {rangeStart}-{Math.min(rangeEnd, baselineEnd)} were 
@@ -486,20 +582,17 @@ const ReEvaluation: React.FC<Props> = ({
                       <div className="bg-blue-100 rounded-lg p-3">
                         <div className="flex flex-wrap gap-3 text-xs">
                           <span className="text-blue-800">
-                            📊 <strong>{rangeEnd - rangeStart + 1}</strong> conversations selected
-                          </span>
-                          <span className="text-blue-800">
-                            ⏱️ ~{Math.ceil((rangeEnd - rangeStart + 1) * 10 / 20)} min
+                            ⏱️ ~{Math.ceil(customSelectedCount * 10 / 20)} min
                           </span>
                           <span className="text-blue-800">
-                            💵 ~${((rangeEnd - rangeStart + 1) * 10 * 0.0005).toFixed(2)}
+                            💵 ~${(customSelectedCount * 10 * 0.0005).toFixed(2)}
                           </span>
                         </div>
                       </div>
                     </div>
                   )}
                 </div>
-              </label>
+              </div>
             </div>
           </div>
         )}
@@ -523,7 +616,9 @@ const ReEvaluation: React.FC<Props> = ({
             <span>
               {evaluationMode === 'incremental' 
                 ? `Evaluate ${newConversationsAvailable} New Conversations`
-                : `Evaluate Conversations ${rangeStart}-${rangeEnd}`
+                : isPositionRange
+                  ? `Evaluate Conversations ${rangeStart}-${rangeEnd}`
+                  : `Evaluate ${customSelectedCount} Selected Conversations`
               }
             </span>
           </button>
@@ -532,9 +627,12 @@ const ReEvaluation: React.FC<Props> = ({
         {/* Processing Progress */}
         {processing && (
           <div className="mt-6 bg-blue-50 rounded-lg p-6 border border-blue-200">
-            <div className="flex justify-between mb-4">
+            <div className="flex justify-between items-center mb-4">
               <span className="font-medium text-blue-900">{progress.stage}</span>
-              <span className="text-blue-700 font-semibold">{progress.current}%</span>
+              <div className="flex items-center space-x-3">
+                <span className="text-blue-700 font-semibold">{progress.current}%</span>
+                {onCancelRun && <RunControls onPause={onPauseRun} onCancel={onCancelRun} />}
+              </div>
             </div>
             <div className="w-full bg-blue-200 rounded-full h-3 mb-4">
               <div 
@@ -542,6 +640,8 @@ const ReEvaluation: React.FC<Props> = ({
                 style={{ width: `${progress.current}%` }} 
               />
             </div>
+            <RateLimitStatus state={rateLimiterState || null} />
+            <BatchProgress states={batchStates || []} />
             
             {/* Processing Steps Log */}
             <div className="bg-white rounded-lg p-4 max-h-64 overflow-y-auto border border-blue-200">
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Shield, Eye, EyeOff } from 'lucide-react';
+import { ParsedMessage, RedactionMap, RedactionKind } from '../types';
+import { restoreText, splitPlaceholders } from '../utils/redaction';
+
+interface Props {
+  messages: ParsedMessage[];  // Already redacted
+  map: RedactionMap;
+  onClose: () => void;
+}
+
+const KIND_LABELS: { [kind in RedactionKind]: string } = {
+  email: 'Emails',
+  phone: 'Phone numbers',
+  address: 'Addresses',
+  name: 'Names',
+  secret: 'API keys & tokens',
+  card: 'Card numbers'
+};
+
+// Enough examples to judge the redaction without rendering a whole export
+const MAX_PREVIEW_MESSAGES = 20;
+
+const RedactionPreview: React.FC<Props> = ({ messages, map, onClose }) => {
+  const [showOriginals, setShowOriginals] = useState(false);
+
+  const redacted = messages.filter(msg => (msg.redactionCount || 0) > 0);
+  const kinds = (Object.keys(KIND_LABELS) as RedactionKind[]).filter(kind => map.counters[kind]);
+
+  return (
+    <div className="mt-4 border border-green-200 bg-green-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-green-900 flex items-center">
+          <Shield size={16} className="mr-2" />
+          Redaction Preview
+        </h4>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowOriginals(!showOriginals)}
+            className="flex items-center space-x-1 text-xs text-green-800 hover:text-green-900"
+          >
+            {showOriginals ? <EyeOff size={12} /> : <Eye size={12} />}
+            <span>{showOriginals ? 'Hide originals' : 'Show originals'}</span>
+          </button>
+          <button onClick={onClose} className="text-xs text-gray-600 hover:text-gray-900">
+            Close
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-green-800 mb-3">
+        {redacted.length} of {messages.length} messages contain personal information.
+        Only the placeholders are sent to the API.
+      </p>
+
+      {kinds.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {kinds.map(kind => (
+            <span key={kind} className="px-2 py-1 text-xs rounded bg-white border border-green-200 text-green-800">
+              {KIND_LABELS[kind]}: {map.counters[kind]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {redacted.slice(0, MAX_PREVIEW_MESSAGES).map(msg => (
+          <div key={msg.id} className="bg-white rounded p-3 text-sm text-gray-800 border border-green-100 whitespace-pre-wrap">
+            {splitPlaceholders(msg.text).map((part, idx) =>
+              part.placeholder ? (
+                <span
+                  key={idx}
+                  className="px-1 rounded bg-green-100 text-green-900 font-mono text-xs"
+                  title={restoreText(part.text, map)}
+                >
+                  {showOriginals ? `${part.text} ${restoreText(part.text, map)}` : part.text}
+                </span>
+              ) : (
+                <React.Fragment key={idx}>{part.text}</React.Fragment>
+              )
+            )}
+          </div>
+        ))}
+        {redacted.length === 0 && (
+          <p className="text-sm text-gray-600 text-center py-2">Nothing to redact in the selected conversations</p>
+        )}
+      </div>
+      {redacted.length > MAX_PREVIEW_MESSAGES && (
+        <p className="mt-1 text-xs text-gray-600">
+          Showing {MAX_PREVIEW_MESSAGES} of {redacted.length} redacted messages
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionPreview;
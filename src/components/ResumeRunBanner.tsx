@@ -0,0 +1,44 @@
+import React from 'react';
+import { PlayCircle, Trash2 } from 'lucide-react';
+import { RunCheckpoint } from '../types';
+import { describeCheckpoint } from '../utils/runControl';
+import { formatCost } from '../utils/costEstimator';
+
+interface Props {
+  checkpoint: RunCheckpoint;
+  canResume: boolean;  // Resuming needs a connected provider
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const ResumeRunBanner: React.FC<Props> = ({ checkpoint, canResume, onResume, onDiscard }) => (
+  <div className="mb-6 bg-amber-50 border-2 border-amber-200 rounded-lg p-4 flex items-center justify-between">
+    <div>
+      <p className="font-semibold text-amber-900">{describeCheckpoint(checkpoint)}</p>
+      <p className="text-xs text-amber-800 mt-1">
+        Last saved {new Date(checkpoint.updated_at).toLocaleString()}
+        {checkpoint.usage && ` · ${formatCost(checkpoint.usage.cost_usd)} spent so far`}
+        {!canResume && ' · Connect to a provider below to resume'}
+      </p>
+    </div>
+    <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+      <button
+        onClick={onResume}
+        disabled={!canResume}
+        className="flex items-center space-x-1 px-4 py-2 bg-amber-600 hover:bg-amber-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg"
+      >
+        <PlayCircle size={16} />
+        <span>Resume</span>
+      </button>
+      <button
+        onClick={onDiscard}
+        className="flex items-center space-x-1 px-3 py-2 border border-amber-300 text-amber-900 text-sm rounded-lg hover:bg-amber-100"
+      >
+        <Trash2 size={14} />
+        <span>Discard</span>
+      </button>
+    </div>
+  </div>
+);
+
+export default ResumeRunBanner;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Pause, Square } from 'lucide-react';
+
+interface Props {
+  onPause?: () => void;  // Only runs that checkpoint their batches can be paused
+  onCancel: () => void;
+}
+
+const RunControls: React.FC<Props> = ({ onPause, onCancel }) => (
+  <div className="flex items-center space-x-2">
+    {onPause && (
+      <button
+        onClick={onPause}
+        className="flex items-center space-x-1 px-3 py-1 text-xs border border-blue-300 text-blue-800 rounded-lg hover:bg-blue-100"
+        title="Stop now and resume later from the last finished batch"
+      >
+        <Pause size={12} />
+        <span>Pause</span>
+      </button>
+    )}
+    <button
+      onClick={onCancel}
+      className="flex items-center space-x-1 px-3 py-1 text-xs border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+    >
+      <Square size={12} />
+      <span>Cancel</span>
+    </button>
+  </div>
+);
+
+export default RunControls;
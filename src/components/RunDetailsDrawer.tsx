@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Activity, Download, X } from 'lucide-react';
+import { LLMCallEvent, LLMCallStatus, PipelineStage } from '../types';
+import { STAGE_LABELS, formatCost } from '../utils/costEstimator';
+import { toNDJSON, summarizeTelemetry, filterEvents } from '../utils/telemetry';
+
+interface Props {
+  events: LLMCallEvent[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: { [status in LLMCallStatus]: string } = {
+  ok: 'bg-green-100 text-green-800',
+  cached: 'bg-blue-100 text-blue-800',
+  error: 'bg-red-100 text-red-800',
+  aborted: 'bg-gray-100 text-gray-700',
+  budget_exceeded: 'bg-yellow-100 text-yellow-800'
+};
+
+const STATUSES: LLMCallStatus[] = ['ok', 'cached', 'error', 'aborted', 'budget_exceeded'];
+
+// The drawer lists the newest calls first and caps the list so it stays responsive
+const MAX_LISTED_EVENTS = 300;
+
+const RunDetailsDrawer: React.FC<Props> = ({ events, onClose }) => {
+  const [stage, setStage] = useState<PipelineStage | ''>('');
+  const [status, setStatus] = useState<LLMCallStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const summary = summarizeTelemetry(events);
+  const stages = Array.from(new Set(events.map(event => event.stage)));
+  const filtered = filterEvents(events, { stage: stage || undefined, status: status || undefined });
+  const listed = filtered.slice(-MAX_LISTED_EVENTS).reverse();
+
+  const exportEvents = () => {
+    const blob = new Blob([toNDJSON(filtered)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `llm_calls_${new Date().toISOString().split('T')[0]}.ndjson`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="relative w-full max-w-3xl h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <Activity size={18} className="mr-2" />
+            Run details
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-gray-200 space-y-3">
+          <p className="text-sm text-gray-600">
+            {summary.calls} call{summary.calls === 1 ? '' : 's'}
+            {STATUSES.filter(s => summary.byStatus[s]).map(s => ` · ${summary.byStatus[s]} ${s.replace('_', ' ')}`).join('')}
+            {summary.retries > 0 && ` · ${summary.retries} retries`}
+            {summary.invalidResponses > 0 && ` · ${summary.invalidResponses} invalid responses`}
+            {summary.avgLatencyMs !== null && ` · avg latency ${(summary.avgLatencyMs / 1000).toFixed(1)}s`}
+          </p>
+          <div className="flex items-center space-x-2">
+            <select
+              value={stage}
+              onChange={(e) => setStage(e.target.value as PipelineStage | '')}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">All stages</option>
+              {stages.map(s => (
+                <option key={s} value={s}>{STAGE_LABELS[s]}</option>
+              ))}
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as LLMCallStatus | '')}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">All statuses</option>
+              {STATUSES.map(s => (
+                <option key={s} value={s}>{s.replace('_', ' ')}</option>
+              ))}
+            </select>
+            <button
+              onClick={exportEvents}
+              disabled={filtered.length === 0}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              title="One JSON object per call - the calls shown by the filters"
+            >
+              <Download size={14} />
+              <span>Export NDJSON</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {listed.length === 0 ? (
+            <p className="p-5 text-sm text-gray-500">No LLM calls recorded for this run yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="text-left px-3 py-2">Time</th>
+                  <th className="text-left px-3 py-2">Stage</th>
+                  <th className="text-left px-3 py-2">Status</th>
+                  <th className="text-right px-3 py-2">Prompt</th>
+                  <th className="text-right px-3 py-2">Tokens in/out</th>
+                  <th className="text-right px-3 py-2">Latency</th>
+                  <th className="text-right px-3 py-2">Retries</th>
+                  <th className="text-left px-3 py-2">Parse</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listed.map(event => (
+                  <React.Fragment key={event.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                      className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-3 py-2 text-gray-500">{new Date(event.started_at).toLocaleTimeString()}</td>
+                      <td className="px-3 py-2">
+                        {STAGE_LABELS[event.stage]}
+                        {event.batch !== undefined && <span className="text-gray-500"> #{event.batch}</span>}
+                        {event.reprompt && <span className="text-orange-600"> (re-prompt)</span>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded ${STATUS_STYLES[event.status]}`}>
+                          {event.status.replace('_', ' ')}{event.status === 'error' && event.http_status !== undefined && ` ${event.http_status}`}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right">~{event.prompt_tokens_estimate.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right">
+                        {event.input_tokens !== undefined ? `${event.input_tokens.toLocaleString()}/${(event.output_tokens || 0).toLocaleString()}` : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right">{event.status === 'cached' ? '-' : `${(event.latency_ms / 1000).toFixed(1)}s`}</td>
+                      <td className="px-3 py-2 text-right">{event.retries}</td>
+                      <td className={`px-3 py-2 ${event.parse === 'invalid' ? 'text-red-700' : 'text-gray-600'}`}>
+                        {event.parse.replace('_', ' ')}
+                      </td>
+                    </tr>
+                    {expandedId === event.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={8} className="px-3 py-2 text-gray-700 space-y-1">
+                          <p>
+                            {event.provider} · <span className="font-mono">{event.model}</span> · max {event.max_tokens} tokens
+                            · {event.prompt_chars.toLocaleString()} prompt chars · {(event.duration_ms / 1000).toFixed(1)}s total
+                            {event.cost_usd !== undefined && ` · ${formatCost(event.cost_usd)}`}
+                          </p>
+                          {event.error && <p className="text-red-700">Error: {event.error}</p>}
+                          {event.retried_statuses && event.retried_statuses.length > 0 && (
+                            <p className="text-orange-700">
+                              {event.status === 'ok' ? 'Succeeded' : 'Ended'} after {event.retries} retries; retried on HTTP {event.retried_statuses.join(', ')}
+                            </p>
+                          )}
+                          {event.parse_error && <p className="text-red-700">Validation: {event.parse_error}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {filtered.length > MAX_LISTED_EVENTS && (
+            <p className="p-3 text-xs text-gray-500">
+              Showing the latest {MAX_LISTED_EVENTS} of {filtered.length} calls - export to see them all.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunDetailsDrawer;
@@ -6,25 +6,134 @@
 // ============================================================================
 
 export interface ParsedMessage {
-  id: string;
+  id: string;  // Stable: source conversation id + node id + text hash (see utils/hash.ts)
   text: string;
   timestamp: number;
   conversationId: number;
   conversationTitle: string;
+  revisionHistory?: MessageRevision[];  // Earlier edits of this turn, oldest first (includeRevisions only)
+  originalText?: string;        // Full text as sent, when pasted content was stripped from `text`
+  segments?: MessageSegment[];  // Authored/pasted breakdown, when pasted content was found
+  heuristic?: HeuristicVerdict;  // Why Stage 1 kept or dropped this message
+  llmVerdict?: LLMRelevanceVerdict;  // Stage 2 verdict, when the message was sent for confirmation
+  language?: LanguageCode;  // Detected locally at parse time (utils/languageDetection.ts)
+  redactionCount?: number;  // Values replaced with placeholders before any LLM call
+}
+
+// ISO 639-1 codes for the languages we detect; 'und' = undetermined
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'und';
+
+export interface LanguageScores {
+  language: LanguageCode;
+  messages: number;
+  avg_grammar_score: number;
+  avg_punctuation_score: number;
+  avg_tone_score: number;
+}
+
+// Part of a user message - either written by the user or pasted in
+export type PastedReason = 'code_block' | 'quoted_block' | 'long_passage' | 'instruction_payload' | 'assistant_output';
+
+export interface MessageSegment {
+  kind: 'authored' | 'pasted';
+  text: string;
+  reason?: PastedReason;  // Pasted segments only
+}
+
+// An abandoned draft of a user turn (the user edited and resubmitted it)
+export interface MessageRevision {
+  id: string;
+  text: string;
+  timestamp: number;
+}
+
+// ============================================================================
+// Heuristic Filter Types (Stage 1)
+// ============================================================================
+
+// A weighted group of terms - positive weights signal writing, negative signal non-writing
+export interface HeuristicRule {
+  id: string;
+  label: string;
+  terms: string[];  // Matched case-insensitively on word boundaries; multi-word terms allowed
+  weight: number;
+  enabled: boolean;
+}
+
+export interface HeuristicRuleSet {
+  name: string;
+  minWords: number;        // Shorter messages are dropped before any rule runs
+  keepThreshold: number;   // Score at or above this keeps the message
+  dropThreshold: number;   // Score at or below this drops it
+  keepProse: boolean;      // Between thresholds, keep messages that look like prose
+  rules: HeuristicRule[];
+}
+
+export type HeuristicReason = 'too_short' | 'writing_signals' | 'non_writing_signals' | 'looks_like_prose' | 'no_signals';
+
+export interface HeuristicVerdict {
+  kept: boolean;
+  reason: HeuristicReason;
+  score: number;
+  matchedRules: string[];  // Rule ids
+  matchedTerms: string[];
+}
+
+// Stage 2 verdict - 'unknown' when the batch failed and the message was kept by default
+export type LLMRelevanceVerdict = 'relevant' | 'not_relevant' | 'unknown';
+
+// User overrides of the filter decision, keyed by stable message id
+export type FilterOverride = 'include' | 'exclude';
+
+export interface FilterOverrides {
+  [messageId: string]: FilterOverride;
+}
+
+// Stage 1 audit summary, stored with each analysis
+export interface HeuristicStats {
+  rule_set: string;
+  total: number;
+  kept: number;
+  by_reason: { [reason in HeuristicReason]?: number };
+  rule_hits: { [ruleId: string]: number };
+}
+
+// ============================================================================
+// Privacy Redaction Types
+// ============================================================================
+
+export type RedactionKind = 'email' | 'phone' | 'address' | 'name' | 'secret' | 'card';
+
+// Placeholder <-> original mapping; kept locally, never sent to the API
+export interface RedactionMap {
+  placeholders: { [placeholder: string]: string };  // "[EMAIL_1]" -> original value
+  counters: { [kind in RedactionKind]?: number };   // Last number used per kind
+}
+
+// Self-correction summary across parsed messages
+export interface RevisionStats {
+  messages_with_revisions: number;
+  total_revisions: number;
 }
 
 export interface Message {
   id: string;
   text: string;
+  language?: LanguageCode;
 }
 
 export interface ParseOptions {
   startConversation?: number;  // 1-indexed
   endConversation?: number;    // 1-indexed (inclusive)
+  selection?: ConversationSelection;  // Takes precedence over start/endConversation
   afterTimestamp?: number;     // Unix timestamp
+  includeRevisions?: boolean;  // Attach earlier edits of each message as revisionHistory
+  excludeMessageIds?: string[];  // Stable IDs to skip (e.g. BaselineMetadata.message_ids_evaluated)
+  keepPastedContent?: boolean;   // Skip segmentation and evaluate messages verbatim
 }
 
 export interface ChatLogMetadata {
+  format?: ImportFormat;
   totalConversations: number;
   estimatedMessages: number;
   dateRange: { 
@@ -34,9 +143,79 @@ export interface ChatLogMetadata {
     latestTimestamp: number;
   };
   conversationTitles: string[];
+  conversations: ConversationSummary[];  // Same order as conversationTitles
   sampleMessages: number;
 }
 
+// Per-conversation overview used to preview and hand-pick selections
+export interface ConversationSummary {
+  id: string;                // Source conversation id (stable across exports)
+  title: string;
+  messageCount: number;
+  earliestTimestamp: number; // Unix timestamp (seconds), 0 if unknown
+  latestTimestamp: number;
+}
+
+// How conversations were chosen for a run - position ranges break when an
+// export is reordered, so date, title and id based selections are also supported
+export type ConversationSelectionMode = 'range' | 'dateRange' | 'title' | 'manual';
+
+export interface ConversationSelection {
+  mode: ConversationSelectionMode;
+  range?: { start: number; end: number };       // 1-indexed, inclusive
+  dateRange?: { from?: string; to?: string };   // Calendar dates (YYYY-MM-DD), inclusive
+  titlePattern?: string;                        // Case-insensitive regex
+  conversationIds?: string[];                   // Hand-picked source conversation ids
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+export type ImportFormat = 'openai' | 'claude' | 'documents';
+
+// Format-agnostic view of one exported conversation, produced by an importer
+export interface ImportedMessage {
+  id: string;          // Source message/node id
+  text: string;
+  timestamp: number;   // Unix timestamp (seconds)
+  revisions?: MessageRevision[];  // Earlier edits of this turn that were abandoned, oldest first
+}
+
+export interface ImportedConversation {
+  id: string;          // Source conversation id
+  title: string;
+  createTime: number;  // Unix timestamp (seconds)
+  messages: ImportedMessage[];  // User-authored messages only
+  assistantParagraphHashes?: string[];  // Paragraph hashes of assistant replies, to spot pasted-back output
+  isUserDocument?: boolean;  // Uploaded document - all of it is the user's own writing
+}
+
+// Parsed, normalized upload - built once per file set and cached
+export interface ImportedIndex {
+  format: ImportFormat;
+  conversations: ImportedConversation[];
+  metadata: ChatLogMetadata;
+}
+
+// Messages exchanged with the import Web Worker
+export interface ImportWorkerRequest {
+  files: File[];
+}
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; status: string; current: number; total: number }
+  | { type: 'done'; index: ImportedIndex }
+  | { type: 'error'; message: string };
+
+// Pluggable importer for one chat export format
+export interface ChatExportImporter {
+  format: ImportFormat;
+  label: string;
+  detect: (conversation: any) => boolean;  // Does this exported conversation look like our format?
+  normalize: (conversation: any) => ImportedConversation;  // IDs must not depend on the conversation's position
+}
+
 // ============================================================================
 // Evaluation & Analysis Types
 // ============================================================================
@@ -50,6 +229,23 @@ export interface EvaluationResult {
   grammar_issues: string[];
   punctuation_issues: string[];
   tone_issues: string[];
+  annotations?: IssueAnnotation[];  // Issues located in text - absent on results from before annotations existed
+  language?: LanguageCode;
+  unevaluated?: boolean;  // The API failed for this message even after retries - scores are 0, not real
+  evaluation_error?: string;  // Why, when unevaluated
+}
+
+export type IssueCategory = 'grammar' | 'punctuation' | 'tone';
+
+// One issue pinned to the span of EvaluationResult.text it is about
+// Offsets are UTF-16 indices (as String.prototype.slice uses), end exclusive
+export interface IssueAnnotation {
+  category: IssueCategory;
+  issue: string;       // Short description, as in the category's issue list
+  quote: string;       // Exactly text.slice(start, end)
+  start: number;
+  end: number;
+  suggestion: string;  // Replacement for the quote ('' = delete it)
 }
 
 export interface Issue {
@@ -57,6 +253,7 @@ export interface Issue {
   frequency: number;
   severity: 'low' | 'medium' | 'high';
   recommendation: string;
+  language?: LanguageCode;  // Set when the issue is specific to one language
 }
 
 // Extended Analysis with metadata for tracking evaluated conversations
@@ -67,19 +264,26 @@ export interface Analysis {
     avg_punctuation_score: number;
     avg_tone_score: number;
     overall_assessment: string;
+    unevaluated_messages?: number;  // Messages left out because the API failed for them
   };
   top_grammar_issues: Issue[];
   top_punctuation_issues: Issue[];
   top_tone_issues: Issue[];
+  language_scores?: LanguageScores[];  // Per-language averages, most-written language first
   // Metadata for tracking what was evaluated (for re-evaluation deduplication)
   metadata?: {
     evaluation_date: string;
     conversations_range: {
-      start: number;  // 1-indexed
-      end: number;    // 1-indexed (inclusive)
+      start: number;  // 1-indexed - first selected conversation
+      end: number;    // 1-indexed (inclusive) - last selected conversation
     };
     total_conversations_evaluated: number;
     messages_evaluated: number;
+    revision_stats?: RevisionStats;  // Only when revision history was included
+    heuristic_stats?: HeuristicStats;  // Stage 1 keep/drop reasons and rule hits
+    selection?: ConversationSelection;  // The selection actually used for this run
+    usage?: RunUsage;  // Tokens and cost the run actually used
+    stage_models?: StageModels;  // Model behind each stage, so runs with different models can be told apart
   };
 }
 
@@ -180,11 +384,267 @@ export interface BaselineMetadata {
   total_messages_evaluated: number;
   earliest_message_timestamp: number;
   latest_message_timestamp: number;
-  message_ids_evaluated: string[];
-  cost_estimate: number;
+  message_ids_evaluated: string[];  // Stable IDs of every message the baseline run parsed
+  cost_estimate: number;  // Actual API cost in USD, from the token usage the API reported
   conversations_evaluated: number;
 }
 
+// ============================================================================
+// Structured Output Types
+// ============================================================================
+
+// The subset of JSON Schema the stage schemas use
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: { [key: string]: JSONSchema };
+  required?: string[];
+  items?: JSONSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// A named response shape - sent as a forced tool (Anthropic) or a json_schema response format (OpenAI)
+export interface StructuredOutputSchema {
+  name: string;
+  description: string;
+  schema: JSONSchema;  // Always an object at the top level
+}
+
+// A response shape plus its runtime validator, which throws a ValidationError naming the field path
+export interface StructuredOutput<T> extends StructuredOutputSchema {
+  validate: (value: unknown) => T;
+}
+
+// One message's scores as returned by the evaluation stage
+export interface EvaluationPayload {
+  message_number: number;
+  grammar_score: number;
+  punctuation_score: number;
+  tone_score: number;
+  grammar_issues: string[];
+  punctuation_issues: string[];
+  tone_issues: string[];
+  annotations: AnnotationPayload[];
+}
+
+// An issue as the model reports it - located in the message text afterwards, since models can't count characters
+export interface AnnotationPayload {
+  category: IssueCategory;
+  issue: string;
+  quote: string;
+  suggestion: string;
+}
+
+// One answer's grade as returned by the grading stage
+export interface GradePayload {
+  question_number: number;
+  is_correct: boolean;
+  feedback: string;
+}
+
+// ============================================================================
+// LLM Provider Types
+// ============================================================================
+
+export type LLMProviderKind = 'anthropic' | 'anthropic-proxy' | 'openai-compatible' | 'mock';
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  apiKey?: string;   // For the local proxy, the user's proxy token - the Anthropic key stays on the server
+  baseUrl?: string;  // OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama, or the local proxy
+  model?: string;    // Defaults to the provider's own default model
+}
+
+export interface LLMRequest {
+  prompt: string;
+  maxTokens: number;
+  stage: PipelineStage;  // Lets providers (and the mock) know which prompt this is
+  model?: string;        // Per-stage override of the provider's model
+  signal?: AbortSignal;  // Pausing or cancelling the run aborts the request
+  schema?: StructuredOutputSchema;  // Ask for JSON of this shape instead of free text
+}
+
+// Per-stage overrides - unset fields fall back to the provider's model and the stage's default max tokens
+export interface StageModelSetting {
+  model?: string;
+  maxTokens?: number;
+}
+
+export type StageModelSettings = { [stage in PipelineStage]?: StageModelSetting };
+
+// Model actually used by each stage of a run
+export type StageModels = { [stage in PipelineStage]?: string };
+
+export interface LLMResponse {
+  text: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+  status?: number;            // HTTP status, for providers that call a server
+  rateLimit?: RateLimitInfo;  // From the response headers, when the server sends them
+}
+
+// The account's rate limits as reported by the server after a response
+export interface RateLimitInfo {
+  requestsLimit?: number;      // Requests allowed per minute
+  requestsRemaining?: number;
+  requestsResetAt?: number;    // Epoch ms when the request allowance refills
+  tokensLimit?: number;        // Tokens allowed per minute
+  tokensRemaining?: number;
+  tokensResetAt?: number;      // Epoch ms when the token allowance refills
+}
+
+// Snapshot of the rate limiter for the processing screen
+export interface RateLimiterState {
+  requestsPerMinute: number | null;  // Current pace; null = not limited
+  ceiling: number | null;            // User's cap on the pace
+  adaptive: boolean;                 // Pace comes from the server's headers, not the provider default
+  requestsInLastMinute: number;
+  queueDepth: number;                // Requests waiting for a slot
+  nextSlotAt: number | null;         // Epoch ms when the next waiting request may go
+  requestsRemaining?: number;
+  tokensRemaining?: number;
+}
+
+// Where each batch of a batched stage stands - 'failed' batches finished without usable results
+export type BatchState = 'queued' | 'running' | 'done' | 'failed';
+
+// Everything the pipeline needs from a model backend
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  label: string;
+  model: string;
+  requestsPerMinute: number | null;  // Starting rate limit until the server reports one; null for local/offline providers
+  complete: (request: LLMRequest) => Promise<LLMResponse>;
+}
+
+// ============================================================================
+// Cost & Usage Types
+// ============================================================================
+
+// Pipeline steps that call the API - estimates and usage are broken down by these
+export type PipelineStage = 'relevance' | 'evaluation' | 'patterns' | 'questions' | 'grading' | 'comparison' | 'other';
+
+export interface TokenUsage {
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface StageCostEstimate extends TokenUsage {
+  stage: PipelineStage;
+}
+
+export interface CostEstimate {
+  model: string;
+  stages: StageCostEstimate[];
+  total: TokenUsage;
+}
+
+// Actual usage of one run, as reported in each API response's `usage` field
+export interface RunUsage extends TokenUsage {
+  model: string;
+  by_stage: { [stage in PipelineStage]?: TokenUsage };
+  stage_models: StageModels;
+  estimated_cost_usd?: number;  // Pre-run estimate, to compare against
+  budget_usd?: number;          // Cap the run was held to
+  budget_exceeded?: boolean;    // Run was stopped by the cap
+  cache_hits?: number;          // Requests answered from the response cache (not in requests or cost)
+  cache_misses?: number;
+  cache_saved_usd?: number;     // What the cached requests cost when they were first made
+}
+
+// ============================================================================
+// Response Cache Types
+// ============================================================================
+
+export interface ResponseCacheSettings {
+  bypass: boolean;   // Always call the API - fresh responses still replace cached ones
+  ttlDays: number;   // Cached responses older than this are ignored and pruned
+}
+
+// One stored response, keyed by model, max tokens and prompt hash
+export interface CachedResponse {
+  key: string;
+  model: string;
+  max_tokens: number;
+  stage: PipelineStage;
+  text: string;
+  usage?: { input_tokens: number; output_tokens: number };
+  created_at: number;  // Epoch ms
+}
+
+// ============================================================================
+// Telemetry Types
+// ============================================================================
+
+// 'cached' = answered from the response cache; 'aborted' = paused or cancelled
+export type LLMCallStatus = 'ok' | 'cached' | 'error' | 'aborted' | 'budget_exceeded';
+
+// Whether the response matched its schema - 'not_checked' for free-text calls
+export type LLMParseOutcome = 'valid' | 'invalid' | 'not_checked';
+
+// One callClaude call, recorded for the run details drawer and the NDJSON export
+export interface LLMCallEvent {
+  id: string;
+  started_at: number;       // Epoch ms
+  stage: PipelineStage;
+  batch?: number;           // 1-based batch number within a batched stage
+  provider: string;
+  model: string;
+  max_tokens: number;
+  prompt_chars: number;
+  prompt_tokens_estimate: number;
+  status: LLMCallStatus;
+  http_status?: number;     // Status of the final attempt; 0 when the server could not be reached
+  error?: string;
+  retries: number;          // Attempts after the first
+  retried_statuses?: number[];  // Status of each failed attempt that was retried, oldest first
+  latency_ms: number;       // Last attempt only
+  duration_ms: number;      // Whole call, including rate-limit waits and retry backoff
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
+  parse: LLMParseOutcome;
+  parse_error?: string;     // Field path and problem when the response failed validation
+  reprompt: boolean;        // Sent again after the previous response failed validation
+}
+
+// ============================================================================
+// Run Checkpoint Types
+// ============================================================================
+
+// Where an unfinished run stopped: 'review' = baseline waiting on the filter review
+export type RunCheckpointStage = 'relevance' | 'review' | 'evaluation';
+
+// Saved after every finished batch so a paused or crashed run resumes where it left off
+export interface RunCheckpoint {
+  kind: 'baseline' | 'reevaluation';
+  stage: RunCheckpointStage;
+  status: 'running' | 'paused';  // Still 'running' after a reload means the tab closed mid-run
+  messages: ParsedMessage[];     // Parsed and redacted - resuming doesn't need the files again
+  relevanceIds: string[];        // Messages Stage 2 has to check
+  verdicts: { [messageId: string]: LLMRelevanceVerdict };  // Finished Stage 2 batches
+  evaluationIds: string[];       // Messages Stage 3 has to evaluate (set when evaluation starts)
+  evaluations: EvaluationResult[];  // Finished Stage 3 batches
+  usage?: RunUsage;              // Spent so far, so the budget covers the whole run
+  estimated_cost_usd: number;
+  selection: ConversationSelection;
+  conversationsEvaluated: number;
+  conversationsRange: { start: number; end: number };
+  heuristicStats: HeuristicStats;
+  revisionStats?: RevisionStats;
+  practicePerformance?: PracticePerformanceSummary;  // Re-evaluation only
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================================
 // App State & Navigation Types
 // ============================================================================
@@ -194,11 +654,16 @@ export type ViewType = 'setup' | 'evaluation' | 'practice' | 'dashboard' | 'reev
 export interface AppState {
   // Current navigation
   currentView: ViewType;
+  completedSteps: ViewType[];
   
   // Step 1: Initial Evaluation
   baselineAnalysis?: Analysis;
   baselineEvaluations?: EvaluationResult[];
   baselineMetadata?: BaselineMetadata;
+  filterOverrides?: FilterOverrides;  // Forced include/exclude decisions, reused by later runs
+  redactionMap?: RedactionMap;        // Shared by all runs so placeholders stay stable
+  redactionTerms?: string[];          // Extra names/terms this learner wants redacted
+  budgetUsd?: number;                 // Spending cap per run, in USD
   
   // Step 2: Practice Sessions
   practiceSessions: PracticeSession[];
@@ -214,6 +679,38 @@ export interface AppState {
   last_updated: string;
 }
 
+// ============================================================================
+// Learner Profile Types
+// ============================================================================
+
+export interface ProfileHistoryEntry {
+  id: string;
+  date: string;
+  type: 'baseline' | 'practice' | 'reevaluation';
+  summary: string;
+}
+
+// Coaches run the workflow for several students - each profile owns its own state
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  apiKeyRef?: string;  // Masked hint of the key last validated for this learner (never the key itself)
+  state: AppState;
+  history: ProfileHistoryEntry[];
+  created_at: string;
+  last_updated: string;
+}
+
+export interface Workspace {
+  activeProfileId: string;
+  profiles: LearnerProfile[];
+  heuristicRuleSet?: HeuristicRuleSet;  // Custom Stage 1 rules; defaults apply when unset
+  stageModelSettings?: StageModelSettings;  // Per-stage model and max-token overrides
+  rateLimitCeiling?: number;  // Most requests per minute to send, whatever the server allows
+  batchConcurrency?: number;  // Batches sent at once; the default applies when unset
+  responseCache?: ResponseCacheSettings;
+}
+
 // ============================================================================
 // Learning Plan Types (for future use)
 // ============================================================================
@@ -0,0 +1,91 @@
+import { isAnchored, locateAnnotations, segmentAnnotatedText } from './annotations';
+import { AnnotationPayload, IssueAnnotation } from '../types';
+
+const payload = (quote: string, issue = `issue with ${quote}`): AnnotationPayload => ({
+  category: 'grammar',
+  issue,
+  quote,
+  suggestion: 'fix'
+});
+
+const annotation = (quote: string, start: number): IssueAnnotation => ({
+  ...payload(quote),
+  start,
+  end: start + quote.length
+});
+
+describe('locateAnnotations', () => {
+  test('finds each quote in the text', () => {
+    const text = 'Me and him goes there.';
+    const { annotations, unlocated } = locateAnnotations(text, [payload('goes'), payload('Me and him')]);
+    expect(unlocated).toEqual([]);
+    expect(annotations.map(a => [a.quote, a.start, a.end])).toEqual([
+      ['Me and him', 0, 10],
+      ['goes', 11, 15]
+    ]);
+  });
+
+  test('prefers whole words over matches inside a longer word', () => {
+    const { annotations } = locateAnnotations('I think i am right.', [payload('i')]);
+    expect(annotations[0].start).toBe(8);
+  });
+
+  test('gives a repeated quote a different occurrence each time', () => {
+    const text = 'i said i would go';
+    const { annotations } = locateAnnotations(text, [payload('i', 'first'), payload('i', 'second')]);
+    expect(annotations.map(a => a.start)).toEqual([0, 7]);
+  });
+
+  test('falls back to the trimmed quote', () => {
+    const { annotations } = locateAnnotations('Send it tommorow.', [payload(' tommorow ')]);
+    expect(annotations[0]).toMatchObject({ quote: 'tommorow', start: 8, end: 16 });
+  });
+
+  test('returns quotes not in the text as unlocated', () => {
+    const missing = payload('not here');
+    const { annotations, unlocated } = locateAnnotations('Some text.', [missing]);
+    expect(annotations).toEqual([]);
+    expect(unlocated).toEqual([missing]);
+  });
+
+  test('returns a repeat beyond the available occurrences as unlocated', () => {
+    const { annotations, unlocated } = locateAnnotations('only once', [payload('once', 'a'), payload('once', 'b')]);
+    expect(annotations).toHaveLength(1);
+    expect(unlocated.map(p => p.issue)).toEqual(['b']);
+  });
+});
+
+describe('isAnchored', () => {
+  test('checks the span still holds the quote', () => {
+    expect(isAnchored('hello world', annotation('world', 6))).toBe(true);
+    expect(isAnchored('hello there', annotation('world', 6))).toBe(false);
+    expect(isAnchored('hello world', { ...annotation('world', 6), start: -1 })).toBe(false);
+  });
+});
+
+describe('segmentAnnotatedText', () => {
+  test('splits text at annotation boundaries and keeps every character', () => {
+    const text = 'She go to school';
+    const segments = segmentAnnotatedText(text, [annotation('go', 4)]);
+    expect(segments.map(s => [s.text, s.start, s.annotations.length])).toEqual([
+      ['She ', 0, 0],
+      ['go', 4, 1],
+      [' to school', 6, 0]
+    ]);
+    expect(segments.map(s => s.text).join('')).toBe(text);
+  });
+
+  test('marks overlapping spans with every annotation covering them', () => {
+    const segments = segmentAnnotatedText('a b c', [annotation('a b', 0), annotation('b c', 2)]);
+    expect(segments.map(s => [s.text, s.annotations.map(a => a.quote)])).toEqual([
+      ['a ', ['a b']],
+      ['b', ['a b', 'b c']],
+      [' c', ['b c']]
+    ]);
+  });
+
+  test('ignores annotations that no longer match the text', () => {
+    const segments = segmentAnnotatedText('edited text', [annotation('old', 0)]);
+    expect(segments).toEqual([{ text: 'edited text', start: 0, annotations: [] }]);
+  });
+});
@@ -0,0 +1,109 @@
+// Span-level issue annotations
+// The evaluation stage quotes the words each issue is about. Models can't count
+// characters reliably, so offsets are never taken from the response: every quote
+// is looked up in the message text here, and quotes that aren't there are dropped.
+
+import { AnnotationPayload, IssueAnnotation } from '../types';
+
+export interface AnnotatedSegment {
+  text: string;
+  start: number;
+  annotations: IssueAnnotation[];  // Empty for plain text; several when spans overlap
+}
+
+/**
+ * Offsets of every occurrence of quote in text
+ */
+function findOccurrences(text: string, quote: string): number[] {
+  const starts: number[] = [];
+  let index = text.indexOf(quote);
+  while (index !== -1) {
+    starts.push(index);
+    index = text.indexOf(quote, index + 1);
+  }
+  return starts;
+}
+
+/**
+ * Whether the occurrence starts and ends on word boundaries, so a quoted "i" isn't found inside "think"
+ */
+function isWholeWord(text: string, start: number, end: number): boolean {
+  const wordChar = /[\p{L}\p{N}_]/u;
+  const cutsWord = (inside: string, outside: string | undefined) =>
+    !!outside && wordChar.test(inside) && wordChar.test(outside);
+  return !cutsWord(text[start], text[start - 1]) && !cutsWord(text[end - 1], text[end]);
+}
+
+/**
+ * Place each reported issue on its span of text
+ * A quote that appears more than once goes to the first occurrence no earlier issue
+ * with the same quote took, so "i ... i" flagged twice marks both; whole-word
+ * occurrences come first. Quotes not found (after trimming) are returned as
+ * unlocated instead of being guessed at.
+ */
+export function locateAnnotations(
+  text: string,
+  payloads: AnnotationPayload[]
+): { annotations: IssueAnnotation[]; unlocated: AnnotationPayload[] } {
+  const annotations: IssueAnnotation[] = [];
+  const unlocated: AnnotationPayload[] = [];
+  const taken = new Set<string>();
+
+  payloads.forEach(payload => {
+    const candidates = [payload.quote, payload.quote.trim()].filter(Boolean);
+    for (const quote of candidates) {
+      const free = findOccurrences(text, quote).filter(offset => !taken.has(`${offset}:${quote}`));
+      const start = free.find(offset => isWholeWord(text, offset, offset + quote.length)) ?? free[0];
+      if (start !== undefined) {
+        taken.add(`${start}:${quote}`);
+        annotations.push({
+          category: payload.category,
+          issue: payload.issue,
+          quote,
+          start,
+          end: start + quote.length,
+          suggestion: payload.suggestion
+        });
+        return;
+      }
+    }
+    unlocated.push(payload);
+  });
+
+  annotations.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { annotations, unlocated };
+}
+
+/**
+ * Whether an annotation still points at its quote in text
+ */
+export function isAnchored(text: string, annotation: IssueAnnotation): boolean {
+  return annotation.start >= 0
+    && annotation.end > annotation.start
+    && text.slice(annotation.start, annotation.end) === annotation.quote;
+}
+
+/**
+ * Split text at every annotation boundary, for highlighting
+ * Annotations that no longer match the text are ignored
+ */
+export function segmentAnnotatedText(text: string, annotations: IssueAnnotation[]): AnnotatedSegment[] {
+  const anchored = annotations.filter(annotation => isAnchored(text, annotation));
+  const boundaries = Array.from(new Set([
+    0,
+    text.length,
+    ...anchored.flatMap(annotation => [annotation.start, annotation.end])
+  ])).sort((a, b) => a - b);
+
+  const segments: AnnotatedSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    segments.push({
+      text: text.slice(start, end),
+      start,
+      annotations: anchored.filter(annotation => annotation.start < end && annotation.end > start)
+    });
+  }
+  return segments;
+}
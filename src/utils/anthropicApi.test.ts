@@ -0,0 +1,115 @@
+import { AnthropicAPI } from './anthropicApi';
+import { LLMProvider, LLMRequest, LLMResponse, PracticeQuestion } from '../types';
+import { LLMRequestError } from './providers/http';
+
+const question = (id: string, correctAnswer: string): PracticeQuestion => ({
+  question_id: id,
+  issue_type: 'grammar',
+  specific_issue: `issue ${id}`,
+  question_format: 'writing_prompt',
+  question_text: `Write a sentence for ${id}`,
+  correct_answer: correctAnswer,
+  explanation: 'Because.'
+});
+
+// Answers every grading prompt with fixed grades, in whatever order they are given
+function providerReturning(grades: object[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    kind: 'mock',
+    label: 'Test',
+    model: 'mock-writing-tutor',
+    requestsPerMinute: null,
+    prompts,
+    complete: async ({ prompt }: LLMRequest) => {
+      prompts.push(prompt);
+      return { text: JSON.stringify({ grades }) };
+    }
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('gradePracticeSession', () => {
+  test('matches LLM grades to questions by question number, not position', async () => {
+    const provider = providerReturning([
+      { question_number: 2, is_correct: false, feedback: 'second' },
+      { question_number: 1, is_correct: true, feedback: 'first' }
+    ]);
+    const api = new AnthropicAPI(provider);
+    const questions = [
+      question('q1', 'The team has finished the report.'),
+      // Answered correctly without the LLM, so the LLM only sees q1 and q3
+      { ...question('q2', 'B) were'), question_format: 'multiple_choice' as const, options: ['A) was', 'B) were'] },
+      question('q3', 'She and I reviewed the draft yesterday.')
+    ];
+
+    const results = await api.gradePracticeSession(questions, {
+      q1: 'Our group completed it',
+      q2: 'B',
+      q3: 'Me and her looked'
+    });
+
+    expect(provider.prompts[0]).toContain('---QUESTION 1---\nIssue Focus: issue q1');
+    expect(provider.prompts[0]).toContain('---QUESTION 2---\nIssue Focus: issue q3');
+    expect(results.map(r => [r.question, r.correct, r.feedback])).toEqual([
+      [1, true, 'first'],
+      [2, true, 'Correct! '],
+      [3, false, 'second']
+    ]);
+  });
+});
+
+describe('call telemetry', () => {
+  // Fails with each status in turn, then succeeds
+  const providerFailingWith = (statuses: number[]): LLMProvider => {
+    let calls = 0;
+    return {
+      kind: 'anthropic',
+      label: 'Test',
+      model: 'claude-sonnet-4-5',
+      requestsPerMinute: null,
+      complete: async (): Promise<LLMResponse> => {
+        const status = statuses[calls++];
+        if (status !== undefined) throw new LLMRequestError(`API Error ${status}`, status);
+        return { text: 'done', status: 200, usage: { input_tokens: 10, output_tokens: 5 } };
+      }
+    };
+  };
+  const retryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+  test('records the final status of a call that succeeded after retries, and what was retried', async () => {
+    const api = new AnthropicAPI(providerFailingWith([529, 429]));
+    await api.callClaude('Classify these', 100, undefined, 'relevance', { retryOptions });
+
+    expect(api.getTelemetry()).toEqual([
+      expect.objectContaining({ status: 'ok', http_status: 200, retries: 2, retried_statuses: [529, 429] })
+    ]);
+  });
+
+  test('records the status of the attempt that failed the call', async () => {
+    const api = new AnthropicAPI(providerFailingWith([503, 503, 500]));
+    await expect(api.callClaude('Classify these', 100, undefined, 'relevance', { retryOptions })).rejects.toThrow('API Error 500');
+
+    expect(api.getTelemetry()).toEqual([
+      expect.objectContaining({ status: 'error', http_status: 500, retries: 2, retried_statuses: [503, 503] })
+    ]);
+  });
+
+  test('leaves out the retry history when the first attempt succeeds', async () => {
+    const api = new AnthropicAPI(providerFailingWith([]));
+    await api.callClaude('Classify these', 100, undefined, 'relevance', { retryOptions });
+
+    const [event] = api.getTelemetry();
+    expect(event).toMatchObject({ status: 'ok', http_status: 200, retries: 0 });
+    expect(event.retried_statuses).toBeUndefined();
+  });
+});
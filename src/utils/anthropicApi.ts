@@ -1,119 +1,225 @@
-// Anthropic API wrapper for browser-based calls
-// Uses Claude Haiku 4.5 for cost-effective, fast responses
+// LLM pipeline for browser-based calls - prompts, batching and response parsing
+// The model backend is an LLMProvider (Anthropic by default, see ./providers)
 // 
 // CORRECTED VERSION - Properly maps message IDs through evaluation pipeline
 // Following reference implementation: writing_evaluation.py
 
-export interface GradingResult {
-  question: number;
-  issue: string;
-  correct: boolean;
-  feedback: string;
-  correct_answer: string;
-  explanation: string;
-  grading_method: 'programmatic' | 'similarity' | 'llm';
-}
+import {
+  GradingResult,
+  PracticeQuestion,
+  Message,
+  EvaluationResult,
+  Issue,
+  Analysis,
+  LLMRelevanceVerdict,
+  PipelineStage,
+  RunUsage,
+  LLMProvider,
+  StageModelSettings,
+  StageModels,
+  RateLimiterState,
+  BatchState,
+  ResponseCacheSettings,
+  StructuredOutput,
+  StructuredOutputSchema,
+  LLMCallEvent
+} from '../types';
+import { getLanguageName, summarizeScoresByLanguage, LANGUAGE_NAMES } from './languageDetection';
+import { createProvider } from './providers';
+import { resolveStageSetting, resolveStageModels } from './modelSettings';
+import { withRetry, RetryOptions, DEFAULT_RETRY_OPTIONS } from './retry';
+import { AdaptiveRateLimiter } from './rateLimiter';
+import { LLMRequestError } from './providers/http';
+import { RunAbortedError, throwIfAborted } from './runControl';
+import { runWorkQueue, chunk, DEFAULT_BATCH_CONCURRENCY } from './workQueue';
+import { buildCacheKey, lookupResponse, storeResponse, DEFAULT_CACHE_SETTINGS } from './responseCache';
+import { parseStructured, ValidationError } from './validation';
+import { locateAnnotations } from './annotations';
+import { TelemetryLog, createEventId } from './telemetry';
+import {
+  relevanceOutput,
+  evaluationOutput,
+  ANALYSIS_OUTPUT,
+  PRACTICE_QUESTIONS_OUTPUT,
+  gradingOutput
+} from './outputSchemas';
+import {
+  BudgetExceededError,
+  createRunUsage,
+  addUsage,
+  addCacheLookup,
+  calculateCost,
+  estimateTokens
+} from './costEstimator';
 
-export interface PracticeQuestion {
-  question_id: string;
-  issue_type: string;
-  specific_issue: string;
-  question_format: 'correction' | 'multiple_choice' | 'writing_prompt';
-  question_text: string;
-  correct_answer: string;
-  options?: string[];
-  explanation: string;
-}
+// Re-exported so existing imports from this module keep working
+export type { GradingResult, PracticeQuestion, Message, EvaluationResult, Issue, Analysis } from '../types';
 
-export interface Message {
-  id: string;
-  text: string;
+export interface CallOptions {
+  signal?: AbortSignal;          // Aborts the request, the rate-limit wait and any retry wait
+  retryOptions?: RetryOptions;
+  cacheWhen?: (text: string) => boolean;  // Cache responses this accepts (e.g. ones that validate); unset = never cached
+  schema?: StructuredOutputSchema;        // Ask the provider for JSON of this shape
+  batch?: number;                         // 1-based batch number, recorded in the telemetry log
+  reprompt?: boolean;                     // A re-prompt after a response failed validation
 }
 
-export interface EvaluationResult {
-  message_id: string;
-  text: string;
-  grammar_score: number;
-  punctuation_score: number;
-  tone_score: number;
-  grammar_issues: string[];
-  punctuation_issues: string[];
-  tone_issues: string[];
+// Batched stages can be stopped between (and during) batches and report each finished batch
+// Batches may finish out of order when several run at once
+export interface BatchRunOptions<T> {
+  signal?: AbortSignal;
+  onBatchComplete?: (batchResults: T) => void | Promise<void>;
+  onBatchStatus?: (states: BatchState[]) => void;
 }
 
-export interface Issue {
-  issue: string;
-  frequency: number;
-  severity: 'low' | 'medium' | 'high';
-  recommendation: string;
-}
-
-export interface Analysis {
-  summary: {
-    total_messages: number;
-    avg_grammar_score: number;
-    avg_punctuation_score: number;
-    avg_tone_score: number;
-    overall_assessment: string;
-  };
-  top_grammar_issues: Issue[];
-  top_punctuation_issues: Issue[];
-  top_tone_issues: Issue[];
-  // Metadata for tracking what was evaluated (for re-evaluation deduplication)
-  metadata?: {
-    evaluation_date: string;
-    conversations_range: {
-      start: number;  // 1-indexed
-      end: number;    // 1-indexed (inclusive)
-    };
-    total_conversations_evaluated: number;
-    messages_evaluated: number;
-  };
+// Errors that end the run instead of falling back to defaults
+function isFatal(error: unknown): boolean {
+  return error instanceof BudgetExceededError || error instanceof RunAbortedError;
 }
 
 export class AnthropicAPI {
-  private apiKey: string;
-  private readonly MODEL = 'claude-haiku-4-5-20251001';
-  // Sliding window rate limiter (5 requests per minute)
-  private requestTimestamps: number[] = [];
-  private readonly MAX_REQUESTS_PER_MINUTE = 5;
-  private readonly TIME_WINDOW_MS = 60000; // 1 minute
+  private provider: LLMProvider;
+  // Token usage of the current run, and the spending cap it is held to
+  private usage: RunUsage;
+  private budgetUsd: number | null = null;
+  private stageSettings: StageModelSettings = {};
+  // Paced by the provider's default until the server's rate-limit headers say otherwise
+  private rateLimiter: AdaptiveRateLimiter;
+  private concurrency = DEFAULT_BATCH_CONCURRENCY;
+  // Input cost of requests in flight - counted against the budget until their usage is known
+  private reservedCostUsd = 0;
+  private cacheSettings: ResponseCacheSettings = DEFAULT_CACHE_SETTINGS;
+  // One event per callClaude call of the current run
+  private telemetry = new TelemetryLog();
+  
+  /**
+   * Accepts a provider, or an Anthropic API key for the default provider
+   */
+  constructor(providerOrApiKey: LLMProvider | string) {
+    this.provider = typeof providerOrApiKey === 'string'
+      ? createProvider({ kind: 'anthropic', apiKey: providerOrApiKey })
+      : providerOrApiKey;
+    this.usage = createRunUsage(this.provider.model);
+    this.rateLimiter = new AdaptiveRateLimiter(this.provider.requestsPerMinute);
+  }
   
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  get model(): string {
+    return this.provider.model;
+  }
+  
+  get providerLabel(): string {
+    return this.provider.label;
   }
   
   /**
-   * Wait if necessary to respect 5 requests per minute limit
+   * Use a different model or max tokens for some stages (validate with validateStageSettings first)
    */
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    
-    // Remove timestamps older than 1 minute
-    this.requestTimestamps = this.requestTimestamps.filter(
-      timestamp => now - timestamp < this.TIME_WINDOW_MS
-    );
-    
-    // If we've hit the limit, wait for the oldest request to expire
-    if (this.requestTimestamps.length >= this.MAX_REQUESTS_PER_MINUTE) {
-      const oldestRequest = this.requestTimestamps[0];
-      const waitTime = this.TIME_WINDOW_MS - (now - oldestRequest) + 1000; // +1 sec buffer
-      
-      if (waitTime > 0) {
-        const waitSeconds = (waitTime / 1000).toFixed(1);
-        console.log(`  Rate limit: ${this.requestTimestamps.length}/${this.MAX_REQUESTS_PER_MINUTE} requests in last minute`);
-        console.log(`   Waiting ${waitSeconds} seconds before next request...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        
-        // Clean up again after waiting
-        this.requestTimestamps = this.requestTimestamps.filter(
-          timestamp => Date.now() - timestamp < this.TIME_WINDOW_MS
-        );
-      }
+  setStageSettings(settings: StageModelSettings): void {
+    this.stageSettings = settings;
+  }
+  
+  /**
+   * Model each stage will use with the current settings
+   */
+  getStageModels(): StageModels {
+    return resolveStageModels(this.stageSettings, this.provider);
+  }
+  
+  /**
+   * Never send more than this many requests per minute, whatever the server allows (null = no cap)
+   */
+  setRateLimitCeiling(requestsPerMinute: number | null): void {
+    this.rateLimiter.setCeiling(requestsPerMinute);
+  }
+  
+  /**
+   * Bypass toggle and TTL of the response cache
+   */
+  setCacheSettings(settings: ResponseCacheSettings): void {
+    this.cacheSettings = settings;
+  }
+  
+  /**
+   * How many batches the batched stages send at once
+   */
+  setConcurrency(batches: number): void {
+    this.concurrency = Math.max(1, batches);
+  }
+  
+  getRateLimiterState(): RateLimiterState {
+    return this.rateLimiter.getState();
+  }
+  
+  /**
+   * Follow the rate limiter (pace, queue, next slot) - returns a function that stops listening
+   */
+  onRateLimiterChange(listener: (state: RateLimiterState) => void): () => void {
+    return this.rateLimiter.subscribe(listener);
+  }
+  
+  /**
+   * LLM calls recorded since the current run started
+   */
+  getTelemetry(): LLMCallEvent[] {
+    return this.telemetry.getEvents();
+  }
+  
+  /**
+   * Follow the telemetry log - returns a function that stops listening
+   */
+  onTelemetryChange(listener: (events: LLMCallEvent[]) => void): () => void {
+    return this.telemetry.subscribe(listener);
+  }
+  
+  /**
+   * Start counting usage for a new run, optionally capped at a budget in USD
+   * A resumed run continues from the usage saved in its checkpoint, so the budget covers the whole run
+   * A new run also starts a new telemetry log; a resumed one keeps adding to it
+   */
+  startUsageTracking(budgetUsd: number | null = null, estimatedCostUsd?: number, resumeFrom?: RunUsage): void {
+    if (!resumeFrom) {
+      this.telemetry.clear();
+    }
+    this.usage = resumeFrom
+      ? { ...resumeFrom, by_stage: { ...resumeFrom.by_stage }, stage_models: { ...resumeFrom.stage_models }, budget_exceeded: false }
+      : createRunUsage(this.provider.model);
+    this.budgetUsd = budgetUsd !== null && budgetUsd > 0 ? budgetUsd : null;
+    if (this.budgetUsd !== null) {
+      this.usage.budget_usd = this.budgetUsd;
+    }
+    if (estimatedCostUsd !== undefined) {
+      this.usage.estimated_cost_usd = estimatedCostUsd;
+    }
+  }
+
+  /**
+   * Usage of the current run so far
+   */
+  getUsage(): RunUsage {
+    return { ...this.usage, by_stage: { ...this.usage.by_stage } };
+  }
+
+  /**
+   * Finish the run - returns its usage and lifts the budget for later requests
+   */
+  stopUsageTracking(): RunUsage {
+    const usage = this.getUsage();
+    this.budgetUsd = null;
+    return usage;
+  }
+
+  /**
+   * Refuse a request whose input alone would take the run past its budget
+   * Requests still in flight count with their estimated input cost
+   */
+  private checkBudget(prompt: string, stage: PipelineStage, model: string): void {
+    if (this.budgetUsd === null) return;
+    const projected = this.usage.cost_usd + this.reservedCostUsd + calculateCost(estimateTokens(prompt), 0, model);
+    if (projected > this.budgetUsd) {
+      this.usage.budget_exceeded = true;
+      console.warn(`💰 Budget reached: ${this.usage.cost_usd.toFixed(4)} of ${this.budgetUsd} USD spent`);
+      throw new BudgetExceededError(this.usage.cost_usd, this.budgetUsd, stage);
     }
-    
-    // Record this request timestamp
-    this.requestTimestamps.push(Date.now());
   }
   
   /**
@@ -121,7 +227,10 @@ export class AnthropicAPI {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const response = await this.callClaude('Respond with just "OK"', 10);
+      // No retries - a missing server or bad key should be reported right away
+      const response = await this.callClaude('Respond with just "OK"', 10, undefined, 'other', {
+        retryOptions: { ...DEFAULT_RETRY_OPTIONS, maxRetries: 0 }
+      });
       console.log(' API connection successful');
       return true;
     } catch (error: any) {
@@ -131,70 +240,232 @@ export class AnthropicAPI {
   }
   
   /**
-   * Call Claude API with a prompt
+   * Send a prompt to the provider and return the response text
+   * Rate limits, overload, server and network errors are retried with backoff
+   * With cacheWhen set, a cached response for the same model, max tokens and prompt is returned instead
    */
-async callClaude(
+  async callClaude(
     prompt: string,
     maxTokens: number = 4000,
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    stage: PipelineStage = 'other',
+    options: CallOptions = {}
   ): Promise<string> {
-    // Wait for rate limit before making request
-    await this.waitForRateLimit();
+    const { text } = await this.request(prompt, maxTokens, onProgress, stage, options);
+    return text;
+  }
+  
+  /**
+   * callClaude, also returning the id of the call's telemetry event so the caller can add the parse outcome
+   */
+  private async request(
+    prompt: string,
+    maxTokens: number,
+    onProgress: ((status: string) => void) | undefined,
+    stage: PipelineStage,
+    { signal, retryOptions = DEFAULT_RETRY_OPTIONS, cacheWhen, schema, batch, reprompt = false }: CallOptions
+  ): Promise<{ text: string; eventId: string }> {
+    throwIfAborted(signal);
     
-    if (onProgress) {
-      onProgress('Sending request to Claude...');
+    // Stage settings override the call site's max tokens and the provider's model
+    const { model, maxTokens: stageMaxTokens } = resolveStageSetting(this.stageSettings, stage, this.provider, maxTokens);
+    
+    const startedAt = Date.now();
+    const event: LLMCallEvent = {
+      id: createEventId(startedAt),
+      started_at: startedAt,
+      stage,
+      batch,
+      provider: this.provider.label,
+      model,
+      max_tokens: stageMaxTokens,
+      prompt_chars: prompt.length,
+      prompt_tokens_estimate: estimateTokens(prompt),
+      status: 'ok',
+      retries: 0,
+      latency_ms: 0,
+      duration_ms: 0,
+      parse: 'not_checked',
+      reprompt
+    };
+    const record = (changes: Partial<LLMCallEvent>) => {
+      this.telemetry.record({ ...event, ...changes, duration_ms: Date.now() - startedAt });
+    };
+    
+    // Cache hits cost nothing, so they skip the budget and the rate limiter
+    const cacheKey = cacheWhen ? await buildCacheKey(model, stageMaxTokens, prompt) : null;
+    if (cacheKey && !this.cacheSettings.bypass) {
+      const cached = await lookupResponse(cacheKey, this.cacheSettings.ttlDays);
+      throwIfAborted(signal);
+      if (cached) {
+        addCacheLookup(this.usage, cached.usage ? calculateCost(cached.usage.input_tokens, cached.usage.output_tokens, cached.model) : 0);
+        console.log(`📦 Using cached ${stage} response from ${new Date(cached.created_at).toLocaleString()}`);
+        if (onProgress) {
+          onProgress('Using cached response');
+        }
+        record({ status: 'cached', input_tokens: cached.usage?.input_tokens, output_tokens: cached.usage?.output_tokens, cost_usd: 0 });
+        return { text: cached.text, eventId: event.id };
+      }
+      addCacheLookup(this.usage, null);
     }
+    
+    let retries = 0;
+    let latencyMs = 0;
+    const retriedStatuses: number[] = [];
+    let response;
+    try {
+      this.checkBudget(prompt, stage, model);
+      const reservedCost = calculateCost(estimateTokens(prompt), 0, model);
+      this.reservedCostUsd += reservedCost;
       
-      const requestBody = {
-        model: this.MODEL,
-        max_tokens: maxTokens,
-        messages: [
-          { role: 'user', content: prompt }
-        ]
-      };
-      
-      console.log('Making API request...');
-      console.log('Model:', this.MODEL);
-      
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true'
+      response = await withRetry(
+        async () => {
+          // Every attempt counts against the rate limit
+          await this.rateLimiter.acquire(estimateTokens(prompt), signal);
+          
+          if (onProgress) {
+            onProgress(`Sending request to ${this.provider.label}...`);
+          }
+          
+          const attemptStartedAt = Date.now();
+          let result;
+          try {
+            result = await this.provider.complete({ prompt, maxTokens: stageMaxTokens, stage, model, signal, schema });
+          } finally {
+            latencyMs = Date.now() - attemptStartedAt;
+          }
+          // Providers that can't cancel (the offline demo) still stop here
+          throwIfAborted(signal);
+          if (result.rateLimit) {
+            this.rateLimiter.update(result.rateLimit);
+          }
+          return result;
+        },
+        retryOptions,
+        (attempt, delayMs, error) => {
+          retries = attempt;
+          if (error instanceof LLMRequestError) {
+            retriedStatuses.push(error.status);
+          }
+          // A 429 holds back every queued request, not just this one
+          if (error instanceof LLMRequestError && error.status === 429) {
+            this.rateLimiter.pause(delayMs);
+          }
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(`🔁 ${reason} - retry ${attempt}/${retryOptions.maxRetries} in ${(delayMs / 1000).toFixed(1)}s`);
+          if (onProgress) {
+            onProgress(`${this.provider.label} is busy - retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${retryOptions.maxRetries + 1})...`);
+          }
         },
-        body: JSON.stringify(requestBody)
+        signal
+      ).finally(() => {
+        this.reservedCostUsd -= reservedCost;
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        
-        let errorData;
+    } catch (error) {
+      record({
+        status: error instanceof BudgetExceededError ? 'budget_exceeded' : error instanceof RunAbortedError ? 'aborted' : 'error',
+        http_status: error instanceof LLMRequestError ? error.status : undefined,
+        error: error instanceof Error ? error.message : String(error),
+        retries,
+        retried_statuses: retriedStatuses.length > 0 ? retriedStatuses : undefined,
+        latency_ms: latencyMs
+      });
+      throw error;
+    }
+    
+    if (response.usage) {
+      addUsage(this.usage, stage, response.usage.input_tokens, response.usage.output_tokens, model);
+    }
+    record({
+      retries,
+      http_status: response.status,
+      retried_statuses: retriedStatuses.length > 0 ? retriedStatuses : undefined,
+      latency_ms: latencyMs,
+      input_tokens: response.usage?.input_tokens,
+      output_tokens: response.usage?.output_tokens,
+      cost_usd: response.usage ? calculateCost(response.usage.input_tokens, response.usage.output_tokens, model) : undefined
+    });
+    
+    if (cacheKey && cacheWhen && cacheWhen(response.text)) {
+      await storeResponse({
+        key: cacheKey,
+        model,
+        max_tokens: stageMaxTokens,
+        stage,
+        text: response.text,
+        usage: response.usage,
+        created_at: Date.now()
+      });
+    }
+    
+    if (onProgress) {
+      onProgress('Response received');
+    }
+    
+    return { text: response.text, eventId: event.id };
+  }
+
+  /**
+   * Send a prompt that must come back as JSON of the output's shape, and validate it
+   * A response that fails validation gets one re-prompt quoting the problem; a second
+   * failure throws the ValidationError, whose message names the field path
+   */
+  async callStructured<T>(
+    prompt: string,
+    maxTokens: number,
+    onProgress: ((status: string) => void) | undefined,
+    stage: PipelineStage,
+    output: StructuredOutput<T>,
+    { signal, cache = true, batch }: { signal?: AbortSignal; cache?: boolean; batch?: number } = {}
+  ): Promise<T> {
+    const options: CallOptions = {
+      signal,
+      batch,
+      schema: output,
+      // Only valid responses are cached, so a bad one is asked for again next run
+      cacheWhen: cache ? text => {
         try {
-          errorData = JSON.parse(errorText);
+          parseStructured(text, output);
+          return true;
         } catch {
-          errorData = { message: errorText };
+          return false;
         }
-        
-        throw new Error(
-          `API Error ${response.status}: ${errorData.error?.message || errorData.message || response.statusText}`
-        );
+      } : undefined
+    };
+    
+    // Parse outcomes go on the call's telemetry event
+    const parseAndRecord = (text: string, eventId: string): T => {
+      try {
+        const parsed = parseStructured(text, output);
+        this.telemetry.update(eventId, { parse: 'valid' });
+        return parsed;
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          this.telemetry.update(eventId, { parse: 'invalid', parse_error: error.message });
+        }
+        throw error;
       }
-      
-      const data = await response.json();
-      
+    };
+    
+    const response = await this.request(prompt, maxTokens, onProgress, stage, options);
+    try {
+      return parseAndRecord(response.text, response.eventId);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      console.warn(`⚠️ ${stage} response failed validation - ${error.message}. Asking again...`);
       if (onProgress) {
-        onProgress('Response received');
+        onProgress('Response did not match the expected format - asking again...');
       }
-      
-      // Extract text from response
-      const textContent = data.content.find((block: any) => block.type === 'text');
-      return textContent ? textContent.text : '';
+    
+      const retryPrompt = `${prompt}
+
+Your previous response was rejected: ${error.message}
+Respond again with JSON that matches the required format exactly.`;
+      const retried = await this.request(retryPrompt, maxTokens, onProgress, stage, { ...options, reprompt: true });
+      return parseAndRecord(retried.text, retried.eventId);
+    }
   }
 
-  
   /**
    * Stage 2: LLM Confirmation Filtering (Batched)
    * Confirms that heuristically-filtered messages are actually writing-related
@@ -203,10 +474,34 @@ async callClaude(
   async filterRelevantMessagesLLM(
     messages: Message[],
     batchSize: number = 10,
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
   ): Promise<Message[]> {
+    const verdicts = await this.classifyRelevanceLLM(messages, batchSize, onProgress, { signal });
+    // Batches the LLM couldn't classify are kept - let evaluation decide
+    const relevant = messages.filter(msg => verdicts[msg.id] !== 'not_relevant');
+    
+    const confirmationRate = (relevant.length / messages.length) * 100;
+    console.log(`\n Stage 2 Complete!`);
+    console.log(`   Confirmed relevant: ${relevant.length}`);
+    console.log(`   Filtered out: ${messages.length - relevant.length}`);
+    console.log(`   Confirmation rate: ${confirmationRate.toFixed(1)}%\n`);
+    
+    return relevant;
+  }
+  
+  /**
+   * Stage 2 verdicts per message id, so they can be reviewed and overridden
+   * 'unknown' means the batch failed and the message was kept by default
+   */
+  async classifyRelevanceLLM(
+    messages: Message[],
+    batchSize: number = 10,
+    onProgress?: (status: string) => void,
+    { signal, onBatchComplete, onBatchStatus }: BatchRunOptions<{ [messageId: string]: LLMRelevanceVerdict }> = {}
+  ): Promise<{ [messageId: string]: LLMRelevanceVerdict }> {
     const totalBatches = Math.ceil(messages.length / batchSize);
-    const relevant: Message[] = [];
+    const verdicts: { [messageId: string]: LLMRelevanceVerdict } = {};
     
     if (onProgress) {
       onProgress(`Stage 2: LLM confirmation (${totalBatches} batches)...`);
@@ -214,24 +509,27 @@ async callClaude(
     
     console.log(` Stage 2: LLM Confirmation - ${messages.length} messages in ${totalBatches} batches`);
     
-    for (let i = 0; i < messages.length; i += batchSize) {
-      const batch = messages.slice(i, i + batchSize);
-      const batchNum = Math.floor(i / batchSize) + 1;
-      
-      if (onProgress) {
-        onProgress(`Confirming batch ${batchNum}/${totalBatches}...`);
-      }
+    // Rate limiting is handled by the rate limiter in callClaude()
+    const batchResults = await runWorkQueue(
+      chunk(messages, batchSize),
+      async (batch, index) => {
+        const batchNum = index + 1;
+        const batchVerdicts: { [messageId: string]: LLMRelevanceVerdict } = {};
+        
+        if (onProgress) {
+          onProgress(`Confirming batch ${batchNum}/${totalBatches}...`);
+        }
       
-      // Build batch classification prompt
-      const messagesText = batch
-        .map((msg, idx) => {
-          // Keep more context - 800 chars instead of 400
-          const textPreview = msg.text.length > 800 ? msg.text.substring(0, 800) + '...' : msg.text;
-          return `---MESSAGE ${idx + 1}---\n${textPreview}\n`;
-        })
-        .join('\n');
+        // Build batch classification prompt
+        const messagesText = batch
+          .map((msg, idx) => {
+            // Keep more context - 800 chars instead of 400
+            const textPreview = msg.text.length > 800 ? msg.text.substring(0, 800) + '...' : msg.text;
+            return `---MESSAGE ${idx + 1}---\n${textPreview}\n`;
+          })
+          .join('\n');
       
-      const prompt = `Classify each of the following ${batch.length} messages for writing quality evaluation.
+        const prompt = `Classify each of the following ${batch.length} messages for writing quality evaluation.
 
 CRITICAL: Be INCLUSIVE - we want to evaluate ANY text where writing quality matters.
 
@@ -255,53 +553,44 @@ DEFAULT TO TRUE when in doubt - we prefer false positives over false negatives.
 Messages to evaluate:
 ${messagesText}
 
-Respond with ONLY a valid JSON array of ${batch.length} boolean values (true/false), in SAME ORDER.
-NO markdown, NO explanations:
+Respond with a JSON object holding ${batch.length} boolean values (true/false), in the SAME ORDER as the messages:
 
-[true, false, true, ...]`;
+{"relevant": [true, false, true, ...]}`;
       
-      try {
-        const response = await this.callClaude(prompt, 500, onProgress);
-        const cleanedResponse = this.cleanJSONResponse(response);
-        
-        console.log(`  Raw response (first 200 chars): ${response.substring(0, 200)}`);
-        console.log(`  Cleaned response: ${cleanedResponse}`);
-        
-        const results = JSON.parse(cleanedResponse);
+        try {
+          const { relevant } = await this.callStructured(prompt, 500, onProgress, 'relevance', relevanceOutput(batch.length), { signal, batch: batchNum });
         
-        // Ensure we have the right number of results
-        if (!Array.isArray(results) || results.length !== batch.length) {
-          console.warn(` Expected ${batch.length} results, got ${Array.isArray(results) ? results.length : 'non-array'}. Keeping all in batch.`);
-          relevant.push(...batch);
-        } else {
-          // Filter relevant messages
+          // Record a verdict for every message in the batch
           batch.forEach((msg, idx) => {
-            if (results[idx] === true) {
-              relevant.push(msg);
-            }
+            batchVerdicts[msg.id] = relevant[idx] ? 'relevant' : 'not_relevant';
           });
-          
-          const relevantCount = results.filter((r: boolean) => r === true).length;
+        
+          const relevantCount = relevant.filter(r => r).length;
           console.log(`Batch ${batchNum}: ${relevantCount}/${batch.length} confirmed relevant`);
-        }
         
-      } catch (error) {
-        console.error(`   Error processing batch ${batchNum}:`, error);
-        console.error(`  Error details:`, error instanceof Error ? error.message : String(error));
-        console.log(`  Defaulting to keeping all messages in this batch`);
-        relevant.push(...batch);
-      }
+        } catch (error) {
+          if (isFatal(error)) throw error;
+          console.error(`   Error processing batch ${batchNum}:`, error);
+          console.error(`  Error details:`, error instanceof Error ? error.message : String(error));
+          console.log(`  Defaulting to keeping all messages in this batch`);
+          batch.forEach(msg => { batchVerdicts[msg.id] = 'unknown'; });
+        }
       
-    // Rate limiting is now handled automatically by waitForRateLimit() in callClaude()
-    }
-    
-    const confirmationRate = (relevant.length / messages.length) * 100;
-    console.log(`\n Stage 2 Complete!`);
-    console.log(`   Confirmed relevant: ${relevant.length}`);
-    console.log(`   Filtered out: ${messages.length - relevant.length}`);
-    console.log(`   Confirmation rate: ${confirmationRate.toFixed(1)}%\n`);
+        if (onBatchComplete) {
+          await onBatchComplete(batchVerdicts);
+        }
+        return batchVerdicts;
+      },
+      {
+        concurrency: this.concurrency,
+        signal,
+        isFailure: batchVerdicts => Object.values(batchVerdicts).every(verdict => verdict === 'unknown'),
+        onStatusChange: onBatchStatus
+      }
+    );
+    batchResults.forEach(batchVerdicts => Object.assign(verdicts, batchVerdicts));
     
-    return relevant;
+    return verdicts;
   }
   
   /**
@@ -311,133 +600,133 @@ NO markdown, NO explanations:
    */
   async evaluateBatch(
     messages: Message[],
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    { signal, onBatchComplete, onBatchStatus }: BatchRunOptions<EvaluationResult[]> = {}
   ): Promise<EvaluationResult[]> {
     const batchSize = 5; // Process 5 messages per API call
-    const allResults: EvaluationResult[] = [];
     const totalBatches = Math.ceil(messages.length / batchSize);
     
     console.log(`\n Stage 3: Detailed Evaluation - ${messages.length} messages in ${totalBatches} batches`);
     
-    for (let i = 0; i < messages.length; i += batchSize) {
-      const batch = messages.slice(i, i + batchSize);
-      const batchNum = Math.floor(i / batchSize) + 1;
+    // Rate limiting is handled by the rate limiter in callClaude()
+    const batchResults = await runWorkQueue(
+      chunk(messages, batchSize),
+      async (batch, index) => {
+        const batchNum = index + 1;
+        const results: EvaluationResult[] = [];
+        
+        if (onProgress) {
+          onProgress(`Evaluating batch ${batchNum}/${totalBatches} (messages ${index * batchSize + 1}-${index * batchSize + batch.length})...`);
+        }
       
-      if (onProgress) {
-        onProgress(`Evaluating batch ${batchNum}/${totalBatches} (messages ${i + 1}-${Math.min(i + batchSize, messages.length)})...`);
-      }
+        // Build evaluation prompt with numbered messages, labelled with their language
+        const messagesText = batch
+          .map((msg, idx) => {
+            const label = msg.language && msg.language !== 'und' ? ` (${getLanguageName(msg.language)})` : '';
+            return `---MESSAGE ${idx + 1}${label}---\n${msg.text}\n`;
+          })
+          .join('\n');
       
-      // Build evaluation prompt with numbered messages
-      const messagesText = batch
-        .map((msg, idx) => `---MESSAGE ${idx + 1}---\n${msg.text}\n`)
-        .join('\n');
+        // Only multilingual batches need the extra instructions - English prompts stay unchanged
+        const hasNonEnglish = batch.some(msg => msg.language && msg.language !== 'en' && msg.language !== 'und');
+        const languageNote = hasNonEnglish
+          ? `
+LANGUAGE: Messages are labelled with their language. Judge grammar, punctuation and tone by the norms of THAT language (e.g. Spanish ¿/¡ marks, French spacing before ; : ! ?, German noun capitalization). NEVER penalize a message for not being written in English. Describe issues in English, quoting the original words.
+`
+          : '';
       
-      const prompt = `You are a writing evaluation expert. Analyze each of the following ${batch.length} messages for grammar, punctuation, and tone quality.
-
+        const prompt = `You are a writing evaluation expert. Analyze each of the following ${batch.length} messages for grammar, punctuation, and tone quality.
+${languageNote}
 For EACH message, provide:
 1. Grammar Score (1-5): 1=many errors, 5=perfect grammar
 2. Punctuation Score (1-5): 1=many errors, 5=perfect punctuation
 3. Tone Score (1-5): 1=very inappropriate, 5=perfectly appropriate
 4. Specific issues found (be concise)
+5. Annotations: for each issue about specific words, the words it is about, quoted EXACTLY as they appear in the message (same spelling, case, spacing and punctuation - copy them, do not correct them), with its category, the issue and a suggested replacement for the quoted words. Quote a word or short phrase, never the whole message. Issues about the message as a whole (such as overall tone) need no annotation.
 
 Messages:
 ${messagesText}
 
-Respond with ONLY a valid JSON array of ${batch.length} evaluation objects in the SAME ORDER as the messages.
-NO markdown, NO explanations, ONLY the JSON array:
+Respond with a JSON object holding ${batch.length} evaluations, one per message, numbered like the messages:
 
-[
-  {
-    "message_number": 1,
-    "grammar_score": 3,
-    "punctuation_score": 4,
-    "tone_score": 4,
-    "grammar_issues": ["subject-verb disagreement in sentence 2", "tense inconsistency"],
-    "punctuation_issues": ["missing comma after introductory phrase"],
-    "tone_issues": ["slightly too casual for context"]
-  }
-]`;
-      
-      let response = '';
-      let cleanedResponse = '';
+{
+  "evaluations": [
+    {
+      "message_number": 1,
+      "grammar_score": 3,
+      "punctuation_score": 4,
+      "tone_score": 4,
+      "grammar_issues": ["subject-verb disagreement in sentence 2", "tense inconsistency"],
+      "punctuation_issues": ["missing comma after introductory phrase"],
+      "tone_issues": ["slightly too casual for context"],
+      "annotations": [
+        {"category": "grammar", "issue": "subject-verb disagreement in sentence 2", "quote": "the results was", "suggestion": "the results were"},
+        {"category": "punctuation", "issue": "missing comma after introductory phrase", "quote": "However the", "suggestion": "However, the"}
+      ]
+    }
+  ]
+}`;
       
-      try {
-        response = await this.callClaude(prompt, 4000, onProgress);
-        cleanedResponse = this.cleanJSONResponse(response);
-        
-        console.log(`\n Batch ${batchNum} Raw Response (first 600 chars):`);
-        console.log(response.substring(0, 600));
-        console.log(`\n Batch ${batchNum} Cleaned Response (first 600 chars):`);
-        console.log(cleanedResponse.substring(0, 600));
-        console.log(`\n Attempting to parse...`);
-        
-        const batchResults = JSON.parse(cleanedResponse);
-        
-        if (!Array.isArray(batchResults)) {
-          throw new Error('API did not return an array');
-        }
+        try {
+          // Validated to hold each message number exactly once, sorted
+          const { evaluations } = await this.callStructured(prompt, 4000, onProgress, 'evaluation', evaluationOutput(batch.length), { signal, batch: batchNum });
         
-        // CRITICAL FIX: Map API results back to original messages with IDs and text
-        for (let j = 0; j < batch.length; j++) {
-          const originalMessage = batch[j];
-          const apiResult = batchResults[j];
-          
-          if (apiResult) {
-            // Properly construct EvaluationResult with message_id and text
-            allResults.push({
-              message_id: originalMessage.id,
-              text: originalMessage.text,
-              grammar_score: apiResult.grammar_score || 3,
-              punctuation_score: apiResult.punctuation_score || 3,
-              tone_score: apiResult.tone_score || 3,
-              grammar_issues: apiResult.grammar_issues || [],
-              punctuation_issues: apiResult.punctuation_issues || [],
-              tone_issues: apiResult.tone_issues || []
-            });
-          } else {
-            // Fallback if API didn't return enough results
-            allResults.push({
+          // CRITICAL FIX: Map API results back to original messages with IDs and text
+          batch.forEach((originalMessage, j) => {
+            const apiResult = evaluations[j];
+            // Offsets come from finding each quote in the text the model was sent
+            const { annotations, unlocated } = locateAnnotations(originalMessage.text, apiResult.annotations);
+            if (unlocated.length > 0) {
+              console.warn(`   Message ${originalMessage.id}: ${unlocated.length} quoted spans not found in the text - dropped`);
+            }
+            results.push({
               message_id: originalMessage.id,
               text: originalMessage.text,
-              grammar_score: 3,
-              punctuation_score: 3,
-              tone_score: 3,
-              grammar_issues: ['Error: No evaluation returned'],
-              punctuation_issues: [],
-              tone_issues: []
+              grammar_score: apiResult.grammar_score,
+              punctuation_score: apiResult.punctuation_score,
+              tone_score: apiResult.tone_score,
+              grammar_issues: apiResult.grammar_issues,
+              punctuation_issues: apiResult.punctuation_issues,
+              tone_issues: apiResult.tone_issues,
+              annotations,
+              language: originalMessage.language
             });
-          }
-        }
+          });
         
-        console.log(`   Batch ${batchNum}: Successfully parsed ${batchResults.length} results`);
-        console.log(`     Mapped to ${batch.length} messages with IDs`);
+          console.log(`   Batch ${batchNum}: ${evaluations.length} validated results mapped to messages with IDs`);
         
-      } catch (error) {
-        console.error(`   Error parsing batch ${batchNum} results:`, error);
-        console.error(' Full raw response:', response);
-        console.error(' Full cleaned response:', cleanedResponse);
+        } catch (error) {
+          if (isFatal(error)) throw error;
+          console.error(`   Error evaluating batch ${batchNum}:`, error);
         
-        // Add placeholder results for failed batch with proper message mapping
-        for (let j = 0; j < batch.length; j++) {
-          const originalMessage = batch[j];
-          allResults.push({
-            message_id: originalMessage.id,
-            text: originalMessage.text,
-            grammar_score: 3,
-            punctuation_score: 3,
-            tone_score: 3,
-            grammar_issues: ['Error evaluating this message'],
-            punctuation_issues: [],
-            tone_issues: []
+          // Mark the batch unevaluated - neutral placeholder scores would skew the averages
+          const reason = error instanceof Error ? error.message : String(error);
+          batch.forEach(originalMessage => {
+            results.push(this.unevaluatedResult(originalMessage, reason));
           });
         }
-      }
       
-    // Rate limiting is now handled automatically by waitForRateLimit() in callClaude() 
-    }
+        if (onBatchComplete) {
+          await onBatchComplete(results);
+        }
+        return results;
+      },
+      {
+        concurrency: this.concurrency,
+        signal,
+        isFailure: results => results.every(r => r.unevaluated),
+        onStatusChange: onBatchStatus
+      }
+    );
+    // Batch order, so results line up with the messages passed in
+    const allResults = batchResults.reduce((all, results) => all.concat(results), [] as EvaluationResult[]);
     
+    const unevaluatedCount = allResults.filter(r => r.unevaluated).length;
     console.log(`\n Stage 3 Complete!`);
     console.log(`   Total evaluations: ${allResults.length}`);
+    if (unevaluatedCount > 0) {
+      console.warn(`   Could not evaluate ${unevaluatedCount} messages - they are left out of the analysis`);
+    }
     console.log(`   All messages have message_id and text preserved`);
     
     // Validate that all results have required fields
@@ -449,14 +738,41 @@ NO markdown, NO explanations, ONLY the JSON array:
     return allResults;
   }
   
+  /**
+   * Result for a message the API failed to evaluate - no scores, so nothing gets averaged
+   */
+  private unevaluatedResult(message: Message, reason: string): EvaluationResult {
+    return {
+      message_id: message.id,
+      text: message.text,
+      grammar_score: 0,
+      punctuation_score: 0,
+      tone_score: 0,
+      grammar_issues: [],
+      punctuation_issues: [],
+      tone_issues: [],
+      language: message.language,
+      unevaluated: true,
+      evaluation_error: reason
+    };
+  }
+  
   /**
    * Analyze patterns from evaluations
+   * Unevaluated messages are left out of the averages and issue lists
    * Matches reference implementation: lines 420-579 in writing_evaluation.py
    */
   async analyzePatterns(
-    evaluations: EvaluationResult[],
-    onProgress?: (status: string) => void
+    allEvaluations: EvaluationResult[],
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
   ): Promise<Analysis> {
+    const evaluations = allEvaluations.filter(e => !e.unevaluated);
+    const unevaluatedCount = allEvaluations.length - evaluations.length;
+    if (evaluations.length === 0) {
+      throw new Error(`None of the ${allEvaluations.length} messages could be evaluated - check your connection and try again`);
+    }
+    
     const grammarScores = evaluations.map(e => e.grammar_score);
     const punctuationScores = evaluations.map(e => e.punctuation_score);
     const toneScores = evaluations.map(e => e.tone_score);
@@ -465,9 +781,18 @@ NO markdown, NO explanations, ONLY the JSON array:
     const avgPunctuation = punctuationScores.reduce((a, b) => a + b, 0) / punctuationScores.length;
     const avgTone = toneScores.reduce((a, b) => a + b, 0) / toneScores.length;
     
-    const allGrammarIssues = evaluations.flatMap(e => e.grammar_issues || []);
-    const allPunctuationIssues = evaluations.flatMap(e => e.punctuation_issues || []);
-    const allToneIssues = evaluations.flatMap(e => e.tone_issues || []);
+    // Learners writing in several languages get issues tagged by language, so
+    // patterns from different languages are never merged
+    const languageScores = summarizeScoresByLanguage(evaluations);
+    const multilingual = languageScores.filter(s => s.language !== 'und').length > 1;
+    const tagIssues = (e: EvaluationResult, issues: string[] = []) =>
+      multilingual && e.language && e.language !== 'und'
+        ? issues.map(issue => `[${getLanguageName(e.language)}] ${issue}`)
+        : issues;
+    
+    const allGrammarIssues = evaluations.flatMap(e => tagIssues(e, e.grammar_issues));
+    const allPunctuationIssues = evaluations.flatMap(e => tagIssues(e, e.punctuation_issues));
+    const allToneIssues = evaluations.flatMap(e => tagIssues(e, e.tone_issues));
     
     if (onProgress) {
       onProgress('Analyzing patterns and identifying top issues...');
@@ -482,13 +807,15 @@ CRITICAL REQUIREMENTS (must follow exactly):
 3. Count issue frequency by GROUPING similar/related issues together
 4. Provide specific, actionable recommendations
 5. Order by frequency (most common first)
-6. Use severity levels: "high" (>5 occurrences), "medium" (3-5 occurrences), "low" (<3 occurrences)
+6. Use severity levels: "high" (>5 occurrences), "medium" (3-5 occurrences), "low" (<3 occurrences)${multilingual ? `
+7. Issues are tagged with their language in [brackets]. NEVER group issues from different languages. Set "language" on each issue to its ISO 639-1 code (${languageScores.filter(s => s.language !== 'und').map(s => `"${s.language}" = ${getLanguageName(s.language)}`).join(', ')})` : ''}
 
 Data Summary:
 - Total Messages Evaluated: ${evaluations.length}
 - Average Grammar Score: ${avgGrammar.toFixed(2)}/5
 - Average Punctuation Score: ${avgPunctuation.toFixed(2)}/5
-- Average Tone Score: ${avgTone.toFixed(2)}/5
+- Average Tone Score: ${avgTone.toFixed(2)}/5${multilingual ? `
+- Languages: ${languageScores.map(s => `${getLanguageName(s.language)} (${s.messages} messages)`).join(', ')}` : ''}
 
 All Grammar Issues Found (${allGrammarIssues.length} total):
 ${JSON.stringify(allGrammarIssues, null, 2)}
@@ -501,7 +828,7 @@ ${JSON.stringify(allToneIssues, null, 2)}
 
 TASK: Analyze the issues above, count frequency by grouping similar issues, and identify the top patterns (1-5 per category).
 
-Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
+Respond with a JSON object in this shape:
 
 {
   "summary": {
@@ -523,20 +850,18 @@ Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
 }`;
     
     try {
-      const response = await this.callClaude(prompt, 4000, onProgress);
-      const cleanedResponse = this.cleanJSONResponse(response);
-      const analysis = JSON.parse(cleanedResponse);
+      const analysis = await this.callStructured(prompt, 4000, onProgress, 'patterns', ANALYSIS_OUTPUT, { signal });
       
       // CRITICAL: Validate that we got at least 1 issue per category (matches reference lines 547-567)
-      if (!analysis.top_grammar_issues || analysis.top_grammar_issues.length < 1) {
+      if (analysis.top_grammar_issues.length < 1) {
         console.warn(' No grammar issues returned by API, generating fallback');
         analysis.top_grammar_issues = this.generateFallbackIssues(allGrammarIssues, 'grammar').slice(0, 5);
       }
-      if (!analysis.top_punctuation_issues || analysis.top_punctuation_issues.length < 1) {
+      if (analysis.top_punctuation_issues.length < 1) {
         console.warn(' No punctuation issues returned by API, generating fallback');
         analysis.top_punctuation_issues = this.generateFallbackIssues(allPunctuationIssues, 'punctuation').slice(0, 5);
       }
-      if (!analysis.top_tone_issues || analysis.top_tone_issues.length < 1) {
+      if (analysis.top_tone_issues.length < 1) {
         console.warn(' No tone issues returned by API, generating fallback');
         analysis.top_tone_issues = this.generateFallbackIssues(allToneIssues, 'tone').slice(0, 5);
       }
@@ -546,6 +871,19 @@ Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
       analysis.top_punctuation_issues = analysis.top_punctuation_issues.slice(0, 5);
       analysis.top_tone_issues = analysis.top_tone_issues.slice(0, 5);
       
+      // Keep only language codes we know; single-language runs don't tag issues
+      [analysis.top_grammar_issues, analysis.top_punctuation_issues, analysis.top_tone_issues].forEach((issues: Issue[]) => {
+        issues.forEach(issue => {
+          if (!multilingual || !issue.language || !(issue.language in LANGUAGE_NAMES)) {
+            delete issue.language;
+          }
+        });
+      });
+      analysis.language_scores = languageScores;
+      if (unevaluatedCount > 0) {
+        analysis.summary.unevaluated_messages = unevaluatedCount;
+      }
+      
       console.log(` Analysis complete:
    Grammar issues: ${analysis.top_grammar_issues.length}
    Punctuation issues: ${analysis.top_punctuation_issues.length}
@@ -553,6 +891,7 @@ Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
       
       return analysis;
     } catch (error) {
+      if (isFatal(error)) throw error;
       console.error(' Error analyzing patterns:', error);
       // Return fallback analysis with at least 1 issue per category (max 5)
       return {
@@ -561,11 +900,13 @@ Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
           avg_grammar_score: avgGrammar,
           avg_punctuation_score: avgPunctuation,
           avg_tone_score: avgTone,
-          overall_assessment: 'Analysis completed with partial data due to parsing error.'
+          overall_assessment: 'Analysis completed with partial data due to parsing error.',
+          ...(unevaluatedCount > 0 && { unevaluated_messages: unevaluatedCount })
         },
         top_grammar_issues: this.generateFallbackIssues(allGrammarIssues, 'grammar').slice(0, 5),
         top_punctuation_issues: this.generateFallbackIssues(allPunctuationIssues, 'punctuation').slice(0, 5),
-        top_tone_issues: this.generateFallbackIssues(allToneIssues, 'tone').slice(0, 5)
+        top_tone_issues: this.generateFallbackIssues(allToneIssues, 'tone').slice(0, 5),
+        language_scores: languageScores
       };
     }
   }
@@ -577,14 +918,19 @@ Respond with ONLY valid JSON (no markdown, no preamble, no explanation):
     issues: Issue[],
     sessionNumber: number,
     difficulty: string = 'medium',
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
   ): Promise<PracticeQuestion[]> {
     // Take top 3 issues to focus on
     const topIssues = issues.slice(0, 3);
     
     const issuesText = topIssues
-      .map((issue, idx) => `${idx + 1}. ${issue.issue}\n   Severity: ${issue.severity}\n   Fix: ${issue.recommendation}`)
+      .map((issue, idx) => {
+        const language = issue.language && issue.language !== 'en' ? `\n   Language: ${getLanguageName(issue.language)}` : '';
+        return `${idx + 1}. ${issue.issue}\n   Severity: ${issue.severity}\n   Fix: ${issue.recommendation}${language}`;
+      })
       .join('\n\n');
+    const hasNonEnglish = topIssues.some(issue => issue.language && issue.language !== 'en');
     
     if (onProgress) {
       onProgress(`Generating practice questions for session ${sessionNumber}...`);
@@ -601,47 +947,50 @@ Create 2 questions for EACH issue (6 total):
 - 1 multiple choice question (4 options, one correct)
 
 IMPORTANT: Make questions UNIQUE to session ${sessionNumber}. Use different examples than previous sessions.
+${hasNonEnglish ? `
+LANGUAGE: Write each question's sentences, options and answer in the language of its issue (English when no language is given). Keep explanations in English.
+` : ''}
+Respond with a JSON object holding the questions:
 
-Respond with ONLY valid JSON array (no markdown):
-
-[
-  {
-    "question_id": "s${sessionNumber}_q1",
-    "issue_type": "grammar",
-    "specific_issue": "subject-verb agreement",
-    "question_format": "correction",
-    "question_text": "Correct this sentence:\\n\\nThe data shows significant results.",
-    "correct_answer": "The data show significant results.",
-    "explanation": "Data is plural, so use 'show' not 'shows'"
-  },
-  {
-    "question_id": "s${sessionNumber}_q2",
-    "issue_type": "grammar",
-    "specific_issue": "subject-verb agreement",
-    "question_format": "multiple_choice",
-    "question_text": "Which sentence is correct?",
-    "correct_answer": "B",
-    "options": [
-      "A) The team are winning",
-      "B) The team is winning",
-      "C) The teams is winning",
-      "D) The team were winning"
-    ],
-    "explanation": "Team is singular collective noun, use 'is'"
-  }
-]`;
+{
+  "questions": [
+    {
+      "question_id": "s${sessionNumber}_q1",
+      "issue_type": "grammar",
+      "specific_issue": "subject-verb agreement",
+      "question_format": "correction",
+      "question_text": "Correct this sentence:\\n\\nThe data shows significant results.",
+      "correct_answer": "The data show significant results.",
+      "explanation": "Data is plural, so use 'show' not 'shows'"
+    },
+    {
+      "question_id": "s${sessionNumber}_q2",
+      "issue_type": "grammar",
+      "specific_issue": "subject-verb agreement",
+      "question_format": "multiple_choice",
+      "question_text": "Which sentence is correct?",
+      "correct_answer": "B",
+      "options": [
+        "A) The team are winning",
+        "B) The team is winning",
+        "C) The teams is winning",
+        "D) The team were winning"
+      ],
+      "explanation": "Team is singular collective noun, use 'is'"
+    }
+  ]
+}`;
     
     try {
-      const response = await this.callClaude(prompt, 4000, onProgress);
-      const cleanedResponse = this.cleanJSONResponse(response);
-      const questions = JSON.parse(cleanedResponse);
-      
-      if (!Array.isArray(questions)) {
-        throw new Error('Response is not an array');
-      }
+      // Not cached - generating again should give fresh questions
+      const { questions } = await this.callStructured(prompt, 4000, onProgress, 'questions', PRACTICE_QUESTIONS_OUTPUT, {
+        signal,
+        cache: false
+      });
       
       return questions;
     } catch (error) {
+      if (isFatal(error)) throw error;
       console.error('Error generating questions:', error);
       // Return fallback questions
       return this.generateFallbackQuestions(topIssues, sessionNumber);
@@ -654,7 +1003,8 @@ Respond with ONLY valid JSON array (no markdown):
   async gradePracticeSession(
     questions: PracticeQuestion[],
     userAnswers: { [key: string]: string },
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
   ): Promise<GradingResult[]> {
     const results: GradingResult[] = [];
     const needsLLM: Array<{ idx: number; question: PracticeQuestion; answer: string }> = [];
@@ -738,8 +1088,9 @@ Respond with ONLY valid JSON array (no markdown):
         onProgress(`AI grading ${needsLLM.length} subjective answer(s)...`);
       }
       
+      // Numbered 1..n within this prompt - grades come back keyed by these numbers
       const qaText = needsLLM
-        .map(item => `---QUESTION ${item.idx}---
+        .map((item, i) => `---QUESTION ${i + 1}---
 Issue Focus: ${item.question.specific_issue}
 Question: ${item.question.question_text}
 Correct Answer: ${item.question.correct_answer}
@@ -752,23 +1103,25 @@ ${qaText}
 
 For each question, determine if the user's answer is correct and provide brief feedback.
 
-Respond with ONLY valid JSON array of ${needsLLM.length} results in SAME ORDER (no markdown):
+Respond with a JSON object holding ${needsLLM.length} grades, one per question, numbered like the questions:
 
-[
-  {
-    "question_number": 1,
-    "is_correct": true,
-    "feedback": "Correct! Your answer demonstrates proper understanding."
-  }
-]`;
+{
+  "grades": [
+    {
+      "question_number": 1,
+      "is_correct": true,
+      "feedback": "Correct! Your answer demonstrates proper understanding."
+    }
+  ]
+}`;
       
       try {
-        const response = await this.callClaude(prompt, 2000, onProgress);
-        const cleanedResponse = this.cleanJSONResponse(response);
-        const llmGrades = JSON.parse(cleanedResponse);
+        // Validated to hold each question number exactly once, sorted
+        const { grades } = await this.callStructured(prompt, 2000, onProgress, 'grading', gradingOutput(needsLLM.length), { signal });
         
+        const gradeFor = new Map(grades.map(grade => [grade.question_number, grade]));
         needsLLM.forEach((item, i) => {
-          const grade = llmGrades[i] || { is_correct: false, feedback: 'Unable to grade' };
+          const grade = gradeFor.get(i + 1)!;
           results.push({
             question: item.idx,
             issue: item.question.specific_issue,
@@ -780,6 +1133,7 @@ Respond with ONLY valid JSON array of ${needsLLM.length} results in SAME ORDER (
           });
         });
       } catch (error) {
+        if (isFatal(error)) throw error;
         console.error('Error grading with LLM:', error);
         // Add fallback results
         needsLLM.forEach((item) => {
@@ -800,65 +1154,6 @@ Respond with ONLY valid JSON array of ${needsLLM.length} results in SAME ORDER (
     return results.sort((a, b) => a.question - b.question);
   }
   
-  /**
-   * Clean JSON response by removing markdown and extra text
-   * ROBUST VERSION - handles all markdown fence variations
-   */
-  private cleanJSONResponse(response: string): string {
-    let cleaned = response.trim();
-    
-    // Step 1: Remove ALL markdown code fences (```json, ```, etc.)
-    // This handles multiple variations and locations
-    cleaned = cleaned.replace(/```json\s*/g, '');
-    cleaned = cleaned.replace(/```\s*/g, '');
-    cleaned = cleaned.trim();
-    
-    // Step 2: Find the FIRST valid JSON start character
-    const jsonStartBracket = cleaned.indexOf('[');
-    const jsonStartBrace = cleaned.indexOf('{');
-    
-    let jsonStart = -1;
-    if (jsonStartBracket >= 0 && jsonStartBrace >= 0) {
-      jsonStart = Math.min(jsonStartBracket, jsonStartBrace);
-    } else if (jsonStartBracket >= 0) {
-      jsonStart = jsonStartBracket;
-    } else if (jsonStartBrace >= 0) {
-      jsonStart = jsonStartBrace;
-    }
-    
-    if (jsonStart > 0) {
-      cleaned = cleaned.substring(jsonStart);
-    }
-    
-    // Step 3: Find the LAST valid JSON end character that matches the start
-    const startsWithBracket = cleaned.trim().startsWith('[');
-    const startsWithBrace = cleaned.trim().startsWith('{');
-    
-    let jsonEnd = -1;
-    if (startsWithBracket) {
-      jsonEnd = cleaned.lastIndexOf(']');
-    } else if (startsWithBrace) {
-      jsonEnd = cleaned.lastIndexOf('}');
-    }
-    
-    if (jsonEnd > 0 && jsonEnd < cleaned.length - 1) {
-      cleaned = cleaned.substring(0, jsonEnd + 1);
-    }
-    
-    // Step 4: Final trim and validation
-    cleaned = cleaned.trim();
-    
-    // Log for debugging
-    if (!cleaned.startsWith('[') && !cleaned.startsWith('{')) {
-      console.warn(' Cleaned JSON does not start with [ or {:', cleaned.substring(0, 50));
-    }
-    if (!cleaned.endsWith(']') && !cleaned.endsWith('}')) {
-      console.warn(' Cleaned JSON does not end with ] or }:', cleaned.substring(cleaned.length - 50));
-    }
-    
-    return cleaned;
-  }
-  
   /**
    * Extract letter from multiple choice answer
    */
@@ -938,7 +1233,8 @@ Respond with ONLY valid JSON array of ${needsLLM.length} results in SAME ORDER (
       strengths: string[];
       weaknesses: string[];
     },
-    onProgress?: (status: string) => void
+    onProgress?: (status: string) => void,
+    signal?: AbortSignal
   ): Promise<{
     comparison: {
       grammar: { baseline: number; followup: number; change: number; changePercent: number };
@@ -1052,9 +1348,13 @@ Respond with ONLY the assessment text (no JSON, no markdown):`;
     let overallImprovement = '';
     
     try {
-      overallImprovement = await this.callClaude(prompt, 500, onProgress);
+      overallImprovement = await this.callClaude(prompt, 500, onProgress, 'comparison', {
+        signal,
+        cacheWhen: text => text.trim().length > 0
+      });
       overallImprovement = overallImprovement.trim();
     } catch (error) {
+      if (isFatal(error)) throw error;
       console.error('Error generating improvement summary:', error);
       // Generate fallback summary
       const avgChange = (comparison.grammar.changePercent + comparison.punctuation.changePercent + comparison.tone.changePercent) / 3;
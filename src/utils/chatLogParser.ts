@@ -1,74 +1,64 @@
-// Parse OpenAI chat export format
-// Handles the complex nested mapping structure
+// Parse chat exports (OpenAI, Claude.ai) into user messages
+// Format-specific structure is handled by the importers in ./importers
 
-export interface ParsedMessage {
-  id: string;
-  text: string;
-  timestamp: number;
-  conversationId: number;
-  conversationTitle: string;
-}
-
-export interface ParseOptions {
-  startConversation?: number;  // 1-indexed
-  endConversation?: number;    // 1-indexed (inclusive)
-  afterTimestamp?: number;     // Unix timestamp
-}
+import { ParsedMessage, ParseOptions, ChatLogMetadata, ImportedConversation, ImportFormat, RevisionStats, PastedReason, HeuristicRuleSet, HeuristicStats } from '../types';
+import { normalizeChatExport } from './importers';
+import { buildMessageId } from './hash';
+import { summarizeConversation, selectConversationIndices, describeSelection, getDateBounds } from './conversationSelection';
+import { segmentMessage, getAuthoredText } from './segmentation';
+import { DEFAULT_RULE_SET, compileRuleSet, evaluateHeuristic } from './heuristicRules';
+import { detectLanguage } from './languageDetection';
 
-export interface ChatLogMetadata {
-  totalConversations: number;
-  estimatedMessages: number;
-  dateRange: { 
-    earliest: Date | null; 
-    latest: Date | null;
-    earliestTimestamp: number;
-    latestTimestamp: number;
-  };
-  conversationTitles: string[];
-  sampleMessages: number;
-}
+export type { ParsedMessage, ParseOptions, ChatLogMetadata } from '../types';
 
 /**
  * Get metadata about chat logs - scans ALL conversations for accurate date range
  * Fast preview to help user select conversation range
  */
 export function getChatLogMetadata(jsonData: any): ChatLogMetadata {
-  const logs = Array.isArray(jsonData) ? jsonData : [];
-  
+  const { format, conversations } = normalizeChatExport(jsonData);
+  return getConversationsMetadata(conversations, format);
+}
+
+/**
+ * Metadata for already-normalized conversations
+ */
+export function getConversationsMetadata(
+  conversations: ImportedConversation[],
+  format?: ImportFormat
+): ChatLogMetadata {
   let earliestTime = Infinity;
   let latestTime = 0;
   let messageCount = 0;
   const conversationTitles: string[] = [];
   
   // Collect titles from all conversations
-  logs.forEach(conv => {
-    const title = conv.title || 'Untitled';
-    conversationTitles.push(title);
+  conversations.forEach(conv => {
+    conversationTitles.push(conv.title);
   });
   
   // CRITICAL FIX: Scan ALL conversations to get REAL message count AND date range
   console.log('📅 Scanning all conversations for accurate metadata...');
-  logs.forEach((conv, idx) => {
-    const mapping = conv.mapping || {};
-    Object.values(mapping).forEach((node: any) => {
-      const msg = node.message;
-      if (msg?.author?.role === 'user' && msg?.create_time) {
+  conversations.forEach((conv, idx) => {
+    conv.messages.forEach(msg => {
+      if (msg.timestamp) {
         messageCount++; // Count actual messages, not estimate
-        earliestTime = Math.min(earliestTime, msg.create_time);
-        latestTime = Math.max(latestTime, msg.create_time);
+        earliestTime = Math.min(earliestTime, msg.timestamp);
+        latestTime = Math.max(latestTime, msg.timestamp);
       }
     });
     
     // Progress indicator for large files
     if ((idx + 1) % 100 === 0) {
-      console.log(`  Scanned ${idx + 1}/${logs.length} conversations...`);
+      console.log(`  Scanned ${idx + 1}/${conversations.length} conversations...`);
     }
   });
   
   console.log(`✅ Metadata scan complete: ${messageCount} total messages, ${new Date(earliestTime * 1000).toLocaleDateString()} to ${new Date(latestTime * 1000).toLocaleDateString()}`);
   
   return {
-    totalConversations: logs.length,
+    format,
+    totalConversations: conversations.length,
     estimatedMessages: messageCount, // Now actual count, not estimate
     dateRange: {
       earliest: earliestTime !== Infinity ? new Date(earliestTime * 1000) : null,
@@ -77,12 +67,13 @@ export function getChatLogMetadata(jsonData: any): ChatLogMetadata {
       latestTimestamp: latestTime !== 0 ? latestTime : 0
     },
     conversationTitles: conversationTitles,
+    conversations: conversations.map(summarizeConversation),
     sampleMessages: messageCount // Keep for backwards compatibility
   };
 }
 
 /**
- * Parse OpenAI chat logs and extract user messages
+ * Parse chat logs (any supported export format) and extract user messages
  * Now supports conversation range selection
  */
 export function parseChatLogs(
@@ -90,175 +81,173 @@ export function parseChatLogs(
   options: ParseOptions = {},
   onProgress?: (status: string, current: number, total: number) => void
 ): ParsedMessage[] {
-  const logs = Array.isArray(jsonData) ? jsonData : [];
+  const { conversations } = normalizeChatExport(jsonData);
+  return parseConversations(conversations, options, onProgress);
+}
+
+/**
+ * Extract user messages from already-normalized conversations
+ */
+export function parseConversations(
+  conversations: ImportedConversation[],
+  options: ParseOptions = {},
+  onProgress?: (status: string, current: number, total: number) => void
+): ParsedMessage[] {
   const messages: ParsedMessage[] = [];
+  const excludedIds = new Set(options.excludeMessageIds || []);
+  let skippedCount = 0;
+  let fullyPastedCount = 0;
   
-  // Apply conversation range filter
-  const startIdx = options.startConversation ? options.startConversation - 1 : 0;
-  const endIdx = options.endConversation ? options.endConversation : logs.length;
-  const selectedLogs = logs.slice(startIdx, endIdx);
+  // Apply conversation selection (positional range unless a selection is given)
+  const selection = options.selection || {
+    mode: 'range' as const,
+    range: {
+      start: options.startConversation || 1,
+      end: options.endConversation || conversations.length
+    }
+  };
+  const selectedIndices = selectConversationIndices(conversations.map(summarizeConversation), selection);
+  const dateBounds = selection.mode === 'dateRange' ? getDateBounds(selection.dateRange) : null;
+  const selectionLabel = describeSelection(selection);
   
   if (onProgress) {
     onProgress(
-      `Parsing conversations ${startIdx + 1} to ${endIdx}...`,
+      `Parsing ${selectionLabel}...`,
       0,
-      selectedLogs.length
+      selectedIndices.length
     );
   }
   
-  console.log(`📚 Parsing ${selectedLogs.length} conversations (${startIdx + 1} to ${endIdx})`);
+  console.log(`📚 Parsing ${selectedIndices.length} ${selectionLabel}`);
   
-  selectedLogs.forEach((conversation, convIdx) => {
-    const mapping = conversation.mapping || {};
-    const conversationTitle = conversation.title || 'Untitled';
-    const actualConvIdx = startIdx + convIdx;
+  selectedIndices.forEach((actualConvIdx, convIdx) => {
+    const conversation = conversations[actualConvIdx];
+    const conversationTitle = conversation.title;
+    const assistantHashes = new Set(conversation.assistantParagraphHashes || []);
+    // Uploaded documents are the user's own writing - nothing to strip
+    const segmentPasted = !options.keepPastedContent && !conversation.isUserDocument;
     
     if (onProgress && convIdx % 10 === 0) {
       onProgress(
-        `Processing conversation ${convIdx + 1}/${selectedLogs.length}: "${conversationTitle.substring(0, 30)}..."`,
+        `Processing conversation ${convIdx + 1}/${selectedIndices.length}: "${conversationTitle.substring(0, 30)}..."`,
         convIdx,
-        selectedLogs.length
+        selectedIndices.length
       );
     }
     
-    // Iterate through all nodes in mapping
-    Object.values(mapping).forEach((node: any) => {
-      const message = node.message;
+    conversation.messages.forEach(message => {
+      // Filter by timestamp if specified
+      if (options.afterTimestamp && message.timestamp <= options.afterTimestamp) {
+        return;
+      }
+      
+      // Date selections keep only the messages inside the range
+      if (dateBounds && (message.timestamp < dateBounds.from || message.timestamp > dateBounds.to)) {
+        return;
+      }
+      
+      const id = buildMessageId(conversation.id, message.id, message.text);
       
-      if (message && message.author && message.author.role === 'user') {
-        const content = message.content || {};
-        const createTime = message.create_time || 0;
-        
-        // Filter by timestamp if specified
-        if (options.afterTimestamp && createTime <= options.afterTimestamp) {
-          return;
-        }
-        
-        // Extract text from parts array
-        if (content.parts && Array.isArray(content.parts)) {
-          const textParts: string[] = [];
-          
-          content.parts.forEach((part: any) => {
-            if (typeof part === 'string') {
-              textParts.push(part);
-            } else if (typeof part === 'object') {
-              if (part.text) {
-                textParts.push(part.text);
-              } else if (part.content) {
-                textParts.push(String(part.content));
-              }
-            }
-          });
-          
-          const text = textParts.join(' ').trim();
-          
-          if (text) {
-            messages.push({
-              id: `conv_${actualConvIdx}_msg_${messages.length}`,
-              text: text,
-              timestamp: createTime,
-              conversationId: actualConvIdx,
-              conversationTitle: conversationTitle
-            });
-          }
-        }
+      // Skip messages already processed in an earlier run (e.g. the baseline)
+      if (excludedIds.has(id)) {
+        skippedCount++;
+        return;
       }
+      
+      // Only authored segments are evaluated - drop code, quotes and pastes
+      const segments = segmentPasted ? segmentMessage(message.text, assistantHashes) : [];
+      const hasPasted = segments.some(segment => segment.kind === 'pasted');
+      const text = hasPasted ? getAuthoredText(segments) : message.text;
+      if (!text) {
+        fullyPastedCount++;
+        return;
+      }
+      
+      messages.push({
+        id,
+        text,
+        ...(hasPasted && { originalText: message.text, segments }),
+        language: detectLanguage(text),
+        timestamp: message.timestamp,
+        conversationId: actualConvIdx,
+        conversationTitle: conversationTitle,
+        ...(options.includeRevisions && message.revisions && { revisionHistory: message.revisions })
+      });
     });
   });
   
   if (onProgress) {
     onProgress(
-      `✔ Extracted ${messages.length} user messages from ${selectedLogs.length} conversations`,
-      selectedLogs.length,
-      selectedLogs.length
+      `✔ Extracted ${messages.length} user messages from ${selectedIndices.length} conversations`,
+      selectedIndices.length,
+      selectedIndices.length
     );
   }
   
+  if (skippedCount > 0) {
+    console.log(`⏭️ Skipped ${skippedCount} previously evaluated messages`);
+  }
+  if (fullyPastedCount > 0) {
+    console.log(`✂️ Dropped ${fullyPastedCount} messages with no authored text (entirely pasted)`);
+  }
   console.log(`✔ Extracted ${messages.length} user messages`);
   return messages;
 }
 
+/**
+ * Count how often the user edited and resubmitted their own messages
+ * Only meaningful when parsed with includeRevisions
+ */
+export function getRevisionStats(messages: ParsedMessage[]): RevisionStats {
+  const revised = messages.filter(m => m.revisionHistory && m.revisionHistory.length > 0);
+  return {
+    messages_with_revisions: revised.length,
+    total_revisions: revised.reduce((sum, m) => sum + (m.revisionHistory?.length || 0), 0)
+  };
+}
+
+/**
+ * Summarize how much pasted content segmentation stripped, by reason
+ */
+export function getPastedContentStats(messages: ParsedMessage[]): {
+  messagesWithPasted: number;
+  byReason: { [reason in PastedReason]?: number };
+} {
+  const byReason: { [reason in PastedReason]?: number } = {};
+  let messagesWithPasted = 0;
+
+  messages.forEach(msg => {
+    if (!msg.segments) return;
+    messagesWithPasted++;
+    msg.segments.forEach(segment => {
+      if (segment.reason) {
+        byReason[segment.reason] = (byReason[segment.reason] || 0) + 1;
+      }
+    });
+  });
+
+  return { messagesWithPasted, byReason };
+}
+
 /**
  * Filter messages using heuristics (Stage 1)
- * Identifies messages that appear to be writing-related
  * PERMISSIVE: Minimize false negatives - let LLM make final call
+ * Scores each message against the rule set and records the verdict on
+ * `message.heuristic`, so dropped messages can be audited as well as kept ones
  */
 export function filterMessagesHeuristic(
   messages: ParsedMessage[],
-  onProgress?: (status: string, current: number, total: number) => void
+  onProgress?: (status: string, current: number, total: number) => void,
+  ruleSet: HeuristicRuleSet = DEFAULT_RULE_SET
 ): ParsedMessage[] {
   if (onProgress) {
     onProgress('🔍 Stage 1: Permissive heuristic filtering...', 0, messages.length);
   }
   
-  console.log(`🔍 Stage 1 Filtering: ${messages.length} messages (PERMISSIVE STRATEGY)`);
-  
-  // Strong indicators of writing-related content (from Python reference)
-  const writingKeywords = [
-    // Core writing & editing
-    'write', 'writing', 'edit', 'editing', 'proofread', 'revise',
-    'revision', 'rewrite', 'rephrase', 'grammar', 'punctuation',
-    'tone', 'sentence', 'paragraph', 'draft', 'feedback', 'format',
-    
-    // Academic writing
-    'essay', 'paper', 'report', 'document', 'analysis', 'argument',
-    'summary', 'thesis', 'dissertation', 'abstract', 'introduction',
-    'conclusion', 'reflection', 'response', 'notes', 'jot notes',
-    'chapter summary', 'quote integration', 'bibliography',
-    'reference', 'citation', 'cite', 'peer review', 'manuscript',
-    'publication', 'academic', 'formal', 'professional',
-    
-    // Creative writing
-    'story', 'scene', 'narrative', 'creative', 'prompt',
-    
-    // Professional writing
-    'email', 'letter', 'cover letter', 'linkedin', 'message',
-    'statement', 'personal statement', 'supplementary essay',
-    'application writing', 'proposal', 'presentation', 'speech',
-    
-    // Common writing task phrases
-    'expand', 'shorten', 'make it human', 'sound more human'
-  ];
-  
-  // Only filter EXTREMELY obvious non-writing content
-  const excludeKeywords = [
-    // Coding & technical
-    'debug this code', 'syntax error', 'compile error', 'stack trace',
-    'test coverage', 'unit test', 'function definition',
-    'code', 'python', 'javascript', 'sql', 'html', 'css', 'racket',
-    'algorithm', 'compute', 'compile', 'schema', 'erd', 'erd diagram',
-    'normal form', '1nf', '2nf', '3nf', 'query',
-    
-    // Math / calculation
-    'solve for x', 'calculate the', 'find the derivative',
-    'solve this equation', 'what is the integral',
-    'limit', 'derivative', 'vector', 'matrix', 'complex number',
-    
-    // Physics / science
-    'velocity', 'acceleration', 'force', 'momentum', 'energy',
-    'projectile', 'work', 'kinetic', 'potential',
-    'molecule', 'reaction', 'glycolysis', 'atp',
-    
-    // Fitness
-    'workout routine', 'sets and reps', 'bench press program',
-    'workout', 'squat', 'deadlift', 'reps', 'sets', 'cardio',
-    
-    // Tests & quizzes
-    'quiz', 'test', 'multiple choice', 'practice problems',
-    'solve for', 'answer key',
-    
-    // Entertainment
-    'recipe for', 'how to cook', 'movie recommendation',
-    'game walkthrough', 'song lyrics', 'game', 'movie', 'song', 'video'
-  ];
+  console.log(`🔍 Stage 1 Filtering: ${messages.length} messages (rule set: ${ruleSet.name})`);
   
+  const compiledRules = compileRuleSet(ruleSet);
   const filtered: ParsedMessage[] = [];
-  const stats = {
-    too_short: 0,
-    obvious_non_writing: 0,
-    has_writing_keywords: 0,
-    looks_like_prose: 0
-  };
   
   messages.forEach((msg, idx) => {
     if (onProgress && idx % 50 === 0) {
@@ -269,44 +258,14 @@ export function filterMessagesHeuristic(
       );
     }
     
-    const text = msg.text.toLowerCase();
-    const wordCount = msg.text.split(/\s+/).length;
-    
-    // Only filter extremely short messages
-    if (wordCount < 10) {
-      stats.too_short++;
-      return;
-    }
-    
-    // PRIORITY 1: If mentions writing explicitly, KEEP IT
-    const hasWritingKeywords = writingKeywords.some(kw => text.includes(kw));
-    if (hasWritingKeywords) {
-      filtered.push(msg);
-      stats.has_writing_keywords++;
-      return; // Skip all other checks
-    }
-    
-    // PRIORITY 2: Check for OBVIOUS non-writing only
-    const isObviouslyNotWriting = excludeKeywords.some(kw => text.includes(kw));
-    if (isObviouslyNotWriting) {
-      stats.obvious_non_writing++;
-      return;
-    }
-    
-    // PRIORITY 3: Keep anything that looks like prose/formal text
-    // Be very permissive - let Stage 2 (LLM) make final call
-    const hasPunctuation = msg.text.includes('.');
-    const multipleSentences = (msg.text.match(/\./g) || []).length >= 2;
-    const longEnough = wordCount >= 15; // Lowered from 20
-    const hasQuestionMark = msg.text.includes('?');
-    
-    if ((hasPunctuation && longEnough) || multipleSentences || (hasQuestionMark && wordCount >= 15)) {
+    msg.heuristic = evaluateHeuristic(msg.text, compiledRules, ruleSet);
+    if (msg.heuristic.kept) {
       filtered.push(msg);
-      stats.looks_like_prose++;
     }
   });
   
-  const passRate = (filtered.length / messages.length) * 100;
+  const stats = getHeuristicStats(messages, ruleSet);
+  const passRate = messages.length > 0 ? (filtered.length / messages.length) * 100 : 0;
   
   if (onProgress) {
     onProgress(
@@ -317,16 +276,42 @@ export function filterMessagesHeuristic(
   }
   
   console.log(`📊 Stage 1 Results:
-  • Filtered (too short): ${stats.too_short}
-  • Filtered (obvious non-writing): ${stats.obvious_non_writing}
-  • Passed (writing keywords): ${stats.has_writing_keywords}
-  • Passed (looks like prose): ${stats.looks_like_prose}
+  • Filtered (too short): ${stats.by_reason.too_short || 0}
+  • Filtered (non-writing signals): ${stats.by_reason.non_writing_signals || 0}
+  • Filtered (no signals, not prose): ${stats.by_reason.no_signals || 0}
+  • Passed (writing signals): ${stats.by_reason.writing_signals || 0}
+  • Passed (looks like prose): ${stats.by_reason.looks_like_prose || 0}
   • Total passed: ${filtered.length} (${passRate.toFixed(1)}%)
   • Strategy: Permissive - let AI confirm in Stage 2`);
   
   return filtered;
 }
 
+/**
+ * Summarize Stage 1 verdicts - keep/drop reasons and how often each rule matched
+ */
+export function getHeuristicStats(messages: ParsedMessage[], ruleSet: HeuristicRuleSet): HeuristicStats {
+  const stats: HeuristicStats = {
+    rule_set: ruleSet.name,
+    total: 0,
+    kept: 0,
+    by_reason: {},
+    rule_hits: {}
+  };
+  
+  messages.forEach(msg => {
+    if (!msg.heuristic) return;
+    stats.total++;
+    if (msg.heuristic.kept) stats.kept++;
+    stats.by_reason[msg.heuristic.reason] = (stats.by_reason[msg.heuristic.reason] || 0) + 1;
+    msg.heuristic.matchedRules.forEach(ruleId => {
+      stats.rule_hits[ruleId] = (stats.rule_hits[ruleId] || 0) + 1;
+    });
+  });
+  
+  return stats;
+}
+
 /**
  * Get new messages since a baseline timestamp
  * Useful for re-evaluation after practice sessions
@@ -367,32 +352,30 @@ export function getConversationRangeStats(
   titles: string[];
   dateRange: { earliest: Date | null; latest: Date | null };
 } {
-  const logs = Array.isArray(jsonData) ? jsonData : [];
+  const { conversations } = normalizeChatExport(jsonData);
   const startIdx = startConv - 1;
-  const endIdx = Math.min(endConv, logs.length);
-  const selectedLogs = logs.slice(startIdx, endIdx);
+  const endIdx = Math.min(endConv, conversations.length);
+  const selectedConversations = conversations.slice(startIdx, endIdx);
   
   let earliestTime = Infinity;
   let latestTime = 0;
   let messageCount = 0;
   const titles: string[] = [];
   
-  selectedLogs.forEach(conv => {
-    titles.push(conv.title || 'Untitled');
-    const mapping = conv.mapping || {};
+  selectedConversations.forEach(conv => {
+    titles.push(conv.title);
     
-    Object.values(mapping).forEach((node: any) => {
-      const msg = node.message;
-      if (msg?.author?.role === 'user' && msg?.create_time) {
+    conv.messages.forEach(msg => {
+      if (msg.timestamp) {
         messageCount++;
-        earliestTime = Math.min(earliestTime, msg.create_time);
-        latestTime = Math.max(latestTime, msg.create_time);
+        earliestTime = Math.min(earliestTime, msg.timestamp);
+        latestTime = Math.max(latestTime, msg.timestamp);
       }
     });
   });
   
   return {
-    conversationCount: selectedLogs.length,
+    conversationCount: selectedConversations.length,
     estimatedMessages: messageCount,
     titles: titles,
     dateRange: {
@@ -0,0 +1,127 @@
+// Conversation selection - by position range, calendar dates, title regex or
+// hand-picked ids. Date, title and id selections survive reordered exports.
+
+import { ConversationSelection, ConversationSummary, ImportedConversation } from '../types';
+
+/**
+ * Overview of one conversation, used for previews and selection matching
+ */
+export function summarizeConversation(conversation: ImportedConversation): ConversationSummary {
+  let earliest = Infinity;
+  let latest = 0;
+
+  conversation.messages.forEach(msg => {
+    if (msg.timestamp) {
+      earliest = Math.min(earliest, msg.timestamp);
+      latest = Math.max(latest, msg.timestamp);
+    }
+  });
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    messageCount: conversation.messages.length,
+    earliestTimestamp: earliest !== Infinity ? earliest : conversation.createTime || 0,
+    latestTimestamp: latest || conversation.createTime || 0
+  };
+}
+
+/**
+ * Default selection: every conversation by position
+ */
+export function createDefaultSelection(totalConversations: number): ConversationSelection {
+  return { mode: 'range', range: { start: 1, end: totalConversations } };
+}
+
+/**
+ * Convert calendar dates (YYYY-MM-DD, local time) to inclusive Unix bounds
+ */
+export function getDateBounds(dateRange: ConversationSelection['dateRange']): { from: number; to: number } {
+  const from = dateRange?.from ? new Date(`${dateRange.from}T00:00:00`).getTime() / 1000 : -Infinity;
+  const to = dateRange?.to ? new Date(`${dateRange.to}T23:59:59.999`).getTime() / 1000 : Infinity;
+  return {
+    from: isNaN(from) ? -Infinity : from,
+    to: isNaN(to) ? Infinity : to
+  };
+}
+
+/**
+ * Compile a title pattern (case-insensitive); throws a readable error if invalid
+ */
+export function compileTitlePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (err: any) {
+    throw new Error(`Invalid title pattern "${pattern}": ${err.message}`);
+  }
+}
+
+/**
+ * Indices (0-based) of the conversations a selection picks, in export order
+ */
+export function selectConversationIndices(
+  summaries: ConversationSummary[],
+  selection: ConversationSelection
+): number[] {
+  const indices: number[] = [];
+
+  switch (selection.mode) {
+    case 'range': {
+      const start = Math.max(1, selection.range?.start || 1);
+      const end = Math.min(summaries.length, selection.range?.end || summaries.length);
+      for (let i = start - 1; i < end; i++) {
+        indices.push(i);
+      }
+      break;
+    }
+
+    case 'dateRange': {
+      const bounds = getDateBounds(selection.dateRange);
+      summaries.forEach((summary, idx) => {
+        // Any overlap between the conversation's activity and the date range
+        if (summary.latestTimestamp >= bounds.from && summary.earliestTimestamp <= bounds.to) {
+          indices.push(idx);
+        }
+      });
+      break;
+    }
+
+    case 'title': {
+      const pattern = compileTitlePattern(selection.titlePattern || '');
+      summaries.forEach((summary, idx) => {
+        if (pattern.test(summary.title)) {
+          indices.push(idx);
+        }
+      });
+      break;
+    }
+
+    case 'manual': {
+      const ids = new Set(selection.conversationIds || []);
+      summaries.forEach((summary, idx) => {
+        if (ids.has(summary.id)) {
+          indices.push(idx);
+        }
+      });
+      break;
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Short human-readable description, e.g. for processing logs and reports
+ */
+export function describeSelection(selection: ConversationSelection): string {
+  switch (selection.mode) {
+    case 'range':
+      return `conversations #${selection.range?.start ?? 1} to #${selection.range?.end ?? '?'}`;
+    case 'dateRange':
+      return `conversations from ${selection.dateRange?.from || 'the beginning'} to ${selection.dateRange?.to || 'today'}`;
+    case 'title':
+      return `conversations with titles matching /${selection.titlePattern || ''}/i`;
+    case 'manual':
+      return `${selection.conversationIds?.length || 0} hand-picked conversations`;
+  }
+}
@@ -0,0 +1,267 @@
+// Token and dollar cost estimates for the LLM stages
+// Estimates are built from the actual message lengths before anything is sent;
+// actual usage comes from the `usage` field of each API response
+
+import { PipelineStage, TokenUsage, StageCostEstimate, CostEstimate, RunUsage, StageModels } from '../types';
+
+export interface ModelPricing {
+  label: string;
+  input: number;   // USD per million input tokens
+  output: number;  // USD per million output tokens
+}
+
+export const DEFAULT_MODEL = 'claude-haiku-4-5-20251001';
+
+export const MODEL_PRICING: { [model: string]: ModelPricing } = {
+  'claude-haiku-4-5-20251001': { label: 'Claude Haiku 4.5', input: 1, output: 5 },
+  'claude-sonnet-4-5-20250929': { label: 'Claude Sonnet 4.5', input: 3, output: 15 },
+  'claude-opus-4-1-20250805': { label: 'Claude Opus 4.1', input: 15, output: 75 },
+  'mock-writing-tutor': { label: 'Offline demo', input: 0, output: 0 }
+};
+
+export const STAGE_LABELS: { [stage in PipelineStage]: string } = {
+  relevance: 'Stage 2 relevance check',
+  evaluation: 'Stage 3 evaluation',
+  patterns: 'Pattern analysis',
+  questions: 'Practice questions',
+  grading: 'Practice grading',
+  comparison: 'Comparison summary',
+  other: 'Other requests'
+};
+
+// Prompt sizes in tokens, measured from the templates in anthropicApi.ts.
+// Outputs are typical response sizes, not the max_tokens ceilings.
+const PROMPT_SHAPES: { [stage in PipelineStage]: { overhead: number; output: number } } = {
+  relevance: { overhead: 280, output: 5 },       // + message previews, ~3 output tokens per message
+  evaluation: { overhead: 400, output: 10 },     // + full messages, ~200 output tokens per message
+  patterns: { overhead: 650, output: 900 },      // + every issue found in Stage 3
+  questions: { overhead: 380, output: 1200 },    // + top 3 issues, 6 questions out
+  grading: { overhead: 120, output: 300 },
+  comparison: { overhead: 410, output: 150 },    // + both analyses summarized
+  other: { overhead: 0, output: 0 }
+};
+
+const RELEVANCE_BATCH_SIZE = 10;
+const EVALUATION_BATCH_SIZE = 5;
+const RELEVANCE_PREVIEW_CHARS = 800;
+const RELEVANCE_OUTPUT_PER_MESSAGE = 3;
+const EVALUATION_OUTPUT_PER_MESSAGE = 200;  // Scores, issue lists and ~3 annotations
+const ISSUE_TOKENS_PER_EVALUATION = 35;  // ~3 short issue strings per message
+const QUESTION_ISSUES_TOKENS = 120;
+const COMPARISON_ANALYSIS_TOKENS = 600;
+
+/**
+ * Rough token count - ~4 characters per token for English prose
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Pricing for a model, falling back to the default model's prices
+ * (so estimates for unknown or local models are an upper bound)
+ */
+export function getModelPricing(model: string = DEFAULT_MODEL): ModelPricing {
+  return MODEL_PRICING[model] || MODEL_PRICING[DEFAULT_MODEL];
+}
+
+/**
+ * Display name for a model - unknown (e.g. local) models show their own name
+ */
+export function getModelLabel(model: string): string {
+  return MODEL_PRICING[model]?.label || model;
+}
+
+/**
+ * Dollar cost of a number of input and output tokens
+ */
+export function calculateCost(inputTokens: number, outputTokens: number, model: string = DEFAULT_MODEL): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Format a dollar amount - sub-cent amounts keep enough digits to be meaningful
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Parse a budget input - empty, zero or invalid input means no cap
+ */
+export function parseBudget(input: string): number | null {
+  const value = parseFloat(input.replace(/[$,\s]/g, ''));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function stageEstimate(
+  stage: PipelineStage,
+  requests: number,
+  inputTokens: number,
+  outputTokens: number,
+  model: string
+): StageCostEstimate {
+  return {
+    stage,
+    requests,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: calculateCost(inputTokens, outputTokens, model)
+  };
+}
+
+export interface CostEstimateInput {
+  relevanceTexts?: string[];   // Messages Stage 2 will confirm
+  evaluationTexts?: string[];  // Messages Stage 3 will evaluate
+  practiceSessions?: number;   // Question-generation calls
+  comparison?: boolean;        // Re-evaluation comparison summary
+}
+
+/**
+ * Estimate tokens and cost for the stages of a run
+ * Each stage is priced at its own model when stageModels overrides it
+ * Stages with nothing to do are left out of the breakdown
+ */
+export function estimateRunCost(
+  input: CostEstimateInput,
+  defaultModel: string = DEFAULT_MODEL,
+  stageModels: StageModels = {}
+): CostEstimate {
+  const modelFor = (stage: PipelineStage) => stageModels[stage] || defaultModel;
+  const stages: StageCostEstimate[] = [];
+  const relevanceTexts = input.relevanceTexts || [];
+  const evaluationTexts = input.evaluationTexts || [];
+
+  if (relevanceTexts.length > 0) {
+    const requests = Math.ceil(relevanceTexts.length / RELEVANCE_BATCH_SIZE);
+    const messageTokens = relevanceTexts.reduce(
+      (sum, text) => sum + estimateTokens(text.substring(0, RELEVANCE_PREVIEW_CHARS)) + 5,
+      0
+    );
+    stages.push(stageEstimate(
+      'relevance',
+      requests,
+      requests * PROMPT_SHAPES.relevance.overhead + messageTokens,
+      requests * PROMPT_SHAPES.relevance.output + relevanceTexts.length * RELEVANCE_OUTPUT_PER_MESSAGE,
+      modelFor('relevance')
+    ));
+  }
+
+  if (evaluationTexts.length > 0) {
+    const requests = Math.ceil(evaluationTexts.length / EVALUATION_BATCH_SIZE);
+    const messageTokens = evaluationTexts.reduce((sum, text) => sum + estimateTokens(text) + 8, 0);
+    stages.push(stageEstimate(
+      'evaluation',
+      requests,
+      requests * PROMPT_SHAPES.evaluation.overhead + messageTokens,
+      requests * PROMPT_SHAPES.evaluation.output + evaluationTexts.length * EVALUATION_OUTPUT_PER_MESSAGE,
+      modelFor('evaluation')
+    ));
+
+    // One pattern-analysis call over every issue Stage 3 reports
+    stages.push(stageEstimate(
+      'patterns',
+      1,
+      PROMPT_SHAPES.patterns.overhead + evaluationTexts.length * ISSUE_TOKENS_PER_EVALUATION,
+      PROMPT_SHAPES.patterns.output,
+      modelFor('patterns')
+    ));
+  }
+
+  if (input.comparison) {
+    stages.push(stageEstimate(
+      'comparison',
+      1,
+      PROMPT_SHAPES.comparison.overhead + COMPARISON_ANALYSIS_TOKENS,
+      PROMPT_SHAPES.comparison.output,
+      modelFor('comparison')
+    ));
+  }
+
+  const sessions = input.practiceSessions || 0;
+  if (sessions > 0) {
+    stages.push(stageEstimate(
+      'questions',
+      sessions,
+      sessions * (PROMPT_SHAPES.questions.overhead + QUESTION_ISSUES_TOKENS),
+      sessions * PROMPT_SHAPES.questions.output,
+      modelFor('questions')
+    ));
+  }
+
+  const total: TokenUsage = stages.reduce(
+    (sum, stage) => ({
+      requests: sum.requests + stage.requests,
+      input_tokens: sum.input_tokens + stage.input_tokens,
+      output_tokens: sum.output_tokens + stage.output_tokens,
+      cost_usd: sum.cost_usd + stage.cost_usd
+    }),
+    { requests: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+  );
+
+  return { model: defaultModel, stages, total };
+}
+
+/**
+ * Empty usage record for a new run
+ */
+export function createRunUsage(model: string = DEFAULT_MODEL): RunUsage {
+  return { model, requests: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, by_stage: {}, stage_models: {} };
+}
+
+/**
+ * Add one response's reported usage to a run, overall and for its stage
+ * Priced at the model that served the request (the run's model by default)
+ */
+export function addUsage(
+  usage: RunUsage,
+  stage: PipelineStage,
+  inputTokens: number,
+  outputTokens: number,
+  model: string = usage.model
+): void {
+  const cost = calculateCost(inputTokens, outputTokens, model);
+  const stageUsage = usage.by_stage[stage] || { requests: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+
+  [usage, stageUsage].forEach(record => {
+    record.requests += 1;
+    record.input_tokens += inputTokens;
+    record.output_tokens += outputTokens;
+    record.cost_usd += cost;
+  });
+  usage.by_stage[stage] = stageUsage;
+  usage.stage_models[stage] = model;
+}
+
+/**
+ * Count a response-cache lookup - a hit adds what the replaced request cost to the savings
+ */
+export function addCacheLookup(usage: RunUsage, savedUsd: number | null): void {
+  if (savedUsd === null) {
+    usage.cache_misses = (usage.cache_misses || 0) + 1;
+  } else {
+    usage.cache_hits = (usage.cache_hits || 0) + 1;
+    usage.cache_saved_usd = (usage.cache_saved_usd || 0) + savedUsd;
+  }
+}
+
+/**
+ * Thrown before a request that would take a run past its budget
+ * Carries the spend so far so the UI can explain why the run stopped
+ */
+export class BudgetExceededError extends Error {
+  readonly spentUsd: number;
+  readonly budgetUsd: number;
+  readonly stage: PipelineStage;
+
+  constructor(spentUsd: number, budgetUsd: number, stage: PipelineStage) {
+    super(`Budget of ${formatCost(budgetUsd)} reached (${formatCost(spentUsd)} spent) - stopped before ${STAGE_LABELS[stage].toLowerCase()}`);
+    this.name = 'BudgetExceededError';
+    this.spentUsd = spentUsd;
+    this.budgetUsd = budgetUsd;
+    this.stage = stage;
+  }
+}
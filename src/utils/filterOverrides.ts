@@ -0,0 +1,43 @@
+// Filter review - combines the Stage 1 and Stage 2 verdicts with the user's
+// forced include/exclude overrides to decide what gets evaluated
+
+import { ParsedMessage, FilterOverrides } from '../types';
+
+/**
+ * Whether a message still needs Stage 2 (LLM) confirmation
+ * Overridden messages are already decided, so no tokens are spent on them
+ */
+export function needsLLMConfirmation(message: ParsedMessage, overrides: FilterOverrides): boolean {
+  return !overrides[message.id] && !!message.heuristic?.kept;
+}
+
+/**
+ * Final keep/drop decision for a message: an override wins, otherwise it must
+ * pass Stage 1 and not be rejected by Stage 2
+ */
+export function isSelectedForEvaluation(message: ParsedMessage, overrides: FilterOverrides): boolean {
+  const override = overrides[message.id];
+  if (override) {
+    return override === 'include';
+  }
+  return !!message.heuristic?.kept && message.llmVerdict !== 'not_relevant';
+}
+
+/**
+ * Messages to evaluate after filtering and overrides
+ */
+export function selectForEvaluation(messages: ParsedMessage[], overrides: FilterOverrides): ParsedMessage[] {
+  return messages.filter(message => isSelectedForEvaluation(message, overrides));
+}
+
+/**
+ * How many of the given messages have an override, by kind
+ */
+export function countOverrides(messages: ParsedMessage[], overrides: FilterOverrides): { include: number; exclude: number } {
+  const counts = { include: 0, exclude: 0 };
+  messages.forEach(message => {
+    const override = overrides[message.id];
+    if (override) counts[override]++;
+  });
+  return counts;
+}
@@ -0,0 +1,37 @@
+// Fast, synchronous content hashing for stable IDs
+// Not cryptographic - only used to fingerprint message text
+
+/**
+ * 53-bit string hash (cyrb53), returned as base36
+ */
+export function hashText(text: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Stable message ID from the source conversation ID, source node ID and text
+ * The same message gets the same ID regardless of export order or selected range
+ */
+export function buildMessageId(conversationId: string, nodeId: string, text: string): string {
+  return `${conversationId}:${nodeId}:${hashText(text.trim())}`;
+}
+
+/**
+ * Fallback ID for an exported conversation or message that has none, from its content
+ * Never from its position, so re-importing a reordered export gives the same IDs
+ */
+export function buildContentId(prefix: string, parts: Array<string | number>): string {
+  return `${prefix}_${hashText(parts.join('\u0000'))}`;
+}
@@ -0,0 +1,102 @@
+import { compileRuleSet, DEFAULT_RULE_SET, evaluateHeuristic, exportRuleSet, parseRuleSet } from './heuristicRules';
+import { HeuristicRuleSet } from '../types';
+
+const ruleSet = (overrides: Partial<HeuristicRuleSet> = {}): HeuristicRuleSet => ({
+  name: 'Test',
+  minWords: 3,
+  keepThreshold: 1,
+  dropThreshold: -1,
+  keepProse: false,
+  rules: [
+    { id: 'writing', label: 'Writing', terms: ['essay', 'cover letter'], weight: 2, enabled: true },
+    { id: 'coding', label: 'Coding', terms: ['code', 'c++'], weight: -1, enabled: true }
+  ],
+  ...overrides
+});
+
+const evaluate = (text: string, set: HeuristicRuleSet = ruleSet()) =>
+  evaluateHeuristic(text, compileRuleSet(set), set);
+
+describe('compileRuleSet', () => {
+  test('skips disabled, zero-weight and empty rules', () => {
+    const compiled = compileRuleSet(ruleSet({
+      rules: [
+        { id: 'on', label: 'On', terms: ['essay'], weight: 1, enabled: true },
+        { id: 'off', label: 'Off', terms: ['essay'], weight: 1, enabled: false },
+        { id: 'zero', label: 'Zero', terms: ['essay'], weight: 0, enabled: true },
+        { id: 'blank', label: 'Blank', terms: ['  ', ''], weight: 1, enabled: true }
+      ]
+    }));
+    expect(compiled.map(c => c.rule.id)).toEqual(['on']);
+  });
+
+  test('matches whole words only, in any case', () => {
+    const [, coding] = compileRuleSet(ruleSet());
+    expect('Fix my CODE please').toMatch(coding.pattern);
+    expect('decode this message').not.toMatch(coding.pattern);
+    expect("the coder's notes").not.toMatch(coding.pattern);
+  });
+
+  test('escapes regex characters and tolerates any whitespace in multi-word terms', () => {
+    const [writing, coding] = compileRuleSet(ruleSet());
+    expect('my c++ homework').toMatch(coding.pattern);
+    expect('a cover\n  letter for the job').toMatch(writing.pattern);
+  });
+});
+
+describe('evaluateHeuristic', () => {
+  test('drops messages below the word minimum', () => {
+    expect(evaluate('essay help')).toMatchObject({ kept: false, reason: 'too_short', score: 0 });
+  });
+
+  test('keeps messages whose rules score at or above the keep threshold', () => {
+    const verdict = evaluate('please review my essay about code reviews');
+    expect(verdict).toMatchObject({ kept: true, reason: 'writing_signals', score: 1 });
+    expect(verdict.matchedRules).toEqual(['writing', 'coding']);
+    expect(verdict.matchedTerms).toEqual(['essay', 'code']);
+  });
+
+  test('counts a rule once however many of its terms appear', () => {
+    const verdict = evaluate('code code and more code everywhere');
+    expect(verdict).toMatchObject({ kept: false, reason: 'non_writing_signals', score: -1 });
+    expect(verdict.matchedTerms).toEqual(['code']);
+  });
+
+  test('drops undecided messages unless prose is kept', () => {
+    const text = 'I went to the market today. It was busy.';
+    expect(evaluate(text)).toMatchObject({ kept: false, reason: 'no_signals' });
+    expect(evaluate(text, ruleSet({ keepProse: true }))).toMatchObject({ kept: true, reason: 'looks_like_prose' });
+  });
+
+  test('keeps writing requests that mention a science term with the default rules', () => {
+    const verdict = evaluate('Can you edit my lab report on velocity and acceleration for me?', DEFAULT_RULE_SET);
+    expect(verdict.kept).toBe(true);
+    expect(verdict.reason).toBe('writing_signals');
+  });
+});
+
+describe('parseRuleSet', () => {
+  test('round-trips an exported rule set', () => {
+    expect(parseRuleSet(JSON.parse(exportRuleSet(DEFAULT_RULE_SET)))).toEqual(DEFAULT_RULE_SET);
+  });
+
+  test('fills in defaults for optional fields', () => {
+    const parsed = parseRuleSet({
+      keepThreshold: 1,
+      dropThreshold: -1,
+      rules: [{ id: 'x', terms: ['essay'], weight: 1 }]
+    });
+    expect(parsed).toMatchObject({ name: 'Imported rules', minWords: DEFAULT_RULE_SET.minWords, keepProse: true });
+    expect(parsed.rules[0]).toEqual({ id: 'x', label: 'x', terms: ['essay'], weight: 1, enabled: true });
+  });
+
+  test.each([
+    [{ rules: 'nope' }, 'expected an object with a "rules" array'],
+    [{ keepThreshold: 1, dropThreshold: -1, rules: [{ id: 'a', terms: [], weight: 1 }, { id: 'a', terms: [], weight: 1 }] }, 'duplicate rule id "a"'],
+    [{ keepThreshold: 1, dropThreshold: -1, rules: [{ id: 'a', terms: [1], weight: 1 }] }, 'rule "a" needs a "terms" array of strings'],
+    [{ keepThreshold: 1, dropThreshold: -1, rules: [{ id: 'a', terms: [], weight: 'heavy' }] }, '"a.weight" must be a number'],
+    [{ keepThreshold: 0, dropThreshold: 0, rules: [] }, '"dropThreshold" must be below "keepThreshold"']
+  ])('rejects %j', (raw, message) => {
+    expect(() => parseRuleSet(raw)).toThrow(message);
+  });
+});
@@ -0,0 +1,218 @@
+// Rule sets for the Stage 1 heuristic filter
+// Terms match on word boundaries ("code" no longer matches "decode"), each rule
+// carries a weight, and the summed score is compared against thresholds
+
+import { HeuristicRule, HeuristicRuleSet, HeuristicVerdict } from '../types';
+
+// Writing rules outweigh a single non-writing rule, so "edit my lab report on
+// velocity" is still kept - matching the old "writing keywords win" priority
+const WRITING_WEIGHT = 2;
+const NON_WRITING_WEIGHT = -1;
+
+const writingRule = (id: string, label: string, terms: string[]): HeuristicRule =>
+  ({ id, label, terms, weight: WRITING_WEIGHT, enabled: true });
+
+const nonWritingRule = (id: string, label: string, terms: string[]): HeuristicRule =>
+  ({ id, label, terms, weight: NON_WRITING_WEIGHT, enabled: true });
+
+export const DEFAULT_RULE_SET: HeuristicRuleSet = {
+  name: 'Default (permissive)',
+  minWords: 10,
+  keepThreshold: 1,
+  dropThreshold: -1,
+  keepProse: true,
+  rules: [
+    writingRule('writing_core', 'Writing & editing', [
+      'write', 'writing', 'edit', 'editing', 'proofread', 'revise',
+      'revision', 'rewrite', 'rephrase', 'grammar', 'punctuation',
+      'tone', 'sentence', 'paragraph', 'draft', 'feedback', 'format'
+    ]),
+    writingRule('writing_academic', 'Academic writing', [
+      'essay', 'paper', 'report', 'document', 'analysis', 'argument',
+      'summary', 'thesis', 'dissertation', 'abstract', 'introduction',
+      'conclusion', 'reflection', 'response', 'notes', 'jot notes',
+      'chapter summary', 'quote integration', 'bibliography',
+      'reference', 'citation', 'cite', 'peer review', 'manuscript',
+      'publication', 'academic', 'formal', 'professional'
+    ]),
+    writingRule('writing_creative', 'Creative writing', [
+      'story', 'scene', 'narrative', 'creative', 'prompt'
+    ]),
+    writingRule('writing_professional', 'Professional writing', [
+      'email', 'letter', 'cover letter', 'linkedin', 'message',
+      'statement', 'personal statement', 'supplementary essay',
+      'application writing', 'proposal', 'presentation', 'speech'
+    ]),
+    writingRule('writing_tasks', 'Writing task phrases', [
+      'expand', 'shorten', 'make it human', 'sound more human'
+    ]),
+    nonWritingRule('coding', 'Coding & technical', [
+      'debug this code', 'syntax error', 'compile error', 'stack trace',
+      'test coverage', 'unit test', 'function definition',
+      'code', 'python', 'javascript', 'sql', 'html', 'css', 'racket',
+      'algorithm', 'compute', 'compile', 'schema', 'erd', 'erd diagram',
+      'normal form', '1nf', '2nf', '3nf', 'query'
+    ]),
+    nonWritingRule('math', 'Math & calculation', [
+      'solve for x', 'calculate the', 'find the derivative',
+      'solve this equation', 'what is the integral',
+      'limit', 'derivative', 'vector', 'matrix', 'complex number'
+    ]),
+    nonWritingRule('science', 'Physics & science', [
+      'velocity', 'acceleration', 'force', 'momentum', 'kinetic energy',
+      'potential energy', 'projectile', 'work done', 'molecule',
+      'chemical reaction', 'glycolysis', 'atp'
+    ]),
+    nonWritingRule('fitness', 'Fitness', [
+      'workout routine', 'sets and reps', 'bench press program',
+      'workout', 'squat', 'deadlift', 'reps', 'cardio'
+    ]),
+    nonWritingRule('quizzes', 'Tests & quizzes', [
+      'quiz', 'practice test', 'test question', 'multiple choice',
+      'practice problems', 'solve for', 'answer key'
+    ]),
+    nonWritingRule('entertainment', 'Entertainment', [
+      'recipe for', 'how to cook', 'movie recommendation',
+      'game walkthrough', 'song lyrics', 'video game', 'movie', 'song'
+    ])
+  ]
+};
+
+export interface CompiledRule {
+  rule: HeuristicRule;
+  pattern: RegExp;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile enabled rules into word-boundary regexes
+ * Multi-word terms tolerate any whitespace between words
+ */
+export function compileRuleSet(ruleSet: HeuristicRuleSet): CompiledRule[] {
+  return ruleSet.rules
+    .filter(rule => rule.enabled && rule.weight !== 0)
+    .map(rule => {
+      const terms = rule.terms
+        .map(term => term.trim())
+        .filter(term => term.length > 0)
+        .map(term => term.split(/\s+/).map(escapeRegExp).join('\\s+'));
+      return { rule, terms };
+    })
+    .filter(({ terms }) => terms.length > 0)
+    .map(({ rule, terms }) => ({
+      rule,
+      pattern: new RegExp(`(?<![\\w'])(?:${terms.join('|')})(?![\\w'])`, 'gi')
+    }));
+}
+
+/**
+ * Score a message against compiled rules and decide whether Stage 1 keeps it
+ */
+export function evaluateHeuristic(
+  text: string,
+  compiledRules: CompiledRule[],
+  ruleSet: HeuristicRuleSet
+): HeuristicVerdict {
+  const wordCount = text.split(/\s+/).filter(w => w.length > 0).length;
+  if (wordCount < ruleSet.minWords) {
+    return { kept: false, reason: 'too_short', score: 0, matchedRules: [], matchedTerms: [] };
+  }
+
+  let score = 0;
+  const matchedRules: string[] = [];
+  const matchedTerms = new Set<string>();
+
+  compiledRules.forEach(({ rule, pattern }) => {
+    const matches = text.match(pattern);
+    if (!matches) return;
+    // A rule counts once, however many of its terms appear
+    score += rule.weight;
+    matchedRules.push(rule.id);
+    matches.forEach(match => matchedTerms.add(match.toLowerCase().replace(/\s+/g, ' ')));
+  });
+
+  const verdict = (kept: boolean, reason: HeuristicVerdict['reason']): HeuristicVerdict =>
+    ({ kept, reason, score, matchedRules, matchedTerms: Array.from(matchedTerms) });
+
+  if (score >= ruleSet.keepThreshold) {
+    return verdict(true, 'writing_signals');
+  }
+  if (score <= ruleSet.dropThreshold) {
+    return verdict(false, 'non_writing_signals');
+  }
+
+  // Undecided - be permissive and let Stage 2 (LLM) make the final call
+  if (ruleSet.keepProse) {
+    const periods = (text.match(/\./g) || []).length;
+    const looksLikeProse =
+      (periods >= 1 && wordCount >= 15) ||
+      periods >= 2 ||
+      (text.includes('?') && wordCount >= 15);
+    if (looksLikeProse) {
+      return verdict(true, 'looks_like_prose');
+    }
+  }
+
+  return verdict(false, 'no_signals');
+}
+
+/**
+ * Validate a rule set loaded from JSON (import or saved workspace)
+ * Throws with a readable message on the first problem found
+ */
+export function parseRuleSet(raw: any): HeuristicRuleSet {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.rules)) {
+    throw new Error('Invalid rule set: expected an object with a "rules" array');
+  }
+
+  const number = (value: any, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Invalid rule set: "${field}" must be a number`);
+    }
+    return value;
+  };
+
+  const seenIds = new Set<string>();
+  const rules: HeuristicRule[] = raw.rules.map((rule: any, idx: number) => {
+    if (!rule || typeof rule.id !== 'string' || !rule.id.trim()) {
+      throw new Error(`Invalid rule set: rule ${idx + 1} needs an "id"`);
+    }
+    if (seenIds.has(rule.id)) {
+      throw new Error(`Invalid rule set: duplicate rule id "${rule.id}"`);
+    }
+    seenIds.add(rule.id);
+    if (!Array.isArray(rule.terms) || rule.terms.some((t: any) => typeof t !== 'string')) {
+      throw new Error(`Invalid rule set: rule "${rule.id}" needs a "terms" array of strings`);
+    }
+    return {
+      id: rule.id,
+      label: typeof rule.label === 'string' && rule.label ? rule.label : rule.id,
+      terms: rule.terms,
+      weight: number(rule.weight, `${rule.id}.weight`),
+      enabled: rule.enabled !== false
+    };
+  });
+
+  const ruleSet: HeuristicRuleSet = {
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Imported rules',
+    minWords: raw.minWords === undefined ? DEFAULT_RULE_SET.minWords : number(raw.minWords, 'minWords'),
+    keepThreshold: number(raw.keepThreshold, 'keepThreshold'),
+    dropThreshold: number(raw.dropThreshold, 'dropThreshold'),
+    keepProse: raw.keepProse !== false,
+    rules
+  };
+
+  if (ruleSet.dropThreshold >= ruleSet.keepThreshold) {
+    throw new Error('Invalid rule set: "dropThreshold" must be below "keepThreshold"');
+  }
+
+  return ruleSet;
+}
+
+/**
+ * Serialize a rule set for export
+ */
+export function exportRuleSet(ruleSet: HeuristicRuleSet): string {
+  return JSON.stringify(ruleSet, null, 2);
+}
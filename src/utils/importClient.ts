@@ -0,0 +1,91 @@
+// Import client - runs file imports in a Web Worker and caches the parsed
+// index per file, so setup, evaluation and re-evaluation never re-parse an upload
+
+import { ImportedIndex, ImportWorkerResponse } from '../types';
+import { importFiles, ImportProgressCallback } from './importers';
+import { getConversationsMetadata } from './chatLogParser';
+
+// Parsed indexes are large for big exports - keep only the most recent uploads
+const MAX_CACHED_INDEXES = 2;
+const indexCache = new Map<string, Promise<ImportedIndex>>();
+
+/**
+ * Cache key for a file selection - name, size and modification time of each file
+ */
+export function getFilesCacheKey(files: File[]): string {
+  return files.map(f => `${f.name}:${f.size}:${f.lastModified}`).join('|');
+}
+
+/**
+ * Main-thread fallback for environments without Web Workers
+ */
+async function importOnMainThread(files: File[], onProgress?: ImportProgressCallback): Promise<ImportedIndex> {
+  const { format, conversations } = await importFiles(files, onProgress);
+  return { format, conversations, metadata: getConversationsMetadata(conversations, format) };
+}
+
+function importInWorker(files: File[], onProgress?: ImportProgressCallback): Promise<ImportedIndex> {
+  if (typeof Worker === 'undefined') {
+    return importOnMainThread(files, onProgress);
+  }
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url));
+  } catch (err) {
+    console.warn('⚠️ Import worker unavailable, parsing on the main thread:', err);
+    return importOnMainThread(files, onProgress);
+  }
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.status, message.current, message.total);
+          break;
+        case 'done':
+          worker.terminate();
+          resolve(message.index);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.warn('⚠️ Import worker failed, parsing on the main thread:', event.message);
+      importOnMainThread(files, onProgress).then(resolve, reject);
+    };
+
+    worker.postMessage({ files });
+  });
+}
+
+/**
+ * Import files (chat export or documents) and return the parsed index
+ * Parsed once per file - later calls with the same files resolve from cache
+ */
+export function loadImportIndex(files: File[], onProgress?: ImportProgressCallback): Promise<ImportedIndex> {
+  const key = getFilesCacheKey(files);
+  const cached = indexCache.get(key);
+  if (cached) {
+    console.log('⚡ Using cached import index');
+    return cached;
+  }
+
+  const pending = importInWorker(files, onProgress).catch(err => {
+    indexCache.delete(key);  // Don't cache failures - let the user retry
+    throw err;
+  });
+
+  indexCache.set(key, pending);
+  while (indexCache.size > MAX_CACHED_INDEXES) {
+    indexCache.delete(indexCache.keys().next().value);
+  }
+
+  return pending;
+}
@@ -0,0 +1,83 @@
+import { claudeImporter } from './claudeImporter';
+import { normalizeChatExport } from './index';
+
+const claudeExport = () => ({
+  uuid: 'conv-1',
+  name: 'Essay feedback',
+  created_at: '2024-03-01T10:00:00Z',
+  chat_messages: [
+    {
+      uuid: 'm1',
+      sender: 'human',
+      created_at: '2024-03-01T10:00:00Z',
+      text: '',
+      content: [
+        { type: 'text', text: 'Can you check my introduction?' },
+        { type: 'image', source: {} },
+        { type: 'text', text: 'It is for history class.' }
+      ]
+    },
+    {
+      uuid: 'm2',
+      sender: 'assistant',
+      created_at: '2024-03-01T10:00:05Z',
+      content: [{ type: 'text', text: 'Your introduction states the thesis clearly and sets up the argument well.' }]
+    },
+    { uuid: 'm3', sender: 'human', created_at: '2024-03-01T10:01:00Z', text: 'Thanks, that helps a lot.' },
+    { uuid: 'm4', sender: 'human', created_at: '2024-03-01T10:02:00Z', content: [{ type: 'tool_use' }], text: '' }
+  ]
+});
+
+// The same export with every uuid removed
+const withoutIds = () => {
+  const raw: any = claudeExport();
+  delete raw.uuid;
+  raw.chat_messages.forEach((message: any) => delete message.uuid);
+  return raw;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('claudeImporter', () => {
+  test('detects exports with chat_messages', () => {
+    expect(claudeImporter.detect(claudeExport())).toBe(true);
+    expect(claudeImporter.detect({ mapping: {} })).toBe(false);
+  });
+
+  test('joins text content blocks and falls back to the text field', () => {
+    const conversation = claudeImporter.normalize(claudeExport());
+    expect(conversation).toMatchObject({ id: 'conv-1', title: 'Essay feedback', createTime: Date.parse('2024-03-01T10:00:00Z') / 1000 });
+    expect(conversation.messages).toEqual([
+      { id: 'm1', text: 'Can you check my introduction? It is for history class.', timestamp: Date.parse('2024-03-01T10:00:00Z') / 1000 },
+      { id: 'm3', text: 'Thanks, that helps a lot.', timestamp: Date.parse('2024-03-01T10:01:00Z') / 1000 }
+    ]);
+    expect(conversation.assistantParagraphHashes).toHaveLength(1);
+  });
+
+  test('derives missing ids from content, so reordering the export keeps them', () => {
+    const other = withoutIds();
+    other.name = 'Another essay';
+    const [first, second] = normalizeChatExport([withoutIds(), other]).conversations;
+    const reordered = normalizeChatExport([other, withoutIds()]).conversations;
+
+    expect(first.id).toMatch(/^claude_/);
+    expect(first.messages.map(m => m.id)).toEqual([expect.stringMatching(/^msg_/), expect.stringMatching(/^msg_/)]);
+    expect(first.id).not.toBe(second.id);
+    expect(reordered.map(c => c.id)).toEqual([second.id, first.id]);
+    expect(reordered[1].messages.map(m => m.id)).toEqual(first.messages.map(m => m.id));
+    expect(new Set([...first.messages, ...second.messages].map(m => m.id)).size).toBe(4);
+  });
+
+  test('gives repeated messages distinct ids', () => {
+    const raw = withoutIds();
+    raw.chat_messages.push({ sender: 'human', text: 'Thanks, that helps a lot.' });
+    const ids = claudeImporter.normalize(raw).messages.map(m => m.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,86 @@
+// Importer for Claude.ai conversation exports
+// Each conversation has a chat_messages array with sender "human" | "assistant"
+
+import { ChatExportImporter, ImportedConversation, ImportedMessage } from '../../types';
+import { hashParagraphs } from '../segmentation';
+import { buildContentId } from '../hash';
+
+/**
+ * Convert an ISO date string to a Unix timestamp (seconds)
+ */
+function toUnixSeconds(value: any): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const ms = typeof value === 'string' ? Date.parse(value) : NaN;
+  return isNaN(ms) ? 0 : ms / 1000;
+}
+
+/**
+ * Extract text from a Claude.ai message
+ * Newer exports split text into content blocks; older ones only have `text`
+ */
+function extractText(message: any): string {
+  if (Array.isArray(message.content) && message.content.length > 0) {
+    const textBlocks = message.content
+      .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+      .map((block: any) => block.text);
+
+    if (textBlocks.length > 0) {
+      return textBlocks.join(' ').trim();
+    }
+  }
+
+  return typeof message.text === 'string' ? message.text.trim() : '';
+}
+
+export const claudeImporter: ChatExportImporter = {
+  format: 'claude',
+  label: 'Claude.ai',
+
+  detect: (conversation: any) =>
+    !!conversation && typeof conversation === 'object' && Array.isArray(conversation.chat_messages),
+
+  normalize: (conversation: any): ImportedConversation => {
+    const chatMessages: any[] = conversation.chat_messages || [];
+    const messages: ImportedMessage[] = [];
+    const assistantParagraphHashes: string[] = [];
+
+    const conversationId = conversation.uuid || buildContentId('claude', [
+      conversation.name || '',
+      String(conversation.created_at || ''),
+      ...chatMessages.map(message => `${message?.sender}:${message ? extractText(message) : ''}`)
+    ]);
+    // Repeats of the same text in a conversation are told apart by occurrence
+    const seen: { [id: string]: number } = {};
+
+    chatMessages.forEach((message: any) => {
+      if (message?.sender === 'assistant') {
+        assistantParagraphHashes.push(...hashParagraphs(extractText(message)));
+        return;
+      }
+      if (message?.sender !== 'human') {
+        return;
+      }
+
+      const text = extractText(message);
+      if (text) {
+        const contentId = buildContentId('msg', [conversationId, 'human', text]);
+        seen[contentId] = (seen[contentId] || 0) + 1;
+        messages.push({
+          id: message.uuid || (seen[contentId] > 1 ? `${contentId}_${seen[contentId]}` : contentId),
+          text,
+          timestamp: toUnixSeconds(message.created_at)
+        });
+      }
+    });
+
+    return {
+      id: conversationId,
+      title: conversation.name || 'Untitled',
+      createTime: toUnixSeconds(conversation.created_at),
+      messages,
+      assistantParagraphHashes
+    };
+  }
+};
@@ -0,0 +1,115 @@
+import { strToU8, zipSync } from 'fflate';
+import { docxToParagraphs, importDocument, markdownToText, splitParagraphs } from './documentImporter';
+
+const LONG = 'This paragraph has more than enough words to be evaluated on its own.';
+
+// Just enough of a File for importDocument
+function fakeFile(name: string, content: string | Uint8Array): File {
+  const bytes = typeof content === 'string' ? strToU8(content) : content;
+  return {
+    name,
+    lastModified: 1700000000000,
+    text: async () => (typeof content === 'string' ? content : ''),
+    arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  } as unknown as File;
+}
+
+function docx(paragraphsXml: string[]): Uint8Array {
+  const documentXml = `<?xml version="1.0"?><w:document><w:body>${paragraphsXml.join('')}</w:body></w:document>`;
+  return zipSync({
+    '[Content_Types].xml': strToU8('<Types/>'),
+    'word/document.xml': strToU8(documentXml)
+  });
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('splitParagraphs', () => {
+  test('splits on blank lines and unwraps hard line breaks', () => {
+    expect(splitParagraphs(`${LONG}\nstill the same paragraph.\r\n\r\n${LONG}`)).toEqual([
+      `${LONG} still the same paragraph.`,
+      LONG
+    ]);
+  });
+
+  test('merges short paragraphs into the next one', () => {
+    expect(splitParagraphs(`Introduction\n\n${LONG}\n\nThe end.`)).toEqual([`Introduction ${LONG} The end.`]);
+  });
+});
+
+describe('markdownToText', () => {
+  test('keeps prose and drops code, headings and markup', () => {
+    const markdown = [
+      '# Title',
+      '',
+      'Some **bold** and _italic_ text with a [link](https://example.com) and `code`.',
+      '',
+      '```js',
+      'const x = 1;',
+      '```',
+      '',
+      '> A quoted line',
+      '- A list item',
+      '![image](pic.png)'
+    ].join('\n');
+    const text = markdownToText(markdown);
+    expect(text).toContain('Some bold and italic text with a link and code.');
+    expect(text).toContain('A quoted line');
+    expect(text).toContain('A list item');
+    expect(text).not.toMatch(/Title|const x|```|\*\*|!\[|https:/);
+  });
+});
+
+describe('docxToParagraphs', () => {
+  test('reads paragraphs from word/document.xml, joining runs and decoding entities', () => {
+    const paragraphs = docxToParagraphs(docx([
+      `<w:p><w:r><w:t>${LONG.slice(0, 20)}</w:t></w:r><w:r><w:t xml:space="preserve">${LONG.slice(20)}</w:t></w:r></w:p>`,
+      '<w:p><w:pPr/></w:p>',
+      '<w:p><w:r><w:t>Fish &amp; chips &lt;3 taste better</w:t><w:tab/><w:t>than anything else I have eaten this year.</w:t></w:r></w:p>'
+    ]));
+    expect(paragraphs).toEqual([
+      LONG,
+      'Fish & chips <3 taste better than anything else I have eaten this year.'
+    ]);
+  });
+
+  test('rejects zips that are not Word documents', () => {
+    expect(() => docxToParagraphs(zipSync({ 'readme.txt': strToU8('hi') }))).toThrow('Not a valid Word document');
+  });
+});
+
+describe('importDocument', () => {
+  test.each([
+    ['essay.txt', `${LONG}\n\n${LONG} Again.`],
+    ['essay.md', `# Essay\n\n${LONG}\n\n${LONG} Again.`]
+  ])('imports %s as one user document with a message per paragraph', async (name, content) => {
+    const conversation = await importDocument(fakeFile(name, content), 0);
+    expect(conversation).toMatchObject({ id: `doc_${name}`, title: name, createTime: 1700000000, isUserDocument: true });
+    expect(conversation.messages.map(m => m.text)).toEqual([LONG, `${LONG} Again.`]);
+  });
+
+  test('imports .docx paragraphs', async () => {
+    const file = fakeFile('letter.docx', docx([`<w:p><w:r><w:t>${LONG}</w:t></w:r></w:p>`]));
+    const conversation = await importDocument(file, 0);
+    expect(conversation.messages.map(m => m.text)).toEqual([LONG]);
+  });
+
+  test('gives paragraphs content ids that survive reordering, and repeats distinct ids', async () => {
+    const other = `${LONG} Another one.`;
+    const { messages } = await importDocument(fakeFile('a.txt', `${LONG}\n\n${other}\n\n${LONG}`), 0);
+    const { messages: reordered } = await importDocument(fakeFile('a.txt', `${other}\n\n${LONG}`), 0);
+
+    expect(new Set(messages.map(m => m.id)).size).toBe(3);
+    expect(reordered.map(m => m.id)).toEqual([messages[1].id, messages[0].id]);
+  });
+
+  test('rejects unsupported files', async () => {
+    await expect(importDocument(fakeFile('slides.pptx', ''), 0)).rejects.toThrow('Unsupported document type');
+  });
+});
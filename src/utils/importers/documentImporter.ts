@@ -0,0 +1,368 @@
+// Importer for plain documents (.txt, .md, .docx, .eml)
+// Each file becomes one synthetic conversation - paragraphs (or the email body)
+// become its messages so they flow through the same filter/evaluation pipeline
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { ImportedConversation, ImportedMessage } from '../../types';
+import { hashText } from '../hash';
+
+export const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.docx', '.eml'];
+
+// Paragraphs shorter than this are merged with the next one (Stage 1 drops < 10 words)
+const MIN_PARAGRAPH_WORDS = 10;
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+export function isDocumentFile(file: File): boolean {
+  return DOCUMENT_EXTENSIONS.includes(getExtension(file.name));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/**
+ * Merge paragraphs that are too short to evaluate on their own (headings,
+ * greetings, one-liners) into the paragraph that follows them
+ */
+function mergeShortParagraphs(paragraphs: string[]): string[] {
+  const merged: string[] = [];
+  let pending = '';
+
+  paragraphs.forEach(paragraph => {
+    pending = pending ? `${pending} ${paragraph}` : paragraph;
+    if (countWords(pending) >= MIN_PARAGRAPH_WORDS) {
+      merged.push(pending);
+      pending = '';
+    }
+  });
+
+  if (pending) {
+    if (merged.length > 0) {
+      merged[merged.length - 1] = `${merged[merged.length - 1]} ${pending}`;
+    } else {
+      merged.push(pending);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Split plain text into paragraphs on blank lines
+ */
+export function splitParagraphs(text: string): string[] {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(p => p.length > 0);
+
+  return mergeShortParagraphs(paragraphs);
+}
+
+/**
+ * Strip Markdown syntax, keeping only the prose
+ * Code blocks and headings are dropped - they aren't evaluable writing
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^(```|~~~)[\s\S]*?^\1.*$/gm, '')        // Fenced code blocks
+    .replace(/<!--[\s\S]*?-->/g, '')                    // HTML comments
+    .replace(/^#{1,6}\s+.*$/gm, '')                     // Headings
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')               // Horizontal rules
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')               // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')            // Links -> link text
+    .replace(/`([^`]+)`/g, '$1')                        // Inline code
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')                 // Bold
+    .replace(/(\*|_)(?=\S)(.+?)(?<=\S)\1/g, '$2')       // Italic
+    .replace(/^\s*>\s?/gm, '')                          // Blockquote markers
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, '');           // List markers
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extract paragraphs from a .docx file (word/document.xml inside the zip)
+ * Uses regex rather than DOMParser so it also runs inside Web Workers
+ */
+export function docxToParagraphs(data: Uint8Array): string[] {
+  const files = unzipSync(data, { filter: file => file.name === 'word/document.xml' });
+  const documentXml = files['word/document.xml'];
+
+  if (!documentXml) {
+    throw new Error('Not a valid Word document (word/document.xml missing)');
+  }
+
+  const xml = strFromU8(documentXml);
+  const paragraphs: string[] = [];
+  const paragraphPattern = /<w:p[\s>][\s\S]*?<\/w:p>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = paragraphPattern.exec(xml)) !== null) {
+    const text = match[0]
+      .replace(/<w:(?:tab|br)\/>/g, '<w:t> </w:t>')  // As a run of its own, or the space is dropped with the markup
+      .match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>/g)
+      ?.map(run => decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+      .join('')
+      .trim();
+
+    if (text) {
+      paragraphs.push(text);
+    }
+  }
+
+  return mergeShortParagraphs(paragraphs);
+}
+
+// ============================================================================
+// Email (.eml) parsing
+// ============================================================================
+
+interface EmailPart {
+  headers: { [name: string]: string };
+  body: string;  // Raw (still transfer-encoded) body as a binary string
+}
+
+function binaryStringToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function decodeCharset(binary: string, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(binaryStringToBytes(binary));
+  } catch {
+    return new TextDecoder('utf-8').decode(binaryStringToBytes(binary));
+  }
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBase64(text: string): string {
+  try {
+    return atob(text.replace(/\s+/g, ''));
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. =?utf-8?B?...?= in Subject headers
+ */
+function decodeMimeWords(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset, encoding, encoded) => {
+    const binary = encoding.toUpperCase() === 'B'
+      ? decodeBase64(encoded)
+      : decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+    return decodeCharset(binary, charset);
+  });
+}
+
+function parseEmailPart(raw: string): EmailPart {
+  const normalized = raw.replace(/\r\n?/g, '\n');
+  const splitAt = normalized.indexOf('\n\n');
+  const headerBlock = splitAt >= 0 ? normalized.slice(0, splitAt) : normalized;
+  const body = splitAt >= 0 ? normalized.slice(splitAt + 2) : '';
+
+  const headers: { [name: string]: string } = {};
+  headerBlock
+    .replace(/\n[ \t]+/g, ' ')  // Unfold continuation lines
+    .split('\n')
+    .forEach(line => {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+      }
+    });
+
+  return { headers, body };
+}
+
+function getHeaderParam(header: string, param: string): string {
+  const match = header.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, 'i'));
+  return match ? match[1] : '';
+}
+
+function htmlToText(html: string): string {
+  return decodeXmlEntities(
+    html
+      .replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+  );
+}
+
+/**
+ * Find the best text body in a (possibly multipart) email part
+ * Prefers text/plain, falls back to text/html with tags stripped
+ */
+function extractEmailBody(part: EmailPart): { text: string; isHtml: boolean } | null {
+  const contentType = part.headers['content-type'] || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = getHeaderParam(contentType, 'boundary');
+    if (!boundary) return null;
+
+    const candidates = part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(chunk => !chunk.startsWith('--'))
+      .map(chunk => extractEmailBody(parseEmailPart(chunk.replace(/^\n/, ''))))
+      .filter((candidate): candidate is { text: string; isHtml: boolean } => candidate !== null);
+
+    return candidates.find(c => !c.isHtml) || candidates[0] || null;
+  }
+
+  if (mimeType !== 'text/plain' && mimeType !== 'text/html') {
+    return null;
+  }
+
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const binary = encoding === 'base64'
+    ? decodeBase64(part.body)
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(part.body)
+      : part.body;
+  const text = decodeCharset(binary, getHeaderParam(contentType, 'charset'));
+
+  return mimeType === 'text/html'
+    ? { text: htmlToText(text), isHtml: true }
+    : { text, isHtml: false };
+}
+
+/**
+ * Drop quoted replies, forwarded originals and signatures - only the sender's
+ * own words should be evaluated
+ */
+function stripEmailReplyContent(body: string): string {
+  const lines = body.replace(/\r\n?/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    if (/^-- ?$/.test(line)) break;                                         // Signature delimiter
+    if (/^-{2,}\s*(Original Message|Forwarded message)/i.test(line)) break;
+    if (/^On .+wrote:\s*$/.test(line)) break;
+    if (/^>/.test(line)) continue;                                          // Quoted text
+    kept.push(line);
+  }
+
+  return kept.join('\n').trim();
+}
+
+export function parseEmail(raw: string): {
+  subject: string;
+  from: string;
+  date: number;  // Unix timestamp (seconds), 0 if missing
+  messageId: string;
+  body: string;
+} {
+  const root = parseEmailPart(raw);
+  const extracted = extractEmailBody(root);
+  const dateMs = Date.parse(root.headers['date'] || '');
+
+  return {
+    subject: decodeMimeWords(root.headers['subject'] || ''),
+    from: decodeMimeWords(root.headers['from'] || ''),
+    date: isNaN(dateMs) ? 0 : dateMs / 1000,
+    messageId: (root.headers['message-id'] || '').replace(/[<>]/g, ''),
+    body: extracted ? stripEmailReplyContent(extracted.text) : ''
+  };
+}
+
+// ============================================================================
+// File importer
+// ============================================================================
+
+function readAsBinaryString(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return binary;
+}
+
+/**
+ * Import one document as a synthetic conversation titled with the file name
+ */
+export async function importDocument(file: File, index: number): Promise<ImportedConversation> {
+  const extension = getExtension(file.name);
+  const fileTimestamp = file.lastModified ? Math.floor(file.lastModified / 1000) : 0;
+  let paragraphs: string[] = [];
+  let timestamp = fileTimestamp;
+  let title = file.name;
+
+  switch (extension) {
+    case '.txt':
+      paragraphs = splitParagraphs(await file.text());
+      break;
+
+    case '.md':
+      paragraphs = splitParagraphs(markdownToText(await file.text()));
+      break;
+
+    case '.docx':
+      paragraphs = docxToParagraphs(new Uint8Array(await file.arrayBuffer()));
+      break;
+
+    case '.eml': {
+      const email = parseEmail(readAsBinaryString(await file.arrayBuffer()));
+      // An email is one message - keep its body together
+      const body = email.body.replace(/\s*\n\s*\n\s*/g, '\n\n').trim();
+      paragraphs = body ? [body] : [];
+      timestamp = email.date || fileTimestamp;
+      title = email.subject ? `${email.subject} (${file.name})` : file.name;
+      break;
+    }
+
+    default:
+      throw new Error(`Unsupported document type: ${file.name}`);
+  }
+
+  // Content-based paragraph ids stay stable when paragraphs are inserted or reordered
+  const seen: { [hash: string]: number } = {};
+  const messages: ImportedMessage[] = paragraphs.map(text => {
+    const hash = hashText(text);
+    seen[hash] = (seen[hash] || 0) + 1;
+    return {
+      id: seen[hash] > 1 ? `para_${hash}_${seen[hash]}` : `para_${hash}`,
+      text,
+      timestamp
+    };
+  });
+
+  console.log(`📄 Imported ${file.name}: ${messages.length} ${extension === '.eml' ? 'message' : 'paragraphs'}`);
+
+  return {
+    id: `doc_${file.name || index}`,
+    title,
+    createTime: timestamp,
+    messages,
+    isUserDocument: true
+  };
+}
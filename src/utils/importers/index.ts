@@ -0,0 +1,194 @@
+// Chat export importer registry
+// Auto-detects the export format and normalizes conversations so the rest of
+// the pipeline does not care where the chat logs came from
+
+import { ChatExportImporter, ImportedConversation, ImportFormat } from '../../types';
+import { openaiImporter } from './openaiImporter';
+import { claudeImporter } from './claudeImporter';
+import { DOCUMENT_EXTENSIONS, importDocument, isDocumentFile } from './documentImporter';
+import { createJsonArraySplitter, readTextChunks } from '../jsonStream';
+
+// Value for <input accept> - chat exports plus plain documents
+export const SUPPORTED_UPLOAD_TYPES = ['.json', ...DOCUMENT_EXTENSIONS].join(',');
+
+// Register new export formats here
+export const CHAT_EXPORT_IMPORTERS: ChatExportImporter[] = [
+  openaiImporter,
+  claudeImporter
+];
+
+export function getImporter(format: ImportFormat): ChatExportImporter {
+  const importer = CHAT_EXPORT_IMPORTERS.find(i => i.format === format);
+  if (!importer) {
+    throw new Error(`No importer registered for format "${format}"`);
+  }
+  return importer;
+}
+
+/**
+ * Human-readable label for an import format
+ */
+export function getFormatLabel(format?: ImportFormat): string {
+  if (format === 'documents') {
+    return 'Documents';
+  }
+  return CHAT_EXPORT_IMPORTERS.find(i => i.format === format)?.label || 'OpenAI (ChatGPT)';
+}
+
+/**
+ * Detect which importer understands this export
+ * Checks the first few conversations in case the first one is malformed
+ */
+export function detectExportFormat(jsonData: any): ChatExportImporter | null {
+  const logs = Array.isArray(jsonData) ? jsonData : [];
+
+  for (const conversation of logs.slice(0, 5)) {
+    const importer = CHAT_EXPORT_IMPORTERS.find(i => i.detect(conversation));
+    if (importer) {
+      return importer;
+    }
+  }
+
+  return null;
+}
+
+function unrecognizedFormatError(): Error {
+  const supported = CHAT_EXPORT_IMPORTERS.map(i => i.label).join(', ');
+  return new Error(`Unrecognized chat export format. Supported formats: ${supported}`);
+}
+
+/**
+ * Normalize a raw chat export into format-agnostic conversations
+ */
+export function normalizeChatExport(jsonData: any): {
+  format: ImportFormat;
+  conversations: ImportedConversation[];
+} {
+  const logs = Array.isArray(jsonData) ? jsonData : [];
+
+  // Empty exports are valid - treat them as OpenAI for backwards compatibility
+  if (logs.length === 0) {
+    return { format: openaiImporter.format, conversations: [] };
+  }
+
+  const importer = detectExportFormat(logs);
+  if (!importer) {
+    throw unrecognizedFormatError();
+  }
+
+  console.log(`📦 Detected ${importer.label} export with ${logs.length} conversations`);
+
+  return {
+    format: importer.format,
+    conversations: logs.map(conversation => importer.normalize(conversation))
+  };
+}
+
+export type ImportProgressCallback = (status: string, current: number, total: number) => void;
+
+const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+/**
+ * Stream a chat export file, normalizing each conversation as it is read
+ * Never holds the raw export as one string, so multi-hundred-MB files work
+ */
+async function streamChatExport(
+  file: File,
+  onProgress?: ImportProgressCallback
+): Promise<{ format: ImportFormat; conversations: ImportedConversation[] }> {
+  const conversations: ImportedConversation[] = [];
+  const pending: any[] = [];  // Raw conversations seen before the format is known
+  const state: { importer: ChatExportImporter | null } = { importer: null };
+  let lastReportedPercent = -1;
+
+  const splitter = createJsonArraySplitter(elementJson => {
+    const raw = JSON.parse(elementJson);
+
+    if (!state.importer) {
+      pending.push(raw);
+      state.importer = detectExportFormat(pending);
+      if (!state.importer) {
+        if (pending.length >= 5) {
+          throw unrecognizedFormatError();
+        }
+        return;
+      }
+      pending.splice(0).forEach(p => conversations.push(state.importer!.normalize(p)));
+      return;
+    }
+
+    conversations.push(state.importer.normalize(raw));
+  });
+
+  await readTextChunks(
+    file,
+    chunk => splitter.feed(chunk),
+    bytesRead => {
+      // Report at most once per percent to keep progress messages cheap
+      const percent = file.size > 0 ? Math.floor((bytesRead / file.size) * 100) : 100;
+      if (onProgress && percent !== lastReportedPercent) {
+        lastReportedPercent = percent;
+        onProgress(
+          `Reading ${file.name}: ${toMB(bytesRead)} of ${toMB(file.size)} MB (${conversations.length} conversations)`,
+          bytesRead,
+          file.size
+        );
+      }
+    }
+  );
+  splitter.finish();
+
+  if (!state.importer) {
+    // Empty exports are valid - treat them as OpenAI for backwards compatibility
+    if (pending.length === 0) {
+      return { format: openaiImporter.format, conversations: [] };
+    }
+    throw unrecognizedFormatError();
+  }
+
+  console.log(`📦 Detected ${state.importer.label} export with ${conversations.length} conversations`);
+  return { format: state.importer.format, conversations };
+}
+
+/**
+ * Import uploaded files - either a single chat export (.json) or one or more
+ * documents (.txt, .md, .docx, .eml), each becoming one conversation
+ * Chat exports are streamed; progress is reported in bytes (exports) or files (documents)
+ */
+export async function importFiles(
+  files: File[],
+  onProgress?: ImportProgressCallback
+): Promise<{
+  format: ImportFormat;
+  conversations: ImportedConversation[];
+}> {
+  if (files.length === 0) {
+    throw new Error('No files selected');
+  }
+
+  const jsonFiles = files.filter(f => f.name.toLowerCase().endsWith('.json'));
+  if (jsonFiles.length > 0) {
+    if (files.length > 1) {
+      throw new Error('Upload a single chat export (.json) or one or more documents - not both');
+    }
+    return streamChatExport(files[0], onProgress);
+  }
+
+  const unsupported = files.filter(f => !isDocumentFile(f));
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Unsupported file type: ${unsupported.map(f => f.name).join(', ')}. ` +
+      `Supported: .json, ${DOCUMENT_EXTENSIONS.join(', ')}`
+    );
+  }
+
+  const conversations: ImportedConversation[] = [];
+  for (let idx = 0; idx < files.length; idx++) {
+    onProgress?.(`Reading ${files[idx].name} (${idx + 1}/${files.length})`, idx, files.length);
+    conversations.push(await importDocument(files[idx], idx));
+  }
+  onProgress?.(`Read ${files.length} documents`, files.length, files.length);
+  console.log(`📦 Imported ${conversations.length} documents`);
+
+  return { format: 'documents', conversations };
+}
@@ -0,0 +1,85 @@
+import { openaiImporter } from './openaiImporter';
+
+const node = (id: string, role: string, text: string, parent: string | null, children: string[], createTime: number) => ({
+  id,
+  parent,
+  children,
+  message: { id, author: { role }, content: { content_type: 'text', parts: [text] }, create_time: createTime }
+});
+
+// root -> u1 -> a1 -> u2 (edited into u2b) -> a2 / a2b (regenerated)
+const branchedExport = () => ({
+  id: 'conv-1',
+  title: 'Cover letter',
+  create_time: 100,
+  current_node: 'a2b',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['u1'], message: null },
+    u1: node('u1', 'user', 'Please help me with my cover letter.', 'root', ['a1'], 101),
+    a1: node('a1', 'assistant', 'Sure, paste it here.', 'u1', ['u2', 'u2b'], 102),
+    u2: node('u2', 'user', 'Dear hiring manager, I am apply for the job.', 'a1', ['a2'], 103),
+    a2: node('a2', 'assistant', 'Here is a corrected version.', 'u2', [], 104),
+    u2b: node('u2b', 'user', 'Dear hiring manager, I am applying for the job.', 'a1', ['a2b'], 105),
+    a2b: node('a2b', 'assistant', 'That reads well now, with no changes needed at all.', 'u2b', [], 106)
+  }
+});
+
+describe('openaiImporter', () => {
+  test('detects exports with a mapping', () => {
+    expect(openaiImporter.detect(branchedExport())).toBe(true);
+    expect(openaiImporter.detect({ chat_messages: [] })).toBe(false);
+  });
+
+  test('imports only the user turns on the active branch, with edited drafts as revisions', () => {
+    const conversation = openaiImporter.normalize(branchedExport());
+    expect(conversation).toMatchObject({ id: 'conv-1', title: 'Cover letter', createTime: 100 });
+    expect(conversation.messages.map(m => [m.id, m.text])).toEqual([
+      ['u1', 'Please help me with my cover letter.'],
+      ['u2b', 'Dear hiring manager, I am applying for the job.']
+    ]);
+    expect(conversation.messages[0].revisions).toBeUndefined();
+    expect(conversation.messages[1].revisions).toEqual([
+      { id: 'u2', text: 'Dear hiring manager, I am apply for the job.', timestamp: 103 }
+    ]);
+  });
+
+  test('follows the most recent leaf when current_node is missing', () => {
+    const raw = branchedExport();
+    delete (raw as any).current_node;
+    raw.mapping.a2.message.create_time = 200;
+    const conversation = openaiImporter.normalize(raw);
+    expect(conversation.messages.map(m => m.id)).toEqual(['u1', 'u2']);
+  });
+
+  test('hashes every assistant reply, including regenerations', () => {
+    const conversation = openaiImporter.normalize(branchedExport());
+    // Only a2b is long enough to be matched against pasted-back text
+    expect(conversation.assistantParagraphHashes).toHaveLength(1);
+  });
+
+  test('falls back to time order for exports without tree links', () => {
+    const conversation = openaiImporter.normalize({
+      id: 'flat',
+      mapping: {
+        b: { message: { id: 'b', author: { role: 'user' }, content: { parts: ['second'] }, create_time: 2 } },
+        a: { message: { id: 'a', author: { role: 'user' }, content: { parts: ['first', { text: 'part' }] }, create_time: 1 } }
+      }
+    });
+    expect(conversation.messages.map(m => m.text)).toEqual(['first part', 'second']);
+  });
+
+  test('derives a missing conversation id from its content, not its position', () => {
+    const withoutId = () => {
+      const raw: any = branchedExport();
+      delete raw.id;
+      return raw;
+    };
+    const first = openaiImporter.normalize(withoutId());
+    expect(first.id).toMatch(/^openai_/);
+    expect(openaiImporter.normalize(withoutId()).id).toBe(first.id);
+
+    const other = withoutId();
+    other.title = 'Another letter';
+    expect(openaiImporter.normalize(other).id).not.toBe(first.id);
+  });
+});
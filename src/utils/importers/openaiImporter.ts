@@ -0,0 +1,155 @@
+// Importer for OpenAI (ChatGPT) conversation exports
+// Handles the nested mapping structure: mapping -> node.message.author.role / content.parts
+// The mapping is a tree (parent/children) - edits and regenerations create sibling
+// branches, so only the active branch ending at current_node is imported
+
+import { ChatExportImporter, ImportedConversation, ImportedMessage, MessageRevision } from '../../types';
+import { hashParagraphs } from '../segmentation';
+import { buildContentId } from '../hash';
+
+/**
+ * Extract text from a message's content.parts array
+ */
+function extractText(content: any): string {
+  if (!content?.parts || !Array.isArray(content.parts)) {
+    return '';
+  }
+
+  const textParts: string[] = [];
+
+  content.parts.forEach((part: any) => {
+    if (typeof part === 'string') {
+      textParts.push(part);
+    } else if (part && typeof part === 'object') {
+      if (part.text) {
+        textParts.push(part.text);
+      } else if (part.content) {
+        textParts.push(String(part.content));
+      }
+    }
+  });
+
+  return textParts.join(' ').trim();
+}
+
+function isUserNode(node: any): boolean {
+  return node?.message?.author?.role === 'user';
+}
+
+function nodeTime(node: any): number {
+  return node?.message?.create_time || 0;
+}
+
+/**
+ * Find the node the active branch ends at
+ * Uses current_node when present, otherwise the most recent leaf
+ */
+function findActiveLeaf(conversation: any, mapping: { [id: string]: any }): string | null {
+  if (conversation.current_node && mapping[conversation.current_node]) {
+    return conversation.current_node;
+  }
+
+  let latestLeaf: string | null = null;
+  Object.entries(mapping).forEach(([nodeId, node]) => {
+    const children = Array.isArray(node?.children) ? node.children : [];
+    if (children.length === 0 && (latestLeaf === null || nodeTime(node) >= nodeTime(mapping[latestLeaf]))) {
+      latestLeaf = nodeId;
+    }
+  });
+
+  return latestLeaf;
+}
+
+/**
+ * Walk parent links from the leaf back to the root, returning node ids root-first
+ */
+function getActiveBranch(leafId: string, mapping: { [id: string]: any }): string[] {
+  const branch: string[] = [];
+  const visited = new Set<string>();
+  let nodeId: string | null = leafId;
+
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    branch.push(nodeId);
+    nodeId = mapping[nodeId].parent || null;
+  }
+
+  return branch.reverse();
+}
+
+/**
+ * Sibling user turns of a node on the active branch are the drafts the user
+ * edited away from - return them oldest first
+ */
+function getRevisions(nodeId: string, mapping: { [id: string]: any }): MessageRevision[] {
+  const parentId = mapping[nodeId]?.parent;
+  const siblings: string[] = parentId && Array.isArray(mapping[parentId]?.children)
+    ? mapping[parentId].children
+    : [];
+
+  return siblings
+    .filter(siblingId => siblingId !== nodeId && isUserNode(mapping[siblingId]))
+    .map(siblingId => {
+      const message = mapping[siblingId].message;
+      return {
+        id: message.id || siblingId,
+        text: extractText(message.content || {}),
+        timestamp: message.create_time || 0
+      };
+    })
+    .filter(revision => revision.text)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export const openaiImporter: ChatExportImporter = {
+  format: 'openai',
+  label: 'OpenAI (ChatGPT)',
+
+  detect: (conversation: any) =>
+    !!conversation && typeof conversation === 'object' && typeof conversation.mapping === 'object',
+
+  normalize: (conversation: any): ImportedConversation => {
+    const mapping = conversation.mapping || {};
+    const messages: ImportedMessage[] = [];
+
+    // Older/hand-made exports without tree links: fall back to every node in time order
+    const hasTree = Object.values(mapping).some((node: any) => node?.parent || node?.children?.length);
+    const leafId = hasTree ? findActiveLeaf(conversation, mapping) : null;
+    const nodeIds = leafId
+      ? getActiveBranch(leafId, mapping)
+      : Object.keys(mapping).sort((a, b) => nodeTime(mapping[a]) - nodeTime(mapping[b]));
+
+    nodeIds.forEach(nodeId => {
+      const node = mapping[nodeId];
+      if (!isUserNode(node)) {
+        return;
+      }
+
+      const message = node.message;
+      const text = extractText(message.content || {});
+      if (text) {
+        const revisions = leafId ? getRevisions(nodeId, mapping) : [];
+        messages.push({
+          id: message.id || nodeId,
+          text,
+          timestamp: message.create_time || 0,
+          ...(revisions.length > 0 && { revisions })
+        });
+      }
+    });
+
+    // Every assistant reply, including regenerations, so pasted-back output is recognised
+    const assistantParagraphHashes = Object.values(mapping)
+      .filter((node: any) => node?.message?.author?.role === 'assistant')
+      .flatMap((node: any) => hashParagraphs(extractText(node.message.content || {})));
+
+    return {
+      id: conversation.id || conversation.conversation_id
+        || buildContentId('openai', [conversation.title || '', conversation.create_time || 0, ...messages.map(m => m.text)]),
+      title: conversation.title || 'Untitled',
+      createTime: conversation.create_time || 0,
+      messages,
+      assistantParagraphHashes
+    };
+  }
+};
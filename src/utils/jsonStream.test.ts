@@ -0,0 +1,84 @@
+import { createJsonArraySplitter } from './jsonStream';
+
+// Feed text in fixed-size chunks and collect every element
+function split(text: string, chunkSize = text.length || 1): string[] {
+  const elements: string[] = [];
+  const splitter = createJsonArraySplitter(json => elements.push(json));
+  for (let i = 0; i < text.length; i += chunkSize) {
+    splitter.feed(text.slice(i, i + chunkSize));
+  }
+  splitter.finish();
+  return elements;
+}
+
+// Every chunk size from one character up, so each boundary lands everywhere once
+function expectAtEveryChunkSize(text: string, expected: unknown[]) {
+  for (let size = 1; size <= text.length; size++) {
+    expect(split(text, size).map(json => JSON.parse(json))).toEqual(expected);
+  }
+}
+
+describe('createJsonArraySplitter', () => {
+  test('splits a top-level array into its elements', () => {
+    expect(split('[{"id": 1}, {"id": 2}]')).toEqual(['{"id": 1}', '{"id": 2}']);
+  });
+
+  test('handles an empty array and surrounding whitespace', () => {
+    expect(split('  \n[ ]\n ')).toEqual([]);
+  });
+
+  test('keeps nested arrays and objects whole', () => {
+    const conversations = [
+      { id: 'a', mapping: { n1: { children: ['n2'], parts: [[1, 2], { deep: [] }] } } },
+      [['x'], { y: [{}] }],
+      'plain',
+      42,
+      null
+    ];
+    expectAtEveryChunkSize(JSON.stringify(conversations), conversations);
+  });
+
+  test('ignores brackets, commas and escaped quotes inside strings', () => {
+    const conversations = [{ text: 'a, b ] c } "quoted" [d', path: 'C:\\dir\\', tail: '\\"' }];
+    expectAtEveryChunkSize(JSON.stringify(conversations), conversations);
+  });
+
+  test('keeps surrogate pairs split across chunks', () => {
+    const conversations = [{ text: 'ok 😀 👍🏽' }, { text: '\u{1F600}' }];
+    const json = JSON.stringify(conversations);
+    expect(json).toContain('😀');
+    expectAtEveryChunkSize(json, conversations);
+  });
+
+  test('skips a leading byte order mark', () => {
+    expect(split('\uFEFF[{"id": 1}]')).toEqual(['{"id": 1}']);
+    expect(split('\uFEFF  [1,2]', 1)).toEqual(['1', '2']);
+  });
+
+  test('rejects input that is not an array', () => {
+    expect(() => split('{"conversations": []}')).toThrow('Expected a JSON array of conversations');
+  });
+
+  test('rejects content after the array', () => {
+    expect(() => split('[1] [2]')).toThrow('Unexpected content after the end of the JSON array');
+  });
+
+  test.each([
+    '',
+    '   ',
+    '\uFEFF'
+  ])('rejects empty input %j', text => {
+    expect(() => split(text)).toThrow('The file is empty');
+  });
+
+  test.each([
+    '[',
+    '[{"id": 1}',
+    '[{"id": 1}, {"id": 2, "text": "cut off',
+    '[{"id": 1}, {"id": 2, "text": "escape at the end\\'
+  ])('rejects truncated input %j instead of dropping the tail', text => {
+    for (let size = 1; size <= text.length; size++) {
+      expect(() => split(text, size)).toThrow('Unexpected end of file - the export looks truncated');
+    }
+  });
+});
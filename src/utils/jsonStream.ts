@@ -0,0 +1,141 @@
+// Streaming helpers for huge JSON exports
+// Splits a top-level JSON array into its elements without holding the whole
+// file as one string, so conversations can be normalized as they arrive
+
+/**
+ * Incremental splitter for a top-level JSON array
+ * Feed it text chunks in order; onElement receives each element's raw JSON
+ */
+export function createJsonArraySplitter(onElement: (elementJson: string) => void): {
+  feed: (chunk: string) => void;
+  finish: () => void;
+} {
+  let started = false;
+  let done = false;
+  let depth = 0;          // 1 = directly inside the top-level array
+  let inString = false;
+  let escaped = false;
+  let inElement = false;
+  let buffer: string[] = [];
+
+  const emit = () => {
+    const json = buffer.join('').trim();
+    buffer = [];
+    inElement = false;
+    if (json) {
+      onElement(json);
+    }
+  };
+
+  return {
+    feed: (chunk: string) => {
+      let segmentStart = inElement ? 0 : -1;
+
+      for (let i = 0; i < chunk.length; i++) {
+        const c = chunk[i];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (c === '\\') {
+            escaped = true;
+          } else if (c === '"') {
+            inString = false;
+          }
+          continue;
+        }
+
+        if (!started) {
+          if (c === '\uFEFF' || /\s/.test(c)) continue;
+          if (c !== '[') {
+            throw new Error('Expected a JSON array of conversations');
+          }
+          started = true;
+          depth = 1;
+          continue;
+        }
+
+        if (done) {
+          if (!/\s/.test(c)) {
+            throw new Error('Unexpected content after the end of the JSON array');
+          }
+          continue;
+        }
+
+        if (depth === 1) {
+          if (c === ',' || c === ']') {
+            if (inElement) {
+              buffer.push(chunk.slice(segmentStart, i));
+              emit();
+              segmentStart = -1;
+            }
+            if (c === ']') {
+              depth = 0;
+              done = true;
+            }
+            continue;
+          }
+          if (/\s/.test(c)) continue;
+          if (!inElement) {
+            inElement = true;
+            segmentStart = i;
+          }
+        }
+
+        if (c === '"') {
+          inString = true;
+        } else if (c === '{' || c === '[') {
+          depth++;
+        } else if (c === '}' || c === ']') {
+          depth--;
+        }
+      }
+
+      if (inElement && segmentStart >= 0) {
+        buffer.push(chunk.slice(segmentStart));
+      }
+    },
+
+    finish: () => {
+      if (!started) {
+        throw new Error('The file is empty');
+      }
+      if (!done) {
+        throw new Error('Unexpected end of file - the export looks truncated');
+      }
+    }
+  };
+}
+
+/**
+ * Read a file as UTF-8 text in chunks, reporting bytes read
+ * Falls back to a single chunk where Blob.stream() isn't available
+ */
+export async function readTextChunks(
+  file: Blob,
+  onChunk: (text: string) => void,
+  onBytesRead?: (bytesRead: number) => void
+): Promise<void> {
+  if (typeof file.stream !== 'function') {
+    onChunk(await file.text());
+    onBytesRead?.(file.size);
+    return;
+  }
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.length;
+    onChunk(decoder.decode(value, { stream: true }));
+    onBytesRead?.(bytesRead);
+  }
+
+  const tail = decoder.decode();
+  if (tail) {
+    onChunk(tail);
+  }
+}
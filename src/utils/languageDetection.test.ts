@@ -0,0 +1,63 @@
+import { countLanguages, detectLanguage, summarizeScoresByLanguage } from './languageDetection';
+import { EvaluationResult, ParsedMessage } from '../types';
+
+describe('detectLanguage', () => {
+  test.each([
+    'I need a better opening line for a speech at a wedding.',
+    'Can you help me write a cover letter for a job as a data analyst at a bank?',
+    'I wrote a short story about a girl who finds a dog in a park near a lake.',
+    'Is this email too formal for my manager?',
+    'Please check the tone of this paragraph, it feels a bit cold.'
+  ])('detects English in %j', text => {
+    expect(detectLanguage(text)).toBe('en');
+  });
+
+  test.each([
+    'Necesito ayuda con mi carta de presentación para un trabajo en la universidad.',
+    '¿Puedes revisar el correo que le escribí a mi jefe?',
+    'Quiero mejorar la introducción de mi ensayo sobre la historia de España.'
+  ])('detects Spanish in %j', text => {
+    expect(detectLanguage(text)).toBe('es');
+  });
+
+  test.each([
+    'Eu preciso de ajuda com o meu texto para a aula de história.',
+    'Você pode revisar o e-mail que eu escrevi para o meu chefe?',
+    'Não sei se a introdução está muito longa, mas gosto do final.'
+  ])('detects Portuguese in %j', text => {
+    expect(detectLanguage(text)).toBe('pt');
+  });
+
+  test.each([
+    'Je dois écrire une lettre de motivation pour un stage dans une banque.',
+    'Est-ce que vous pouvez corriger cette phrase pour mon professeur ?',
+    'Je ne suis pas sûr que le ton de mon message soit poli.'
+  ])('detects French in %j', text => {
+    expect(detectLanguage(text)).toBe('fr');
+  });
+
+  test.each(['', 'ok', 'Thanks!', 'a e o'])('leaves %j undetermined', text => {
+    expect(detectLanguage(text)).toBe('und');
+  });
+});
+
+describe('countLanguages', () => {
+  test('counts detected languages, most common first, ignoring undetermined', () => {
+    const message = (language: ParsedMessage['language']) =>
+      ({ id: '', text: '', timestamp: 0, conversationId: 0, conversationTitle: '', language }) as ParsedMessage;
+    expect(countLanguages([message('fr'), message('en'), message('fr'), message('und'), message(undefined)])).toEqual([
+      { language: 'fr', count: 2 },
+      { language: 'en', count: 1 }
+    ]);
+  });
+});
+
+describe('summarizeScoresByLanguage', () => {
+  test('averages scores per language', () => {
+    const evaluation = (language: EvaluationResult['language'], score: number) =>
+      ({ grammar_score: score, punctuation_score: score, tone_score: score, language }) as EvaluationResult;
+    const [english, spanish] = summarizeScoresByLanguage([evaluation('en', 2), evaluation('en', 4), evaluation('es', 5)]);
+    expect(english).toMatchObject({ language: 'en', messages: 2, avg_grammar_score: 3 });
+    expect(spanish).toMatchObject({ language: 'es', messages: 1, avg_tone_score: 5 });
+  });
+});
@@ -0,0 +1,145 @@
+// Local language detection - no network calls
+// Scores text against short stopword profiles per language; stopwords are the
+// most frequent words in any text, so a few sentences are enough to tell apart
+
+import { LanguageCode, LanguageScores, EvaluationResult, ParsedMessage } from '../types';
+
+export const LANGUAGE_NAMES: { [code in LanguageCode]: string } = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  it: 'Italian',
+  und: 'Unknown'
+};
+
+const STOPWORDS: { [code in Exclude<LanguageCode, 'und'>]: string[] } = {
+  en: ['the', 'and', 'is', 'are', 'was', 'of', 'to', 'in', 'that', 'it', 'for', 'with', 'this',
+    'you', 'have', 'be', 'not', 'but', 'they', 'what', 'my', 'can', 'would', 'will', 'i', 'we',
+    'a', 'an', 'at', 'on', 'or', 'as'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'de', 'en', 'un', 'una', 'por', 'para', 'con',
+    'no', 'se', 'lo', 'del', 'pero', 'muy', 'está', 'como', 'más', 'yo', 'mi', 'tengo', 'puedes'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'de', 'des', 'un', 'une', 'du', 'que', 'qui', 'pour', 'dans',
+    'pas', 'ne', 'je', 'vous', 'nous', 'avec', 'sur', 'mais', 'au', 'ce', 'cette', 'suis', 'mon'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'ein', 'eine', 'zu', 'mit', 'den',
+    'auf', 'für', 'von', 'dem', 'auch', 'sich', 'es', 'wir', 'aber', 'wie', 'bin', 'mein', 'kannst'],
+  pt: ['o', 'a', 'os', 'as', 'e', 'é', 'que', 'de', 'do', 'da', 'em', 'um', 'uma', 'para', 'com',
+    'não', 'por', 'mais', 'mas', 'eu', 'você', 'está', 'muito', 'isso', 'meu', 'tenho', 'pode'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'e', 'è', 'che', 'di', 'del', 'della', 'un', 'una', 'per',
+    'con', 'non', 'sono', 'mi', 'ma', 'anche', 'questo', 'molto', 'io', 'hai', 'puoi', 'nel']
+};
+
+// Characters that only (or mostly) occur in one language break near-ties
+const CHARACTER_HINTS: { [code in Exclude<LanguageCode, 'und'>]?: RegExp } = {
+  es: /[ñ¿¡]/g,
+  fr: /[çœêèàù]/g,
+  de: /[ßäöü]/g,
+  pt: /[ãõç]/g
+};
+
+// Below this many stopword hits there's too little evidence to call a language
+const MIN_STOPWORD_HITS = 2;
+
+// A non-English label changes how the message is judged, so it needs to win by
+// most of a stopword hit - a near-tie is left for the default English norms
+const NON_ENGLISH_MARGIN = 0.75;
+
+// A word listed for several languages only counts as 1/n of a hit for each, and
+// shared single letters ("a", "e", "o") don't count at all
+const STOPWORD_WEIGHTS = (() => {
+  const languagesPerWord = new Map<string, number>();
+  Object.values(STOPWORDS).forEach(words =>
+    words.forEach(word => languagesPerWord.set(word, (languagesPerWord.get(word) || 0) + 1))
+  );
+  return Object.fromEntries(
+    Object.entries(STOPWORDS).map(([code, words]) => [code, new Map(words.map(word => {
+      const shared = languagesPerWord.get(word)!;
+      return [word, shared > 1 && word.length === 1 ? 0 : 1 / shared] as const;
+    }))])
+  ) as { [code: string]: Map<string, number> };
+})();
+
+/**
+ * Detect the language of a piece of text
+ * Returns 'und' when there isn't enough evidence (very short or mixed text)
+ */
+export function detectLanguage(text: string): LanguageCode {
+  const tokens: string[] = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  if (tokens.length === 0) return 'und';
+
+  let best = 'und' as LanguageCode;
+  let bestScore = 0;
+  let runnerUpScore = 0;
+
+  Object.keys(STOPWORDS).forEach(code => {
+    const weights = STOPWORD_WEIGHTS[code];
+    let score = tokens.reduce((sum, token) => sum + (weights.get(token) || 0), 0);
+    const hint = CHARACTER_HINTS[code as keyof typeof CHARACTER_HINTS];
+    if (hint) {
+      score += Math.min((text.match(hint) || []).length, 3) * 0.5;
+    }
+
+    if (score > bestScore) {
+      runnerUpScore = bestScore;
+      bestScore = score;
+      best = code as LanguageCode;
+    } else if (score > runnerUpScore) {
+      runnerUpScore = score;
+    }
+  });
+
+  // Require a clear winner - ambiguous text is better left unlabelled
+  if (bestScore < MIN_STOPWORD_HITS || bestScore < runnerUpScore * 1.25) {
+    return 'und';
+  }
+  if (best !== 'en' && bestScore - runnerUpScore < NON_ENGLISH_MARGIN) {
+    return 'und';
+  }
+  return best;
+}
+
+/**
+ * Display name for a language code
+ */
+export function getLanguageName(code?: LanguageCode): string {
+  return LANGUAGE_NAMES[code || 'und'] || code || LANGUAGE_NAMES.und;
+}
+
+/**
+ * Detected languages in parsed messages, most common first ('und' excluded)
+ */
+export function countLanguages(messages: ParsedMessage[]): { language: LanguageCode; count: number }[] {
+  const counts: { [code: string]: number } = {};
+  messages.forEach(msg => {
+    if (msg.language && msg.language !== 'und') {
+      counts[msg.language] = (counts[msg.language] || 0) + 1;
+    }
+  });
+  return Object.entries(counts)
+    .map(([language, count]) => ({ language: language as LanguageCode, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Average scores per language, most-written language first
+ */
+export function summarizeScoresByLanguage(evaluations: EvaluationResult[]): LanguageScores[] {
+  const groups: { [code: string]: EvaluationResult[] } = {};
+  evaluations.forEach(evaluation => {
+    const code = evaluation.language || 'und';
+    (groups[code] = groups[code] || []).push(evaluation);
+  });
+
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  return Object.entries(groups)
+    .map(([code, group]) => ({
+      language: code as LanguageCode,
+      messages: group.length,
+      avg_grammar_score: average(group.map(e => e.grammar_score)),
+      avg_punctuation_score: average(group.map(e => e.punctuation_score)),
+      avg_tone_score: average(group.map(e => e.tone_score))
+    }))
+    .sort((a, b) => b.messages - a.messages);
+}
@@ -0,0 +1,128 @@
+// Per-stage model and max-token settings
+// Lets a cheap model confirm relevance while a stronger one evaluates and
+// writes practice questions. Unset stages use the provider's model.
+
+import { LLMProviderKind, PipelineStage, StageModelSetting, StageModelSettings, StageModels } from '../types';
+import { MODEL_PRICING } from './costEstimator';
+import { MOCK_MODEL, usesAnthropicModels } from './providers';
+
+// Stages that call the API, in pipeline order
+export const CONFIGURABLE_STAGES: PipelineStage[] = [
+  'relevance',
+  'evaluation',
+  'patterns',
+  'questions',
+  'grading',
+  'comparison'
+];
+
+// Defaults match what each prompt asks for; minimums leave room for a full batch response
+export const STAGE_TOKEN_LIMITS: { [stage in PipelineStage]: { default: number; min: number } } = {
+  relevance: { default: 500, min: 100 },
+  evaluation: { default: 4000, min: 1000 },
+  patterns: { default: 4000, min: 1500 },
+  questions: { default: 4000, min: 1500 },
+  grading: { default: 2000, min: 300 },
+  comparison: { default: 500, min: 200 },
+  other: { default: 4000, min: 1 }
+};
+
+export const MAX_OUTPUT_TOKENS = 16000;
+
+// Haiku to filter, Sonnet where judgement matters
+export const RECOMMENDED_STAGE_SETTINGS: StageModelSettings = {
+  relevance: { model: 'claude-haiku-4-5-20251001' },
+  evaluation: { model: 'claude-sonnet-4-5-20250929' },
+  questions: { model: 'claude-sonnet-4-5-20250929' }
+};
+
+/**
+ * Anthropic models that can be picked per stage
+ */
+export function getAnthropicModels(): string[] {
+  return Object.keys(MODEL_PRICING).filter(model => model !== MOCK_MODEL);
+}
+
+/**
+ * Model and max tokens for a stage, after applying overrides
+ * The offline demo always answers with its own model
+ */
+export function resolveStageSetting(
+  settings: StageModelSettings,
+  stage: PipelineStage,
+  provider: { kind: LLMProviderKind; model: string },
+  fallbackMaxTokens: number = STAGE_TOKEN_LIMITS[stage].default
+): { model: string; maxTokens: number } {
+  const setting = settings[stage] || {};
+  return {
+    model: provider.kind === 'mock' ? provider.model : setting.model || provider.model,
+    maxTokens: setting.maxTokens || fallbackMaxTokens
+  };
+}
+
+/**
+ * Resolved model for every configurable stage - used to price estimates
+ */
+export function resolveStageModels(
+  settings: StageModelSettings,
+  provider: { kind: LLMProviderKind; model: string }
+): StageModels {
+  const models: StageModels = {};
+  CONFIGURABLE_STAGES.forEach(stage => {
+    models[stage] = resolveStageSetting(settings, stage, provider).model;
+  });
+  return models;
+}
+
+/**
+ * Problems with the settings, by stage - empty when the settings can be used
+ */
+export function validateStageSettings(
+  settings: StageModelSettings,
+  providerKind: LLMProviderKind
+): { [stage in PipelineStage]?: string } {
+  const errors: { [stage in PipelineStage]?: string } = {};
+  const anthropicModels = getAnthropicModels();
+
+  CONFIGURABLE_STAGES.forEach(stage => {
+    const setting = settings[stage];
+    if (!setting) return;
+
+    if (setting.maxTokens !== undefined) {
+      const { min } = STAGE_TOKEN_LIMITS[stage];
+      if (!Number.isInteger(setting.maxTokens) || setting.maxTokens < min || setting.maxTokens > MAX_OUTPUT_TOKENS) {
+        errors[stage] = `Max tokens must be a whole number from ${min} to ${MAX_OUTPUT_TOKENS}`;
+        return;
+      }
+    }
+
+    if (setting.model !== undefined) {
+      if (!setting.model.trim()) {
+        errors[stage] = 'Model name cannot be blank';
+      } else if (usesAnthropicModels(providerKind) && !anthropicModels.includes(setting.model)) {
+        errors[stage] = `"${setting.model}" is not an Anthropic model`;
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Settings restored from storage - malformed entries are dropped rather than failing the load
+ */
+export function parseStageSettings(raw: any): StageModelSettings {
+  const settings: StageModelSettings = {};
+  if (!raw || typeof raw !== 'object') return settings;
+
+  CONFIGURABLE_STAGES.forEach(stage => {
+    const entry = raw[stage];
+    if (!entry || typeof entry !== 'object') return;
+    const setting: StageModelSetting = {};
+    if (typeof entry.model === 'string' && entry.model.trim()) setting.model = entry.model.trim();
+    if (typeof entry.maxTokens === 'number' && entry.maxTokens > 0) setting.maxTokens = entry.maxTokens;
+    if (setting.model || setting.maxTokens) settings[stage] = setting;
+  });
+
+  return settings;
+}
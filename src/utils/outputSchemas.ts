@@ -0,0 +1,215 @@
+// Response shapes for every structured pipeline stage
+// Top-level values are always objects, since Anthropic tool inputs must be.
+// Validators check the schema and then what a schema can't express (every
+// message evaluated once, non-empty quotes, options on multiple-choice questions).
+
+import { Analysis, EvaluationPayload, GradePayload, JSONSchema, PracticeQuestion, StructuredOutput } from '../types';
+import { validateSchema, ValidationError } from './validation';
+
+const SCORE: JSONSchema = { type: 'integer', minimum: 1, maximum: 5 };
+const ISSUE_LIST: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+const ANNOTATION: JSONSchema = {
+  type: 'object',
+  properties: {
+    category: { type: 'string', enum: ['grammar', 'punctuation', 'tone'] },
+    issue: { type: 'string', description: 'The issue, worded as in the issue list' },
+    quote: { type: 'string', description: 'The exact words from the message the issue is about, copied character for character' },
+    suggestion: { type: 'string', description: 'Replacement for the quote; empty to delete it' }
+  },
+  required: ['category', 'issue', 'quote', 'suggestion']
+};
+
+const ISSUE: JSONSchema = {
+  type: 'object',
+  properties: {
+    issue: { type: 'string', description: 'Clear description of the pattern' },
+    frequency: { type: 'integer', minimum: 0 },
+    severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+    recommendation: { type: 'string', description: 'Specific, actionable advice' },
+    language: { type: 'string', description: 'ISO 639-1 code, only when issues are tagged by language' }
+  },
+  required: ['issue', 'frequency', 'severity', 'recommendation']
+};
+
+/**
+ * Relevance verdicts for a batch of count messages, in message order
+ */
+export function relevanceOutput(count: number): StructuredOutput<{ relevant: boolean[] }> {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      relevant: { type: 'array', items: { type: 'boolean' }, minItems: count, maxItems: count }
+    },
+    required: ['relevant']
+  };
+  return {
+    name: 'classify_messages',
+    description: `Record whether each of the ${count} messages is relevant for writing evaluation`,
+    schema,
+    validate: value => validateSchema(value, schema)
+  };
+}
+
+/**
+ * Scores for a batch of count messages - returned in message order
+ */
+export function evaluationOutput(count: number): StructuredOutput<{ evaluations: EvaluationPayload[] }> {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      evaluations: {
+        type: 'array',
+        minItems: count,
+        maxItems: count,
+        items: {
+          type: 'object',
+          properties: {
+            message_number: { type: 'integer', minimum: 1, maximum: count },
+            grammar_score: SCORE,
+            punctuation_score: SCORE,
+            tone_score: SCORE,
+            grammar_issues: ISSUE_LIST,
+            punctuation_issues: ISSUE_LIST,
+            tone_issues: ISSUE_LIST,
+            annotations: { type: 'array', items: ANNOTATION }
+          },
+          required: ['message_number', 'grammar_score', 'punctuation_score', 'tone_score', 'grammar_issues', 'punctuation_issues', 'tone_issues', 'annotations']
+        }
+      }
+    },
+    required: ['evaluations']
+  };
+  return {
+    name: 'record_evaluations',
+    description: `Record grammar, punctuation and tone scores and issues for each of the ${count} messages`,
+    schema,
+    validate: value => {
+      const { evaluations } = validateSchema<{ evaluations: EvaluationPayload[] }>(value, schema);
+      const seen = new Set<number>();
+      evaluations.forEach((evaluation, idx) => {
+        if (seen.has(evaluation.message_number)) {
+          throw new ValidationError(`$.evaluations[${idx}].message_number`, `message ${evaluation.message_number} is evaluated twice`);
+        }
+        seen.add(evaluation.message_number);
+        evaluation.annotations.forEach((annotation, annotationIdx) => {
+          if (!annotation.quote.trim()) {
+            throw new ValidationError(`$.evaluations[${idx}].annotations[${annotationIdx}].quote`, 'quote is empty');
+          }
+        });
+      });
+      return { evaluations: [...evaluations].sort((a, b) => a.message_number - b.message_number) };
+    }
+  };
+}
+
+// Scores and the issue lists - analyzePatterns adds language scores and metadata
+const ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'object',
+      properties: {
+        total_messages: { type: 'integer', minimum: 0 },
+        avg_grammar_score: { type: 'number', minimum: 0, maximum: 5 },
+        avg_punctuation_score: { type: 'number', minimum: 0, maximum: 5 },
+        avg_tone_score: { type: 'number', minimum: 0, maximum: 5 },
+        overall_assessment: { type: 'string', description: '2-3 sentence assessment of overall writing quality and main areas for improvement' }
+      },
+      required: ['total_messages', 'avg_grammar_score', 'avg_punctuation_score', 'avg_tone_score', 'overall_assessment']
+    },
+    top_grammar_issues: { type: 'array', items: ISSUE },
+    top_punctuation_issues: { type: 'array', items: ISSUE },
+    top_tone_issues: { type: 'array', items: ISSUE }
+  },
+  required: ['summary', 'top_grammar_issues', 'top_punctuation_issues', 'top_tone_issues']
+};
+
+export const ANALYSIS_OUTPUT: StructuredOutput<Analysis> = {
+  name: 'record_analysis',
+  description: 'Record the overall scores and the top recurring issues in each category',
+  schema: ANALYSIS_SCHEMA,
+  validate: value => validateSchema<Analysis>(value, ANALYSIS_SCHEMA)
+};
+
+const QUESTIONS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          question_id: { type: 'string' },
+          issue_type: { type: 'string' },
+          specific_issue: { type: 'string' },
+          question_format: { type: 'string', enum: ['correction', 'multiple_choice', 'writing_prompt'] },
+          question_text: { type: 'string' },
+          correct_answer: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' }, description: 'Only for multiple_choice: 4 options labelled A) to D)' },
+          explanation: { type: 'string' }
+        },
+        required: ['question_id', 'issue_type', 'specific_issue', 'question_format', 'question_text', 'correct_answer', 'explanation']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const PRACTICE_QUESTIONS_OUTPUT: StructuredOutput<{ questions: PracticeQuestion[] }> = {
+  name: 'record_practice_questions',
+  description: 'Record the practice questions for this session',
+  schema: QUESTIONS_SCHEMA,
+  validate: value => {
+    const payload = validateSchema<{ questions: PracticeQuestion[] }>(value, QUESTIONS_SCHEMA);
+    payload.questions.forEach((question, idx) => {
+      if (question.question_format === 'multiple_choice' && (!question.options || question.options.length < 2)) {
+        throw new ValidationError(`$.questions[${idx}].options`, 'multiple-choice questions need at least 2 options');
+      }
+    });
+    return payload;
+  }
+};
+
+/**
+ * Grades for count answers - returned in question order
+ */
+export function gradingOutput(count: number): StructuredOutput<{ grades: GradePayload[] }> {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      grades: {
+        type: 'array',
+        minItems: count,
+        maxItems: count,
+        items: {
+          type: 'object',
+          properties: {
+            question_number: { type: 'integer', minimum: 1, maximum: count },
+            is_correct: { type: 'boolean' },
+            feedback: { type: 'string' }
+          },
+          required: ['question_number', 'is_correct', 'feedback']
+        }
+      }
+    },
+    required: ['grades']
+  };
+  return {
+    name: 'record_grades',
+    description: `Record whether each of the ${count} answers is correct, with brief feedback`,
+    schema,
+    validate: value => {
+      const { grades } = validateSchema<{ grades: GradePayload[] }>(value, schema);
+      const seen = new Set<number>();
+      grades.forEach((grade, idx) => {
+        if (seen.has(grade.question_number)) {
+          throw new ValidationError(`$.grades[${idx}].question_number`, `question ${grade.question_number} is graded twice`);
+        }
+        seen.add(grade.question_number);
+      });
+      return { grades: [...grades].sort((a, b) => a.question_number - b.question_number) };
+    }
+  };
+}
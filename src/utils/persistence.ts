@@ -0,0 +1,255 @@
+// IndexedDB persistence for the writing improvement workflow
+// Serializes the learner profiles (each with its own AppState) after each
+// transition and rehydrates them on load
+//
+// Saved records are wrapped in a versioned envelope so older saves can be
+// migrated forward when the stored shape changes.
+//
+// Unfinished runs are checkpointed separately, one record per learner, so the
+// workspace save stays small while a run writes after every batch.
+//
+// LLM responses are cached in their own store (see responseCache.ts).
+
+import { AppState, CachedResponse, RunCheckpoint, Workspace } from '../types';
+
+const DB_NAME = 'writing-improvement-system';
+const DB_VERSION = 2;  // v2 adds the response cache store
+const WORKFLOW_STORE = 'workflow';
+const RESPONSE_CACHE_STORE = 'responses';
+const WORKSPACE_KEY = 'workspace';
+const LEGACY_APP_STATE_KEY = 'appState'; // Single-learner saves (schema v1)
+const CHECKPOINT_KEY_PREFIX = 'checkpoint:';
+
+// Bump this and add an entry to MIGRATIONS whenever the stored shape changes
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface PersistedWorkspace extends Workspace {
+  schemaVersion: number;
+  savedAt: string;
+}
+
+function normalizeAppState(state: any): AppState {
+  return {
+    ...state,
+    currentView: state.currentView || 'setup',
+    practiceSessions: Array.isArray(state.practiceSessions) ? state.practiceSessions : [],
+    completedSteps: Array.isArray(state.completedSteps) ? state.completedSteps : [],
+    created_at: state.created_at || new Date().toISOString(),
+    last_updated: state.last_updated || new Date().toISOString()
+  };
+}
+
+// Each migration upgrades a saved record from version N to N + 1
+const MIGRATIONS: { [fromVersion: number]: (record: any) => any } = {
+  // v0 -> v1: bare AppState written without an envelope
+  0: (record: any) => ({
+    schemaVersion: 1,
+    savedAt: new Date().toISOString(),
+    state: normalizeAppState(record)
+  }),
+
+  // v1 -> v2: single AppState becomes the first learner profile
+  1: (record: any) => {
+    const state = normalizeAppState(record.state || {});
+    const profileId = 'profile_default';
+    return {
+      schemaVersion: 2,
+      savedAt: record.savedAt || new Date().toISOString(),
+      activeProfileId: profileId,
+      profiles: [{
+        id: profileId,
+        name: 'Default learner',
+        state,
+        history: [],
+        created_at: state.created_at,
+        last_updated: state.last_updated
+      }]
+    };
+  }
+};
+
+/**
+ * Open (and create/upgrade if needed) the app database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(WORKFLOW_STORE)) {
+        db.createObjectStore(WORKFLOW_STORE);
+      }
+      if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+        db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a single request against a store (the workflow store by default)
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = WORKFLOW_STORE
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Upgrade a saved record to the current schema version
+ * Accepts versioned envelopes as well as bare (v0) AppState objects
+ */
+export function migratePersistedState(raw: any): PersistedWorkspace {
+  let version: number = raw && typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  let record: any = raw;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Saved state uses schema v${version}, but this version of the app only understands up to v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from schema v${version}`);
+    }
+    record = migrate(record);
+    version++;
+    console.log(`💾 Migrated saved state to schema v${version}`);
+  }
+
+  return record as PersistedWorkspace;
+}
+
+/**
+ * Save all learner profiles and the active selection
+ */
+export async function saveWorkspace(workspace: Workspace): Promise<void> {
+  const record: PersistedWorkspace = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    ...workspace
+  };
+
+  await withStore('readwrite', store => store.put(record, WORKSPACE_KEY));
+}
+
+/**
+ * Load the saved profiles (migrated to the current schema)
+ * Returns null when nothing has been saved yet
+ */
+export async function loadWorkspace(): Promise<Workspace | null> {
+  let raw = await withStore<any>('readonly', store => store.get(WORKSPACE_KEY));
+  const fromLegacyKey = !raw;
+
+  if (!raw) {
+    raw = await withStore<any>('readonly', store => store.get(LEGACY_APP_STATE_KEY));
+  }
+
+  if (!raw) {
+    return null;
+  }
+
+  const migrated = migratePersistedState(raw);
+
+  // Write back immediately so the migration only runs once
+  if (fromLegacyKey || raw.schemaVersion !== migrated.schemaVersion) {
+    await withStore('readwrite', store => store.put(migrated, WORKSPACE_KEY));
+    if (fromLegacyKey) {
+      await withStore('readwrite', store => store.delete(LEGACY_APP_STATE_KEY));
+    }
+  }
+
+  return {
+    activeProfileId: migrated.activeProfileId,
+    profiles: migrated.profiles,
+    heuristicRuleSet: migrated.heuristicRuleSet,
+    stageModelSettings: migrated.stageModelSettings,
+    rateLimitCeiling: migrated.rateLimitCeiling,
+    batchConcurrency: migrated.batchConcurrency,
+    responseCache: migrated.responseCache
+  };
+}
+
+/**
+ * Save an unfinished run's progress - replaces the learner's previous checkpoint
+ */
+export async function saveRunCheckpoint(profileId: string, checkpoint: RunCheckpoint): Promise<void> {
+  await withStore('readwrite', store => store.put(checkpoint, CHECKPOINT_KEY_PREFIX + profileId));
+}
+
+/**
+ * The learner's unfinished run, or null when there is none
+ */
+export async function loadRunCheckpoint(profileId: string): Promise<RunCheckpoint | null> {
+  const checkpoint = await withStore<RunCheckpoint | undefined>('readonly', store => store.get(CHECKPOINT_KEY_PREFIX + profileId));
+  return checkpoint || null;
+}
+
+export async function clearRunCheckpoint(profileId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(CHECKPOINT_KEY_PREFIX + profileId));
+}
+
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+  const entry = await withStore<CachedResponse | undefined>('readonly', store => store.get(key), RESPONSE_CACHE_STORE);
+  return entry || null;
+}
+
+export async function putCachedResponse(entry: CachedResponse): Promise<void> {
+  await withStore('readwrite', store => store.put(entry), RESPONSE_CACHE_STORE);
+}
+
+export async function deleteCachedResponse(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key), RESPONSE_CACHE_STORE);
+}
+
+export async function countCachedResponses(): Promise<number> {
+  return withStore('readonly', store => store.count(), RESPONSE_CACHE_STORE);
+}
+
+export async function clearCachedResponses(): Promise<void> {
+  await withStore('readwrite', store => store.clear(), RESPONSE_CACHE_STORE);
+}
+
+/**
+ * Delete cached responses created before the cutoff (epoch ms)
+ */
+export async function deleteCachedResponsesBefore(cutoff: number): Promise<void> {
+  await withStore('readwrite', store => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as CachedResponse).created_at < cutoff) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    return request;
+  }, RESPONSE_CACHE_STORE);
+}
@@ -0,0 +1,79 @@
+// Learner profile helpers
+// Create, duplicate and describe profiles so each student keeps their own workflow
+
+import { AppState, LearnerProfile, ProfileHistoryEntry } from '../types';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Fresh workflow state for a new learner
+ */
+export function createEmptyAppState(): AppState {
+  const now = new Date().toISOString();
+  return {
+    currentView: 'setup',
+    completedSteps: [],
+    practiceSessions: [],
+    created_at: now,
+    last_updated: now
+  };
+}
+
+/**
+ * Create a new profile, optionally seeded with an existing workflow state
+ */
+export function createProfile(name: string, state: AppState = createEmptyAppState()): LearnerProfile {
+  const now = new Date().toISOString();
+  return {
+    id: generateId('profile'),
+    name: name.trim() || 'Untitled learner',
+    state,
+    history: [],
+    created_at: now,
+    last_updated: now
+  };
+}
+
+/**
+ * Deep-copy a profile under a new id and name
+ */
+export function duplicateProfile(profile: LearnerProfile, name?: string): LearnerProfile {
+  const now = new Date().toISOString();
+  const copy: LearnerProfile = JSON.parse(JSON.stringify(profile));
+  return {
+    ...copy,
+    id: generateId('profile'),
+    name: name?.trim() || `${profile.name} (copy)`,
+    created_at: now,
+    last_updated: now
+  };
+}
+
+/**
+ * History entry for the active profile's timeline
+ */
+export function createHistoryEntry(
+  type: ProfileHistoryEntry['type'],
+  summary: string
+): ProfileHistoryEntry {
+  return {
+    id: generateId('event'),
+    date: new Date().toISOString(),
+    type,
+    summary
+  };
+}
+
+/**
+ * Masked reference to an API key so profiles can show which key they use
+ * without the key itself ever being persisted
+ */
+export function maskApiKey(apiKey: string): string {
+  const trimmed = apiKey.trim();
+  if (trimmed.length <= 12) {
+    return '••••';
+  }
+  return `${trimmed.slice(0, 7)}…${trimmed.slice(-4)}`;
+}
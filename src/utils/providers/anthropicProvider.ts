@@ -0,0 +1,108 @@
+// Anthropic Messages API, called directly from the browser or through the
+// local proxy (server/proxy.js), which holds the key and forwards the same request
+
+import { LLMProvider, LLMProviderConfig, LLMRequest, LLMResponse, RateLimitInfo } from '../../types';
+import { DEFAULT_MODEL } from '../costEstimator';
+import { postJSON, headerNumber } from './http';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+export const DEFAULT_PROXY_URL = 'http://localhost:8787';
+
+/**
+ * Rate limits from the anthropic-ratelimit-* headers
+ * Falls back to the input-token limit when the combined token headers are absent
+ */
+export function parseAnthropicRateLimit(headers: Headers): RateLimitInfo | undefined {
+  const resetAt = (name: string) => {
+    const value = Date.parse(headers.get(name) || '');
+    return isNaN(value) ? undefined : value;
+  };
+  const tokenPrefix = headers.has('anthropic-ratelimit-tokens-limit')
+    ? 'anthropic-ratelimit-tokens'
+    : 'anthropic-ratelimit-input-tokens';
+
+  const info: RateLimitInfo = {
+    requestsLimit: headerNumber(headers, 'anthropic-ratelimit-requests-limit'),
+    requestsRemaining: headerNumber(headers, 'anthropic-ratelimit-requests-remaining'),
+    requestsResetAt: resetAt('anthropic-ratelimit-requests-reset'),
+    tokensLimit: headerNumber(headers, `${tokenPrefix}-limit`),
+    tokensRemaining: headerNumber(headers, `${tokenPrefix}-remaining`),
+    tokensResetAt: resetAt(`${tokenPrefix}-reset`)
+  };
+  return Object.values(info).some(value => value !== undefined) ? info : undefined;
+}
+
+/**
+ * Where to send the request and how to authenticate
+ * Direct calls carry the API key; proxied calls carry only the user's proxy token
+ */
+function resolveEndpoint(config: LLMProviderConfig): { url: string; headers: { [name: string]: string } } {
+  if (config.kind === 'anthropic-proxy') {
+    const baseUrl = (config.baseUrl || DEFAULT_PROXY_URL).replace(/\/+$/, '');
+    return {
+      url: `${baseUrl}/v1/messages`,
+      headers: {
+        'Authorization': `Bearer ${config.apiKey || ''}`,
+        'anthropic-version': '2023-06-01'
+      }
+    };
+  }
+  return {
+    url: ANTHROPIC_URL,
+    headers: {
+      'x-api-key': config.apiKey || '',
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true'
+    }
+  };
+}
+
+export function createAnthropicProvider(config: LLMProviderConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODEL;
+  const { url, headers } = resolveEndpoint(config);
+
+  return {
+    kind: config.kind,
+    label: config.kind === 'anthropic-proxy' ? 'Anthropic (local proxy)' : 'Anthropic',
+    model,
+    requestsPerMinute: 5,
+
+    complete: async ({ prompt, maxTokens, model: stageModel, signal, schema }: LLMRequest): Promise<LLMResponse> => {
+      const requestModel = stageModel || model;
+      console.log('Making API request...');
+      console.log('Model:', requestModel);
+
+      const { data, status, headers: responseHeaders } = await postJSON(
+        url,
+        headers,
+        {
+          model: requestModel,
+          max_tokens: maxTokens,
+          messages: [
+            { role: 'user', content: prompt }
+          ],
+          // Structured output: force a single tool whose input is the requested shape
+          ...(schema && {
+            tools: [{ name: schema.name, description: schema.description, input_schema: schema.schema }],
+            tool_choice: { type: 'tool', name: schema.name }
+          })
+        },
+        signal
+      );
+
+      // Extract the tool input (structured output) or the text from the response
+      const blocks = data.content || [];
+      const toolUse = schema && blocks.find((block: any) => block.type === 'tool_use' && block.name === schema.name);
+      const textContent = blocks.find((block: any) => block.type === 'text');
+      return {
+        text: toolUse ? JSON.stringify(toolUse.input) : textContent ? textContent.text : '',
+        usage: data.usage && {
+          input_tokens: data.usage.input_tokens || 0,
+          output_tokens: data.usage.output_tokens || 0
+        },
+        status,
+        rateLimit: parseAnthropicRateLimit(responseHeaders)
+      };
+    }
+  };
+}
@@ -0,0 +1,88 @@
+// Shared fetch helper for HTTP providers
+
+import { getAbortError } from '../runControl';
+
+/**
+ * A request that failed - carries what the retry logic needs to decide what to do next
+ * status is 0 when the server could not be reached at all
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Delay the server asked for, from `retry-after-ms` or `retry-after` (seconds or an HTTP date)
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | null {
+  const milliseconds = parseFloat(headers.get('retry-after-ms') || '');
+  if (!isNaN(milliseconds) && milliseconds >= 0) return milliseconds;
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+
+  const seconds = parseFloat(value);
+  if (!isNaN(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Numeric header value, or undefined when missing or not a number
+ */
+export function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = parseFloat(headers.get(name) || '');
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * POST a JSON body and return the parsed JSON response with the status and headers
+ * Non-2xx responses and network failures throw an LLMRequestError; aborting throws RunAbortedError
+ */
+export async function postJSON(
+  url: string,
+  headers: { [name: string]: string },
+  body: any,
+  signal?: AbortSignal
+): Promise<{ data: any; status: number; headers: Headers }> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    // A paused or cancelled run is not a network error - it must not be retried
+    if (signal?.aborted) throw getAbortError(signal);
+    throw new LLMRequestError(`Network error: ${error instanceof Error ? error.message : String(error)}`, 0);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('API Error Response:', errorText);
+
+    let errorData;
+    try {
+      errorData = JSON.parse(errorText);
+    } catch {
+      errorData = { message: errorText };
+    }
+
+    throw new LLMRequestError(
+      `API Error ${response.status}: ${errorData.error?.message || errorData.message || response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers)
+    );
+  }
+
+  return { data: await response.json(), status: response.status, headers: response.headers };
+}
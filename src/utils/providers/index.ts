@@ -0,0 +1,55 @@
+// LLM provider registry
+// The pipeline only talks to an LLMProvider, so the backend can be swapped
+// without touching the prompts or the parsing of responses
+
+import { LLMProvider, LLMProviderConfig, LLMProviderKind } from '../../types';
+import { createAnthropicProvider, DEFAULT_PROXY_URL } from './anthropicProvider';
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openaiCompatibleProvider';
+import { createMockProvider, MOCK_MODEL } from './mockProvider';
+
+export { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, DEFAULT_PROXY_URL, MOCK_MODEL };
+
+// Register new providers here
+export const LLM_PROVIDERS: { kind: LLMProviderKind; label: string; description: string }[] = [
+  { kind: 'anthropic', label: 'Anthropic', description: 'Claude models with your Anthropic API key' },
+  { kind: 'anthropic-proxy', label: 'Local proxy', description: 'Claude models through the proxy server (npm run proxy) - the API key stays on the server' },
+  { kind: 'openai-compatible', label: 'OpenAI-compatible', description: 'OpenAI, or a local server such as Ollama or llama.cpp' },
+  { kind: 'mock', label: 'Offline demo', description: 'Canned responses - no key, no network, nothing is sent' }
+];
+
+export function createProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.kind) {
+    case 'anthropic':
+    case 'anthropic-proxy':
+      return createAnthropicProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`No LLM provider registered for "${(config as LLMProviderConfig).kind}"`);
+  }
+}
+
+/**
+ * Whether the provider serves Anthropic's models - the proxy forwards to the same API
+ */
+export function usesAnthropicModels(kind: LLMProviderKind): boolean {
+  return kind === 'anthropic' || kind === 'anthropic-proxy';
+}
+
+/**
+ * What a provider needs before it can be used - returns an error message, or null when ready
+ */
+export function validateProviderConfig(config: LLMProviderConfig): string | null {
+  if (config.kind === 'anthropic' && !config.apiKey?.trim()) {
+    return 'Please enter an API key';
+  }
+  if (config.kind === 'anthropic-proxy' && !config.apiKey?.trim()) {
+    return 'Please enter your proxy token';
+  }
+  if ((config.kind === 'openai-compatible' || config.kind === 'anthropic-proxy') && config.baseUrl && !/^https?:\/\//.test(config.baseUrl.trim())) {
+    return 'The server URL must start with http:// or https://';
+  }
+  return null;
+}
@@ -0,0 +1,291 @@
+// Deterministic offline provider - no key, no network
+// Answers each prompt type with canned JSON built from simple local checks, so
+// the full workflow can be demoed and tested. The same prompt always gets the
+// same response, in the shape of the stage's output schema.
+
+import { LLMProvider, LLMRequest, LLMResponse } from '../../types';
+import { estimateTokens } from '../costEstimator';
+
+export const MOCK_MODEL = 'mock-writing-tutor';
+
+// Short pause so progress updates render like a real run
+const MOCK_LATENCY_MS = 150;
+
+type Category = 'grammar' | 'punctuation' | 'tone';
+
+interface MockCheck {
+  category: Category;
+  pattern: RegExp;
+  issue: string;
+  recommendation: string;
+  suggest: (quote: string) => string;  // Fix for the matched words, for the annotation
+  // Practice material: an incorrect sentence, its fix, and a wrong option for multiple choice
+  example: { incorrect: string; correct: string; distractor: string };
+}
+
+const SPELLED_OUT: { [word: string]: string } = {
+  u: 'you', ur: 'your', pls: 'please', plz: 'please', thx: 'thanks', lol: '', gonna: 'going to', wanna: 'want to'
+};
+
+const CHECKS: MockCheck[] = [
+  {
+    category: 'grammar',
+    pattern: /(^|\s)i(\s|'[a-z])/,
+    issue: "lowercase 'i' used as a pronoun",
+    recommendation: "Always capitalize the pronoun 'I', including in contractions like I'm and I'll.",
+    suggest: quote => quote.replace(/^i/, 'I'),
+    example: { incorrect: 'Yesterday i finished the report.', correct: 'Yesterday I finished the report.', distractor: 'yesterday i Finished the report.' }
+  },
+  {
+    category: 'grammar',
+    pattern: /\b(could|should|would|must) of\b/i,
+    issue: "'could of' instead of 'could have'",
+    recommendation: "Write 'could have' (or 'could've') - 'of' is never part of the verb.",
+    suggest: quote => quote.replace(/ of$/i, ' have'),
+    example: { incorrect: 'We should of asked earlier.', correct: 'We should have asked earlier.', distractor: 'We should of ask earlier.' }
+  },
+  {
+    category: 'grammar',
+    pattern: /\b(\w{2,}) \1\b/i,
+    issue: 'repeated word',
+    recommendation: 'Proofread once more before sending - doubled words are easy to miss.',
+    suggest: quote => quote.split(' ')[0],
+    example: { incorrect: 'Please send the the file today.', correct: 'Please send the file today.', distractor: 'Please send the file the today.' }
+  },
+  {
+    category: 'grammar',
+    pattern: /(^|[.!?]\s+)[a-z]{2,}/,
+    issue: 'sentence starts with a lowercase letter',
+    recommendation: 'Start every sentence with a capital letter.',
+    suggest: quote => quote.replace(/[a-z]/, letter => letter.toUpperCase()),
+    example: { incorrect: 'the meeting moved to Friday.', correct: 'The meeting moved to Friday.', distractor: 'the Meeting moved to friday.' }
+  },
+  {
+    category: 'punctuation',
+    pattern: /[A-Za-z0-9)]\s*$/,
+    issue: 'missing punctuation at the end of the message',
+    recommendation: 'End each sentence with a period, question mark or exclamation mark.',
+    suggest: quote => `${quote}.`,
+    example: { incorrect: 'Let me know when you are free', correct: 'Let me know when you are free.', distractor: 'Let me know, when you are free' }
+  },
+  {
+    category: 'punctuation',
+    pattern: /\w\s+[,.;:]/,
+    issue: 'space before a punctuation mark',
+    recommendation: 'In English, commas, periods, colons and semicolons follow the word directly.',
+    suggest: quote => quote.replace(/\s+/, ''),
+    example: { incorrect: 'Thanks , I will check .', correct: 'Thanks, I will check.', distractor: 'Thanks ,I will check .' }
+  },
+  {
+    category: 'tone',
+    pattern: /[!?]{2,}/,
+    issue: 'repeated exclamation or question marks',
+    recommendation: 'Use a single mark - repeated ones read as impatient in written messages.',
+    suggest: quote => quote[0],
+    example: { incorrect: 'Can you reply today??', correct: 'Could you reply today?', distractor: 'Can you reply today!?' }
+  },
+  {
+    category: 'tone',
+    pattern: /\b(u|ur|pls|plz|thx|lol|gonna|wanna)\b/i,
+    issue: 'text-speak or very casual wording',
+    recommendation: "Spell words out ('you', 'please', 'thanks') when writing to colleagues or clients.",
+    suggest: quote => SPELLED_OUT[quote.toLowerCase()] ?? quote,
+    example: { incorrect: 'Thx, can u send it pls?', correct: 'Thanks, could you send it, please?', distractor: 'Thx, could u send it please?' }
+  },
+  {
+    category: 'tone',
+    pattern: /\b[A-Z]{4,}\b/,
+    issue: 'words in all caps read as shouting',
+    recommendation: 'Use bold or rephrase for emphasis instead of capital letters.',
+    suggest: quote => quote.toLowerCase(),
+    example: { incorrect: 'This is VERY urgent.', correct: 'This is urgent.', distractor: 'This is VERY, urgent.' }
+  }
+];
+
+const GENERIC_EXAMPLE = {
+  incorrect: 'Me and him went to the meeting.',
+  correct: 'He and I went to the meeting.',
+  distractor: 'Him and I went to the meeting.'
+};
+
+/**
+ * Split a batch prompt into its numbered blocks ("---MESSAGE 1 (Spanish)---" etc.)
+ */
+function splitBlocks(prompt: string, marker: 'MESSAGE' | 'QUESTION'): string[] {
+  const parts = prompt.split(new RegExp(`---${marker} \\d+[^\\n]*---\\n`));
+  return parts.slice(1).map(part => part.split(/\n\n(?=Respond|For each)/)[0].trim());
+}
+
+function findCheck(issue: string): MockCheck | undefined {
+  const bare = issue.replace(/^\[[^\]]+\]\s*/, '');
+  return CHECKS.find(check => check.issue === bare);
+}
+
+function respondRelevance(prompt: string): any {
+  // Same rule as the prompt's "very short (<10 words)" exclusion
+  return splitBlocks(prompt, 'MESSAGE').map(text => text.split(/\s+/).filter(Boolean).length >= 10);
+}
+
+function respondEvaluation(prompt: string): any {
+  return splitBlocks(prompt, 'MESSAGE').map((text, idx) => {
+    const found = CHECKS.filter(check => check.pattern.test(text));
+    const issuesFor = (category: Category) => found.filter(c => c.category === category).map(c => c.issue);
+    const score = (category: Category) => Math.max(1, 5 - issuesFor(category).length);
+
+    return {
+      message_number: idx + 1,
+      grammar_score: score('grammar'),
+      punctuation_score: score('punctuation'),
+      tone_score: score('tone'),
+      grammar_issues: issuesFor('grammar'),
+      punctuation_issues: issuesFor('punctuation'),
+      tone_issues: issuesFor('tone'),
+      // The first match of each check, quoted the way the prompt asks
+      annotations: found.map(check => {
+        const quote = (text.match(check.pattern) as RegExpMatchArray)[0].trim();
+        return { category: check.category, issue: check.issue, quote, suggestion: check.suggest(quote) };
+      })
+    };
+  });
+}
+
+function respondPatterns(prompt: string): any {
+  const issuesIn = (name: string): string[] => {
+    const match = prompt.match(new RegExp(`All ${name} Issues Found \\(\\d+ total\\):\\n(\\[[\\s\\S]*?\\])\\n`));
+    try {
+      return match ? JSON.parse(match[1]) : [];
+    } catch {
+      return [];
+    }
+  };
+  const number = (pattern: RegExp) => parseFloat(prompt.match(pattern)?.[1] || '0');
+
+  const topIssues = (issues: string[]) => {
+    const counts: { [issue: string]: number } = {};
+    issues.forEach(issue => { counts[issue] = (counts[issue] || 0) + 1; });
+    const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 5);
+    if (ranked.length === 0) {
+      return [{ issue: 'No recurring issues found', frequency: 0, severity: 'low', recommendation: 'Keep writing the way you do now.' }];
+    }
+    return ranked.map(([issue, frequency]) => ({
+      issue,
+      frequency,
+      severity: frequency > 5 ? 'high' : frequency >= 3 ? 'medium' : 'low',
+      recommendation: findCheck(issue)?.recommendation || 'Review this pattern in your recent messages.'
+    }));
+  };
+
+  const grammar = number(/Average Grammar Score: ([\d.]+)/);
+  const punctuation = number(/Average Punctuation Score: ([\d.]+)/);
+  const tone = number(/Average Tone Score: ([\d.]+)/);
+  const weakest = ([['Grammar', grammar], ['Punctuation', punctuation], ['Tone', tone]] as [string, number][])
+    .sort((a, b) => a[1] - b[1])[0][0];
+
+  return {
+    summary: {
+      total_messages: number(/Total Messages Evaluated: (\d+)/),
+      avg_grammar_score: grammar,
+      avg_punctuation_score: punctuation,
+      avg_tone_score: tone,
+      overall_assessment: `Offline demo analysis based on simple pattern checks. ${weakest} is the area with the most room for improvement.`
+    },
+    top_grammar_issues: topIssues(issuesIn('Grammar')),
+    top_punctuation_issues: topIssues(issuesIn('Punctuation')),
+    top_tone_issues: topIssues(issuesIn('Tone'))
+  };
+}
+
+function respondQuestions(prompt: string): any {
+  const session = prompt.match(/Session (\d+)/)?.[1] || '1';
+  const focus = prompt.split('Focus on these issues:')[1] || '';
+  const issues = Array.from(focus.matchAll(/^\d+\. (.+)$/gm)).map(match => match[1].trim()).slice(0, 3);
+
+  return issues.flatMap((issue, idx) => {
+    const check = findCheck(issue);
+    const example = check?.example || GENERIC_EXAMPLE;
+    const issueType = check?.category || 'grammar';
+    return [
+      {
+        question_id: `s${session}_q${idx * 2 + 1}`,
+        issue_type: issueType,
+        specific_issue: issue,
+        question_format: 'correction',
+        question_text: `Correct this sentence:\n\n${example.incorrect}`,
+        correct_answer: example.correct,
+        explanation: check?.recommendation || `Focus on: ${issue}`
+      },
+      {
+        question_id: `s${session}_q${idx * 2 + 2}`,
+        issue_type: issueType,
+        specific_issue: issue,
+        question_format: 'multiple_choice',
+        question_text: 'Which sentence is correct?',
+        correct_answer: 'B',
+        options: [
+          `A) ${example.incorrect}`,
+          `B) ${example.correct}`,
+          `C) ${example.distractor}`,
+          `D) ${example.incorrect.toLowerCase()}`
+        ],
+        explanation: check?.recommendation || `Focus on: ${issue}`
+      }
+    ];
+  });
+}
+
+function respondGrading(prompt: string): any {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}']+/gu) || []);
+
+  return splitBlocks(prompt, 'QUESTION').map((block, idx) => {
+    const correct = words(block.match(/^Correct Answer: (.*)$/m)?.[1] || '');
+    const answer = words(block.match(/^User Answer: (.*)$/m)?.[1] || '');
+    const shared = Array.from(answer).filter(word => correct.has(word)).length;
+    const overlap = shared / Math.max(1, new Set([...Array.from(correct), ...Array.from(answer)]).size);
+    const isCorrect = overlap >= 0.6;
+
+    return {
+      question_number: idx + 1,
+      is_correct: isCorrect,
+      feedback: isCorrect
+        ? 'Correct! Your answer demonstrates proper understanding.'
+        : 'Not quite - compare your answer with the correct one.'
+    };
+  });
+}
+
+function respond({ prompt, stage }: LLMRequest): string {
+  switch (stage) {
+    case 'relevance':
+      return JSON.stringify({ relevant: respondRelevance(prompt) });
+    case 'evaluation':
+      return JSON.stringify({ evaluations: respondEvaluation(prompt) }, null, 2);
+    case 'patterns':
+      return JSON.stringify(respondPatterns(prompt), null, 2);
+    case 'questions':
+      return JSON.stringify({ questions: respondQuestions(prompt) }, null, 2);
+    case 'grading':
+      return JSON.stringify({ grades: respondGrading(prompt) }, null, 2);
+    case 'comparison':
+      return 'This summary was generated offline by the demo provider. Compare the score changes and resolved issues above to see how your writing has moved since the baseline.';
+    default:
+      return 'OK';
+  }
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    kind: 'mock',
+    label: 'Offline demo',
+    model: MOCK_MODEL,
+    requestsPerMinute: null,
+
+    complete: async (request: LLMRequest): Promise<LLMResponse> => {
+      await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+      const text = respond(request);
+      return {
+        text,
+        usage: { input_tokens: estimateTokens(request.prompt), output_tokens: estimateTokens(text) }
+      };
+    }
+  };
+}
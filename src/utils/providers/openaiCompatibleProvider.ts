@@ -0,0 +1,93 @@
+// OpenAI-compatible chat completions - OpenAI itself, or local servers such as
+// Ollama (http://localhost:11434/v1) and llama.cpp (http://localhost:8080/v1)
+
+import { LLMProvider, LLMProviderConfig, LLMRequest, LLMResponse, RateLimitInfo } from '../../types';
+import { postJSON, headerNumber } from './http';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+/**
+ * Whether a base URL points at this machine (no rate limit needed)
+ */
+function isLocalUrl(baseUrl: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/.test(baseUrl);
+}
+
+/**
+ * Rate limits from OpenAI's x-ratelimit-* headers, whose resets are durations like "6m0s" or "120ms"
+ * Local servers don't send them
+ */
+export function parseOpenAIRateLimit(headers: Headers, now: number = Date.now()): RateLimitInfo | undefined {
+  const resetAt = (name: string) => {
+    const value = headers.get(name);
+    if (!value) return undefined;
+    const units: { [unit: string]: number } = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+    const pattern = /(\d+(?:\.\d+)?)(ms|s|m|h)/g;
+    let ms = 0;
+    let matched = false;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+      ms += parseFloat(match[1]) * units[match[2]];
+      matched = true;
+    }
+    return matched ? now + ms : undefined;
+  };
+
+  const info: RateLimitInfo = {
+    requestsLimit: headerNumber(headers, 'x-ratelimit-limit-requests'),
+    requestsRemaining: headerNumber(headers, 'x-ratelimit-remaining-requests'),
+    requestsResetAt: resetAt('x-ratelimit-reset-requests'),
+    tokensLimit: headerNumber(headers, 'x-ratelimit-limit-tokens'),
+    tokensRemaining: headerNumber(headers, 'x-ratelimit-remaining-tokens'),
+    tokensResetAt: resetAt('x-ratelimit-reset-tokens')
+  };
+  return Object.values(info).some(value => value !== undefined) ? info : undefined;
+}
+
+export function createOpenAICompatibleProvider(config: LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_OPENAI_MODEL;
+
+  return {
+    kind: 'openai-compatible',
+    label: isLocalUrl(baseUrl) ? 'Local server' : 'OpenAI-compatible',
+    model,
+    requestsPerMinute: isLocalUrl(baseUrl) ? null : 20,
+
+    complete: async ({ prompt, maxTokens, model: stageModel, signal, schema }: LLMRequest): Promise<LLMResponse> => {
+      const requestModel = stageModel || model;
+      console.log(`Making request to ${baseUrl} (${requestModel})...`);
+
+      const { data, status, headers } = await postJSON(
+        `${baseUrl}/chat/completions`,
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        {
+          model: requestModel,
+          max_tokens: maxTokens,
+          messages: [
+            { role: 'user', content: prompt }
+          ],
+          // Structured output - also understood by Ollama and the llama.cpp server
+          ...(schema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: false }
+            }
+          })
+        },
+        signal
+      );
+
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        usage: data.usage && {
+          input_tokens: data.usage.prompt_tokens || 0,
+          output_tokens: data.usage.completion_tokens || 0
+        },
+        status,
+        rateLimit: parseOpenAIRateLimit(headers)
+      };
+    }
+  };
+}
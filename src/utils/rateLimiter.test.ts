@@ -0,0 +1,167 @@
+import { AdaptiveRateLimiter, parseRequestsPerMinute } from './rateLimiter';
+import { parseAnthropicRateLimit } from './providers/anthropicProvider';
+
+const START = Date.parse('2024-05-01T12:00:00Z');
+
+// The parts of fetch's Headers the parser reads (jest's environment has no Headers)
+const headers = (values: { [name: string]: string }) =>
+  ({ get: (name: string) => values[name] ?? null, has: (name: string) => name in values }) as unknown as Headers;
+
+const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+// Start acquiring and report whether the slot has been granted yet
+function track(promise: Promise<void>): { granted: () => boolean } {
+  let granted = false;
+  promise.then(() => { granted = true; });
+  return { granted: () => granted };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(START);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('parseAnthropicRateLimit', () => {
+  test('reads the request and token headers', () => {
+    expect(parseAnthropicRateLimit(headers({
+      'anthropic-ratelimit-requests-limit': '50',
+      'anthropic-ratelimit-requests-remaining': '49',
+      'anthropic-ratelimit-requests-reset': '2024-05-01T12:00:30Z',
+      'anthropic-ratelimit-tokens-limit': '40000',
+      'anthropic-ratelimit-tokens-remaining': '39000',
+      'anthropic-ratelimit-tokens-reset': '2024-05-01T12:00:02Z'
+    }))).toEqual({
+      requestsLimit: 50,
+      requestsRemaining: 49,
+      requestsResetAt: START + 30000,
+      tokensLimit: 40000,
+      tokensRemaining: 39000,
+      tokensResetAt: START + 2000
+    });
+  });
+
+  test('falls back to the input-token headers', () => {
+    expect(parseAnthropicRateLimit(headers({
+      'anthropic-ratelimit-input-tokens-limit': '20000',
+      'anthropic-ratelimit-input-tokens-remaining': '100'
+    }))).toMatchObject({ tokensLimit: 20000, tokensRemaining: 100 });
+  });
+
+  test('returns undefined without rate-limit headers', () => {
+    expect(parseAnthropicRateLimit(headers({ 'content-type': 'application/json' }))).toBeUndefined();
+  });
+});
+
+describe('parseRequestsPerMinute', () => {
+  test.each([['30', 30], ['12.7', 12], ['', null], ['0', null], ['-5', null], ['fast', null]])('reads %j as %p', (input, expected) => {
+    expect(parseRequestsPerMinute(input)).toBe(expected);
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  test('honours requestsPerMinute with a sliding window', async () => {
+    const limiter = new AdaptiveRateLimiter(3);
+    await limiter.acquire();
+    jest.advanceTimersByTime(10000);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const fourth = track(limiter.acquire());
+    await flushPromises();
+    expect(fourth.granted()).toBe(false);
+    expect(limiter.getState()).toMatchObject({ queueDepth: 1, requestsInLastMinute: 3, nextSlotAt: START + 61000 });
+
+    jest.advanceTimersByTime(50999);
+    await flushPromises();
+    expect(fourth.granted()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(fourth.granted()).toBe(true);
+    expect(limiter.getState().queueDepth).toBe(0);
+  });
+
+  test('follows the server limit once known, capped by the ceiling', () => {
+    const limiter = new AdaptiveRateLimiter(5);
+    expect(limiter.requestsPerMinute).toBe(5);
+
+    limiter.update({ requestsLimit: 50 });
+    expect(limiter.requestsPerMinute).toBe(50);
+    expect(limiter.getState().adaptive).toBe(true);
+
+    limiter.setCeiling(20);
+    expect(limiter.requestsPerMinute).toBe(20);
+    expect(new AdaptiveRateLimiter(null).requestsPerMinute).toBeNull();
+    expect(new AdaptiveRateLimiter(null, 10).requestsPerMinute).toBe(10);
+  });
+
+  test('backs off when remaining requests run out and recovers after the reset', async () => {
+    const limiter = new AdaptiveRateLimiter(null);
+    limiter.update({ requestsLimit: 100, requestsRemaining: 1, requestsResetAt: START + 20000 });
+
+    await limiter.acquire();  // Uses the last request of the allowance
+    const next = track(limiter.acquire());
+    await flushPromises();
+    expect(next.granted()).toBe(false);
+    expect(limiter.getState().nextSlotAt).toBe(START + 20000);
+
+    jest.advanceTimersByTime(20000);
+    await flushPromises();
+    expect(next.granted()).toBe(true);
+
+    // The next response reports the refilled allowance
+    limiter.update({ requestsRemaining: 99, requestsResetAt: START + 80000 });
+    expect(limiter.getWaitTime()).toBe(0);
+  });
+
+  test('backs off when remaining tokens are fewer than the request needs', async () => {
+    const limiter = new AdaptiveRateLimiter(null);
+    limiter.update({ tokensLimit: 40000, tokensRemaining: 500, tokensResetAt: START + 4000 });
+
+    expect(limiter.getWaitTime(400)).toBe(0);
+    expect(limiter.getWaitTime(2000)).toBe(4000);
+
+    const large = track(limiter.acquire(2000));
+    await flushPromises();
+    expect(large.granted()).toBe(false);
+
+    jest.advanceTimersByTime(4000);
+    await flushPromises();
+    expect(large.granted()).toBe(true);
+  });
+
+  test('holds every request while paused after a 429', async () => {
+    const limiter = new AdaptiveRateLimiter(null);
+    limiter.pause(3000);
+    const waiting = track(limiter.acquire());
+    await flushPromises();
+
+    jest.advanceTimersByTime(2999);
+    await flushPromises();
+    expect(waiting.granted()).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(waiting.granted()).toBe(true);
+  });
+
+  test('notifies subscribers until they unsubscribe', async () => {
+    const limiter = new AdaptiveRateLimiter(10);
+    const listener = jest.fn();
+    const unsubscribe = limiter.subscribe(listener);
+
+    await limiter.acquire();
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ queueDepth: 0, requestsInLastMinute: 1 }));
+
+    unsubscribe();
+    listener.mockClear();
+    limiter.setCeiling(5);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
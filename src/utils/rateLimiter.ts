@@ -0,0 +1,172 @@
+// Adaptive rate limiting
+// Starts at the provider's default pace, then follows the rate-limit headers
+// the server sends back: the account's real requests-per-minute sets the pace,
+// and when the remaining requests or tokens run out, requests wait for the
+// reset time the server reported. The user's ceiling caps the pace either way.
+
+import { RateLimitInfo, RateLimiterState } from '../types';
+import { sleep, throwIfAborted } from './runControl';
+
+const TIME_WINDOW_MS = 60000; // 1 minute
+
+/**
+ * Requests-per-minute ceiling from a text field - null when empty or invalid (no ceiling)
+ */
+export function parseRequestsPerMinute(input: string): number | null {
+  const value = Math.floor(parseFloat(input));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export class AdaptiveRateLimiter {
+  private requestTimestamps: number[] = [];
+  private serverLimits: RateLimitInfo | null = null;
+  private blockedUntil = 0;
+  private queueDepth = 0;
+  private nextSlotAt: number | null = null;
+  // Requests take slots one at a time, in the order they asked
+  private queueTail: Promise<void> = Promise.resolve();
+  private listeners: ((state: RateLimiterState) => void)[] = [];
+
+  constructor(
+    private readonly defaultRequestsPerMinute: number | null,
+    private ceiling: number | null = null
+  ) {}
+
+  /**
+   * Pace in requests per minute - the server's limit once known, capped by the ceiling
+   */
+  get requestsPerMinute(): number | null {
+    const limit = this.serverLimits?.requestsLimit ?? this.defaultRequestsPerMinute;
+    if (this.ceiling === null) return limit;
+    return limit === null ? this.ceiling : Math.min(limit, this.ceiling);
+  }
+
+  setCeiling(ceiling: number | null): void {
+    this.ceiling = ceiling;
+    this.notify();
+  }
+
+  /**
+   * Wait for a slot for a request of about estimatedTokens input tokens
+   * Aborting the signal gives up the place in the queue
+   */
+  async acquire(estimatedTokens: number = 0, signal?: AbortSignal): Promise<void> {
+    this.queueDepth++;
+    this.notify();
+
+    const turn = this.queueTail.then(() => this.waitForSlot(estimatedTokens, signal));
+    this.queueTail = turn.catch(() => undefined);
+
+    try {
+      await turn;
+    } finally {
+      this.queueDepth--;
+      this.notify();
+    }
+  }
+
+  /**
+   * Learn from the rate-limit headers of a response
+   */
+  update(info: RateLimitInfo): void {
+    const previousPace = this.requestsPerMinute;
+    this.serverLimits = { ...this.serverLimits, ...info };
+    if (this.requestsPerMinute !== previousPace) {
+      console.log(`⏱️ Rate limit pace: ${this.requestsPerMinute ?? 'unlimited'} requests/minute`);
+    }
+    this.notify();
+  }
+
+  /**
+   * Hold every request until the server's retry-after has passed (after a 429)
+   */
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.notify();
+  }
+
+  getState(): RateLimiterState {
+    const now = Date.now();
+    return {
+      requestsPerMinute: this.requestsPerMinute,
+      ceiling: this.ceiling,
+      adaptive: this.serverLimits?.requestsLimit !== undefined,
+      requestsInLastMinute: this.requestTimestamps.filter(timestamp => now - timestamp < TIME_WINDOW_MS).length,
+      queueDepth: this.queueDepth,
+      nextSlotAt: this.nextSlotAt,
+      requestsRemaining: this.serverLimits?.requestsRemaining,
+      tokensRemaining: this.serverLimits?.tokensRemaining
+    };
+  }
+
+  /**
+   * Call listener whenever the state changes - returns a function that stops listening
+   */
+  subscribe(listener: (state: RateLimiterState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * How long a request must wait before it may be sent (0 = now)
+   */
+  getWaitTime(estimatedTokens: number = 0, now: number = Date.now()): number {
+    let wait = this.blockedUntil - now;
+
+    // Sliding window at the current pace
+    const maxRequests = this.requestsPerMinute;
+    if (maxRequests !== null) {
+      this.requestTimestamps = this.requestTimestamps.filter(timestamp => now - timestamp < TIME_WINDOW_MS);
+      if (this.requestTimestamps.length >= maxRequests) {
+        const oldestRequest = this.requestTimestamps[this.requestTimestamps.length - maxRequests];
+        wait = Math.max(wait, TIME_WINDOW_MS - (now - oldestRequest) + 1000); // +1 sec buffer
+      }
+    }
+
+    // The server says the allowance is used up - wait for it to refill
+    const limits = this.serverLimits;
+    if (limits) {
+      if (limits.requestsRemaining !== undefined && limits.requestsRemaining <= 0 && limits.requestsResetAt) {
+        wait = Math.max(wait, limits.requestsResetAt - now);
+      }
+      if (limits.tokensRemaining !== undefined && limits.tokensRemaining < estimatedTokens && limits.tokensResetAt) {
+        wait = Math.max(wait, limits.tokensResetAt - now);
+      }
+    }
+
+    return Math.max(0, wait);
+  }
+
+  private async waitForSlot(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+
+    // Limits can change while waiting (a 429 elsewhere, a new ceiling), so check again after each wait
+    for (let waitTime = this.getWaitTime(estimatedTokens); waitTime > 0; waitTime = this.getWaitTime(estimatedTokens)) {
+      this.nextSlotAt = Date.now() + waitTime;
+      this.notify();
+      console.log(`  Rate limit: ${this.requestTimestamps.length}/${this.requestsPerMinute ?? '∞'} requests in last minute`);
+      console.log(`   Waiting ${(waitTime / 1000).toFixed(1)} seconds before next request...`);
+      try {
+        await sleep(waitTime, signal);
+      } finally {
+        this.nextSlotAt = null;
+      }
+    }
+
+    this.requestTimestamps.push(Date.now());
+
+    // Count this request against the allowance until the next response reports the real figures
+    if (this.serverLimits) {
+      if (this.serverLimits.requestsRemaining !== undefined) this.serverLimits.requestsRemaining--;
+      if (this.serverLimits.tokensRemaining !== undefined) this.serverLimits.tokensRemaining -= estimatedTokens;
+    }
+  }
+
+  private notify(): void {
+    if (this.listeners.length === 0) return;
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
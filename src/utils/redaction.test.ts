@@ -0,0 +1,124 @@
+import { createRedactionMap, redactText, redactMessages, restoreText, restoreEvaluation } from './redaction';
+import { EvaluationResult, ParsedMessage } from '../types';
+
+const message = (id: string, text: string): ParsedMessage => ({
+  id,
+  text,
+  timestamp: 0,
+  conversationId: 1,
+  conversationTitle: 'Test'
+});
+
+describe('redactText', () => {
+  test('round-trips every kind of value through the map', () => {
+    const map = createRedactionMap();
+    const original = 'Hi Sarah,\nmail me at jane.doe@example.com or call (555) 123-4567. I live at 221B Baker Street. key sk-ant-REDACTED\n\nBest,\nTom Baker';
+    const { text, count } = redactText(original, map);
+
+    expect(text).not.toContain('Sarah');
+    expect(text).not.toContain('jane.doe@example.com');
+    expect(text).not.toContain('123-4567');
+    expect(text).not.toContain('Baker Street');
+    expect(text).not.toContain('sk-ant-');
+    expect(text).toContain('[EMAIL_1]');
+    expect(count).toBe(6);
+    expect(restoreText(text, map)).toBe(original);
+  });
+
+  test('gives the same value the same placeholder across texts', () => {
+    const map = createRedactionMap();
+    const first = redactText('Write to jane.doe@example.com', map).text;
+    const second = redactText('jane.doe@example.com replied', map).text;
+    expect(first).toBe('Write to [EMAIL_1]');
+    expect(second).toBe('[EMAIL_1] replied');
+  });
+
+  test.each([
+    'Hi All,\nthe report is attached.',
+    'Hey Claude, can you check this?',
+    'Dear Hiring Manager,\nI am applying for the role.',
+    'Hello Team!\nQuick update.',
+    'Thanks,\nThe Team'
+  ])('does not treat the greeting or sign-off in %j as a name', text => {
+    const map = createRedactionMap();
+    expect(redactText(text, map)).toEqual({ text, count: 0 });
+    expect(map.placeholders).toEqual({});
+  });
+
+  test('replaces detected names only where they were found', () => {
+    const map = createRedactionMap();
+    redactText('Hi Will,\nsee below.', map);
+    expect(redactText('I will send it and Will agrees.', map).text).toBe('I will send it and Will agrees.');
+  });
+
+  test('leaves ordinary words alone even if an older map holds them as names', () => {
+    const map = createRedactionMap();
+    map.placeholders['[NAME_1]'] = 'All';
+    map.counters.name = 1;
+    expect(redactText('I think all of us agree.', map).text).toBe('I think all of us agree.');
+  });
+
+  test('replaces custom terms everywhere, in any case', () => {
+    const map = createRedactionMap();
+    const { text } = redactText('Priya wrote this. PRIYA agrees, and priyanka does not.', map, { customTerms: ['Priya'] });
+    expect(text).toBe('[NAME_1] wrote this. [NAME_1] agrees, and priyanka does not.');
+  });
+
+  test.each([
+    '+44 20 7946 0958',
+    '(555) 123-4567',
+    '555.123.4567',
+    '555-123-4567'
+  ])('redacts the phone number %s', phone => {
+    expect(redactText(`Call ${phone} today.`, createRedactionMap()).text).toBe('Call [PHONE_1] today.');
+  });
+
+  test.each([
+    'The budget is 10.000.000 euros.',
+    'About 1 250 000 people live there.',
+    'Version 2.10.3 shipped on 2024-01-15.',
+    'Scores went from 12.5 to 13.75.'
+  ])('leaves plain numbers alone in %j', text => {
+    expect(redactText(text, createRedactionMap()).text).toBe(text);
+  });
+});
+
+describe('redactMessages', () => {
+  test('redacts text and revisions in place and counts the replacements', () => {
+    const map = createRedactionMap();
+    const messages = [
+      { ...message('a', 'Email jane@example.com'), revisionHistory: [{ id: 'a_r1', text: 'Email jane@example.com now', timestamp: 0 }] },
+      message('b', 'Nothing to hide here.')
+    ];
+    expect(redactMessages(messages, map)).toBe(2);
+    expect(messages[0].text).toBe('Email [EMAIL_1]');
+    expect(messages[0].revisionHistory![0].text).toBe('Email [EMAIL_1] now');
+    expect(messages[0].redactionCount).toBe(1);
+    expect(messages[1].redactionCount).toBe(0);
+  });
+});
+
+describe('restoreEvaluation', () => {
+  test('shifts annotation offsets to the restored text', () => {
+    const map = createRedactionMap();
+    const redacted = redactText('Email jane.doe@example.com if i am late', map).text;
+    const start = redacted.indexOf(' i ') + 1;
+    const result: EvaluationResult = {
+      message_id: 'a',
+      text: redacted,
+      grammar_score: 4,
+      punctuation_score: 4,
+      tone_score: 5,
+      grammar_issues: ["lowercase 'i'"],
+      punctuation_issues: [],
+      tone_issues: [],
+      annotations: [{ category: 'grammar', issue: "lowercase 'i'", quote: 'i', start, end: start + 1, suggestion: 'I' }]
+    };
+
+    const restored = restoreEvaluation(result, map);
+    const [annotation] = restored.annotations!;
+    expect(restored.text).toBe('Email jane.doe@example.com if i am late');
+    expect(restored.text.slice(annotation.start, annotation.end)).toBe('i');
+    expect(annotation.start).toBe(restored.text.indexOf(' i ') + 1);
+  });
+});
@@ -0,0 +1,201 @@
+// Local privacy redaction - runs between parsing and the LLM stages
+// Replaces emails, phone numbers, addresses, names, secrets and card numbers with
+// stable placeholders ([EMAIL_1], [NAME_2], ...). The map from placeholder to
+// original never leaves the browser; results are restored for display only.
+
+import { ParsedMessage, RedactionKind, RedactionMap, EvaluationResult } from '../types';
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|ADDRESS|NAME|SECRET|CARD)_(\d+)\]/g;
+const IS_PLACEHOLDER = /^\[(EMAIL|PHONE|ADDRESS|NAME|SECRET|CARD)_\d+\]$/;
+
+// Order matters: secrets and cards before phones, so long digit runs aren't split
+const DETECTORS: { kind: RedactionKind; pattern: RegExp; group?: number }[] = [
+  // API keys and tokens: sk-..., ghp_..., AKIA..., xox?-..., JWTs, long hex/base64 strings
+  {
+    kind: 'secret',
+    pattern: /\b(?:sk-(?:ant-)?[A-Za-z0-9_-]{16,}|gh[pousr]_[A-Za-z0-9]{20,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}|[A-Fa-f0-9]{32,}|(?=[A-Za-z0-9+/]*\d)(?=[A-Za-z0-9+/]*[A-Z])[A-Za-z0-9+/]{40,}={0,2})/g
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { kind: 'card', pattern: /\b(?:\d[ -]?){12,18}\d\b/g },
+  // International (+44 20 7946 0958) and North American ((555) 123-4567) formats
+  // The last group has 4 digits, so grouped numbers like 10.000.000 or 1 250 000 aren't phones
+  { kind: 'phone', pattern: /(?<![\d.,])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[\s.-]\d{3,4}[\s.-]\d{4}\b(?![.,]\d)/g },
+  // House number + street name + street type ("221B Baker Street", "12 rue de la Paix" is not covered)
+  {
+    kind: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent)\b/g
+  },
+  // Names we can spot from context: greetings, introductions and sign-offs
+  { kind: 'name', pattern: /\b(?:Dear|Hi|Hello|Hey)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)(?=[,!\n])/g, group: 1 },
+  { kind: 'name', pattern: /\b(?:[Mm]y name is|I am called|[Nn]ame:)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, group: 1 },
+  {
+    kind: 'name',
+    pattern: /(?:Regards|Thanks|Thank you|Best|Sincerely|Cheers|Cordially),?\s*\n\s*([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)\s*$/gm,
+    group: 1
+  }
+];
+
+// Words greetings and sign-offs are addressed to that aren't anyone's name
+// ("Hi All,", "Dear Hiring Manager,", "Hey Claude,")
+const NOT_NAMES = new Set([
+  'all', 'team', 'everyone', 'everybody', 'folks', 'guys', 'there', 'friend', 'friends', 'colleagues',
+  'sir', 'madam', 'mr', 'mrs', 'ms', 'dr', 'manager', 'hiring', 'recruiter', 'committee', 'customer',
+  'support', 'again', 'morning', 'afternoon', 'evening',
+  'claude', 'chatgpt', 'gpt', 'gemini', 'copilot', 'bard', 'assistant', 'bot', 'ai'
+]);
+
+function isLikelyName(value: string): boolean {
+  return !value.split(/\s+/).some(word => NOT_NAMES.has(word.toLowerCase()));
+}
+
+export interface RedactionOptions {
+  customTerms?: string[];  // Extra names or words to always redact (e.g. the learner's name)
+}
+
+export function createRedactionMap(): RedactionMap {
+  return { placeholders: {}, counters: {} };
+}
+
+/**
+ * Copy a map so React state can be updated immutably
+ */
+export function cloneRedactionMap(map: RedactionMap): RedactionMap {
+  return { placeholders: { ...map.placeholders }, counters: { ...map.counters } };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Placeholder for an original value - the same value always gets the same placeholder
+ */
+function getPlaceholder(map: RedactionMap, kind: RedactionKind, original: string): string {
+  const existing = Object.keys(map.placeholders).find(
+    placeholder => map.placeholders[placeholder] === original && placeholder.startsWith(`[${kind.toUpperCase()}_`)
+  );
+  if (existing) return existing;
+
+  const next = (map.counters[kind] || 0) + 1;
+  map.counters[kind] = next;
+  const placeholder = `[${kind.toUpperCase()}_${next}]`;
+  map.placeholders[placeholder] = original;
+  return placeholder;
+}
+
+/**
+ * Parse a comma- or newline-separated list of extra terms to redact
+ */
+export function parseRedactionTerms(input: string): string[] {
+  return input.split(/[,\n]/).map(term => term.trim()).filter(term => term.length > 0);
+}
+
+/**
+ * Redact one piece of text, adding any new originals to the map
+ * Detected names are replaced only where they were found - replacing them everywhere
+ * would also hit ordinary words in the learner's prose. Custom terms are replaced everywhere.
+ */
+export function redactText(
+  text: string,
+  map: RedactionMap,
+  options: RedactionOptions = {}
+): { text: string; count: number } {
+  let result = text;
+  let count = 0;
+
+  DETECTORS.forEach(({ kind, pattern, group }) => {
+    result = result.replace(pattern, (match, ...groups) => {
+      const value = group ? groups[group - 1] : match;
+      if (!value || IS_PLACEHOLDER.test(value) || (kind === 'name' && !isLikelyName(value))) {
+        return match;
+      }
+      count++;
+      return match.replace(value, getPlaceholder(map, kind, value));
+    });
+  });
+
+  // Custom terms, on word boundaries in any case
+  const terms = (options.customTerms || [])
+    .map(term => term.trim())
+    .filter(term => term.length > 1);
+
+  Array.from(new Set(terms)).forEach(term => {
+    const pattern = new RegExp(`(?<![\\w])${escapeRegExp(term)}(?![\\w])`, 'gi');
+    result = result.replace(pattern, () => {
+      count++;
+      return getPlaceholder(map, 'name', term);
+    });
+  });
+
+  return { text: result, count };
+}
+
+/**
+ * Redact parsed messages in place (text and revision history)
+ * Returns how many values were replaced in total
+ */
+export function redactMessages(
+  messages: ParsedMessage[],
+  map: RedactionMap,
+  options: RedactionOptions = {}
+): number {
+  let total = 0;
+
+  messages.forEach(msg => {
+    const { text, count } = redactText(msg.text, map, options);
+    msg.text = text;
+    msg.redactionCount = count;
+    total += count;
+
+    msg.revisionHistory?.forEach(revision => {
+      const redacted = redactText(revision.text, map, options);
+      revision.text = redacted.text;
+      total += redacted.count;
+    });
+  });
+
+  return total;
+}
+
+/**
+ * Put the originals back for display - placeholders not in the map are left as-is
+ */
+export function restoreText(text: string, map?: RedactionMap | null): string {
+  if (!map || !text) return text;
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => map.placeholders[placeholder] ?? placeholder);
+}
+
+/**
+ * Evaluation result with originals restored in its text, issues and annotations
+ * Annotation offsets are shifted by the length difference of everything restored before them
+ */
+export function restoreEvaluation(result: EvaluationResult, map?: RedactionMap | null): EvaluationResult {
+  if (!map) return result;
+  const restore = (text: string) => restoreText(text, map);
+  return {
+    ...result,
+    text: restore(result.text),
+    grammar_issues: result.grammar_issues.map(restore),
+    punctuation_issues: result.punctuation_issues.map(restore),
+    tone_issues: result.tone_issues.map(restore),
+    annotations: result.annotations?.map(annotation => {
+      const start = restore(result.text.slice(0, annotation.start)).length;
+      const quote = restore(annotation.quote);
+      return { ...annotation, quote, start, end: start + quote.length, suggestion: restore(annotation.suggestion) };
+    })
+  };
+}
+
+/**
+ * Split text into plain and placeholder parts, for highlighting in previews
+ */
+export function splitPlaceholders(text: string): { text: string; placeholder: boolean }[] {
+  const parts: { text: string; placeholder: boolean }[] = [];
+  let lastIndex = 0;
+  text.replace(PLACEHOLDER_PATTERN, (match, _kind, _n, offset: number) => {
+    if (offset > lastIndex) parts.push({ text: text.slice(lastIndex, offset), placeholder: false });
+    parts.push({ text: match, placeholder: true });
+    lastIndex = offset + match.length;
+    return match;
+  });
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex), placeholder: false });
+  return parts;
+}
@@ -0,0 +1,164 @@
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  buildCacheKey,
+  clearResponseCache,
+  DEFAULT_CACHE_SETTINGS,
+  lookupResponse,
+  parseCacheSettings,
+  pruneResponseCache,
+  storeResponse
+} from './responseCache';
+import { loadWorkspace, saveWorkspace } from './persistence';
+import { AnthropicAPI } from './anthropicApi';
+import { CachedResponse, LLMProvider, LLMRequest } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+const entry = (key: string, createdAt: number): CachedResponse => ({
+  key,
+  model: 'claude-sonnet-4-5',
+  max_tokens: 500,
+  stage: 'relevance',
+  text: `response for ${key}`,
+  usage: { input_tokens: 100, output_tokens: 20 },
+  created_at: createdAt
+});
+
+// Counts calls and answers every prompt with the same text
+function countingProvider(): LLMProvider & { calls: LLMRequest[] } {
+  const calls: LLMRequest[] = [];
+  return {
+    kind: 'openai-compatible',
+    label: 'Test',
+    model: 'test-model',
+    requestsPerMinute: null,
+    calls,
+    complete: async (request: LLMRequest) => {
+      calls.push(request);
+      return { text: 'fresh', usage: { input_tokens: 10, output_tokens: 5 } };
+    }
+  };
+}
+
+beforeEach(() => {
+  // A new, empty database for every test
+  (globalThis as any).indexedDB = new IDBFactory();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('buildCacheKey', () => {
+  test('keys on model, max tokens and a hash of the prompt', async () => {
+    const key = await buildCacheKey('model-a', 500, 'Classify these messages');
+    expect(key).toMatch(/^model-a\|500\|/);
+    expect(key).not.toContain('Classify');
+    expect(await buildCacheKey('model-a', 500, 'Classify these messages')).toBe(key);
+  });
+
+  test('changes with the model, the max tokens or the prompt', async () => {
+    const key = await buildCacheKey('model-a', 500, 'prompt');
+    expect(await buildCacheKey('model-b', 500, 'prompt')).not.toBe(key);
+    expect(await buildCacheKey('model-a', 501, 'prompt')).not.toBe(key);
+    expect(await buildCacheKey('model-a', 500, 'prompt ')).not.toBe(key);
+  });
+});
+
+describe('parseCacheSettings', () => {
+  test('keeps valid settings and defaults the rest', () => {
+    expect(parseCacheSettings({ bypass: true, ttlDays: 30 })).toEqual({ bypass: true, ttlDays: 30 });
+    expect(parseCacheSettings({ bypass: 'yes', ttlDays: -1 })).toEqual(DEFAULT_CACHE_SETTINGS);
+    expect(parseCacheSettings(undefined)).toEqual(DEFAULT_CACHE_SETTINGS);
+  });
+});
+
+describe('lookupResponse', () => {
+  test('returns stored responses and misses unknown keys', async () => {
+    await storeResponse(entry('a', NOW));
+    expect(await lookupResponse('a', 7, NOW)).toEqual(entry('a', NOW));
+    expect(await lookupResponse('b', 7, NOW)).toBeNull();
+  });
+
+  test('treats responses older than the TTL as misses and deletes them', async () => {
+    await storeResponse(entry('old', NOW - 2 * DAY_MS));
+    expect(await lookupResponse('old', 1, NOW)).toBeNull();
+    expect(await lookupResponse('old', 7, NOW)).toBeNull();
+  });
+
+  test('turns an unavailable cache into a miss', async () => {
+    delete (globalThis as any).indexedDB;
+    expect(await lookupResponse('a', 7, NOW)).toBeNull();
+    await expect(storeResponse(entry('a', NOW))).resolves.toBeUndefined();
+  });
+});
+
+describe('pruneResponseCache', () => {
+  test('evicts expired responses and counts the rest', async () => {
+    await storeResponse(entry('fresh', NOW - DAY_MS));
+    await storeResponse(entry('stale', NOW - 8 * DAY_MS));
+    await storeResponse(entry('ancient', NOW - 40 * DAY_MS));
+
+    expect(await pruneResponseCache(30, NOW)).toBe(2);
+    expect(await pruneResponseCache(7, NOW)).toBe(1);
+    expect(await lookupResponse('fresh', 7, NOW)).not.toBeNull();
+
+    await clearResponseCache();
+    expect(await pruneResponseCache(7, NOW)).toBe(0);
+  });
+});
+
+describe('AnthropicAPI response caching', () => {
+  const cacheAll = { cacheWhen: () => true };
+
+  test('answers a repeated call from the cache', async () => {
+    const provider = countingProvider();
+    const api = new AnthropicAPI(provider);
+
+    expect(await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll)).toBe('fresh');
+    expect(await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll)).toBe('fresh');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  test('misses when the model or max tokens change', async () => {
+    const provider = countingProvider();
+    const api = new AnthropicAPI(provider);
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+
+    api.setStageSettings({ relevance: { model: 'other-model' } });
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+    expect(provider.calls[1].model).toBe('other-model');
+
+    api.setStageSettings({ relevance: { maxTokens: 800 } });
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+    expect(provider.calls).toHaveLength(3);
+
+    // Back to the first settings - cached again
+    api.setStageSettings({});
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  test('skips the cache when bypassed or when the response is not accepted', async () => {
+    const provider = countingProvider();
+    const api = new AnthropicAPI(provider);
+
+    await api.callClaude('Classify these', 500, undefined, 'relevance', { cacheWhen: () => false });
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+    expect(provider.calls).toHaveLength(2);
+
+    api.setCacheSettings({ bypass: true, ttlDays: 7 });
+    await api.callClaude('Classify these', 500, undefined, 'relevance', cacheAll);
+    expect(provider.calls).toHaveLength(3);
+  });
+});
+
+describe('cache settings in the workspace', () => {
+  test('are restored when the workspace loads', async () => {
+    await saveWorkspace({ activeProfileId: 'p1', profiles: [], responseCache: { bypass: true, ttlDays: 30 } });
+    expect((await loadWorkspace())?.responseCache).toEqual({ bypass: true, ttlDays: 30 });
+  });
+});
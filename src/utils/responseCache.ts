@@ -0,0 +1,93 @@
+// Persistent cache of LLM responses
+// Keyed by model, max tokens and a SHA-256 of the prompt, so re-running the same
+// batches - overlapping re-evaluations, retries after a crash - costs nothing.
+// Cache failures never fail a request: a broken cache is just a miss.
+
+import { CachedResponse, ResponseCacheSettings } from '../types';
+import { hashText } from './hash';
+import {
+  getCachedResponse,
+  putCachedResponse,
+  deleteCachedResponse,
+  deleteCachedResponsesBefore,
+  countCachedResponses,
+  clearCachedResponses
+} from './persistence';
+
+export const DEFAULT_CACHE_TTL_DAYS = 7;
+export const CACHE_TTL_OPTIONS = [1, 7, 30];
+
+export const DEFAULT_CACHE_SETTINGS: ResponseCacheSettings = {
+  bypass: false,
+  ttlDays: DEFAULT_CACHE_TTL_DAYS
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Settings restored from storage - anything malformed falls back to the defaults
+ */
+export function parseCacheSettings(raw: any): ResponseCacheSettings {
+  if (!raw || typeof raw !== 'object') return DEFAULT_CACHE_SETTINGS;
+  return {
+    bypass: raw.bypass === true,
+    ttlDays: typeof raw.ttlDays === 'number' && raw.ttlDays > 0 ? raw.ttlDays : DEFAULT_CACHE_TTL_DAYS
+  };
+}
+
+/**
+ * Hex SHA-256 of the prompt
+ * Falls back to two seeded 53-bit hashes where Web Crypto is unavailable (pages not served over HTTPS or localhost)
+ */
+export async function hashPrompt(prompt: string): Promise<string> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+  return `${hashText(prompt)}${hashText(prompt, 1)}:${prompt.length}`;
+}
+
+export async function buildCacheKey(model: string, maxTokens: number, prompt: string): Promise<string> {
+  return `${model}|${maxTokens}|${await hashPrompt(prompt)}`;
+}
+
+/**
+ * The cached response for a key, or null when missing or older than the TTL
+ */
+export async function lookupResponse(key: string, ttlDays: number, now: number = Date.now()): Promise<CachedResponse | null> {
+  try {
+    const entry = await getCachedResponse(key);
+    if (!entry) return null;
+    if (now - entry.created_at > ttlDays * DAY_MS) {
+      await deleteCachedResponse(key);
+      return null;
+    }
+    return entry;
+  } catch (error) {
+    console.warn('⚠️ Response cache unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function storeResponse(entry: CachedResponse): Promise<void> {
+  try {
+    await putCachedResponse(entry);
+  } catch (error) {
+    console.warn('⚠️ Could not cache response:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Drop expired responses - returns how many are left
+ */
+export async function pruneResponseCache(ttlDays: number, now: number = Date.now()): Promise<number> {
+  await deleteCachedResponsesBefore(now - ttlDays * DAY_MS);
+  return countCachedResponses();
+}
+
+export async function clearResponseCache(): Promise<void> {
+  await clearCachedResponses();
+  console.log('🗑️ Response cache cleared');
+}
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+// jsdom's AbortController drops the abort reason that tells a pause from a cancel
+import { DEFAULT_RETRY_OPTIONS, getRetryDelay, isRetryableError, withRetry } from './retry';
+import { LLMRequestError, parseRetryAfter } from './providers/http';
+import { RunAbortedError, stopRun } from './runControl';
+
+// Deterministic stand-in for Math.random (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The parts of fetch's Headers the parsers read (jest's environment has no Headers)
+const headers = (values: { [name: string]: string } = {}) =>
+  ({ get: (name: string) => values[name] ?? null }) as unknown as Headers;
+
+const flushPromises = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+const options = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('isRetryableError', () => {
+  test.each([0, 408, 429, 500, 502, 503, 504, 529])('retries status %i', status => {
+    expect(isRetryableError(new LLMRequestError('failed', status))).toBe(true);
+  });
+
+  test.each([400, 401, 403, 404, 413, 422])('does not retry status %i', status => {
+    expect(isRetryableError(new LLMRequestError('failed', status))).toBe(false);
+  });
+
+  test('does not retry other errors', () => {
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+    expect(isRetryableError(new RunAbortedError('paused'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const error = new LLMRequestError('overloaded', 529);
+
+  test('waits a random fraction of a ceiling that doubles with each attempt', () => {
+    expect(getRetryDelay(1, error, options, () => 0.5)).toBe(500);
+    expect(getRetryDelay(2, error, options, () => 0.5)).toBe(1000);
+    expect(getRetryDelay(3, error, options, () => 0.5)).toBe(2000);
+    expect(getRetryDelay(1, error, options, () => 0)).toBe(0);
+  });
+
+  test('caps the ceiling at maxDelayMs', () => {
+    expect(getRetryDelay(10, error, options, () => 0.999)).toBe(4995);
+  });
+
+  test('spreads seeded delays over the whole range', () => {
+    const random = seededRandom(42);
+    const delays = Array.from({ length: 200 }, () => getRetryDelay(3, error, options, random));
+    expect(Math.min(...delays)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...delays)).toBeLessThanOrEqual(4000);
+    expect(Math.min(...delays)).toBeLessThan(400);
+    expect(Math.max(...delays)).toBeGreaterThan(3600);
+  });
+
+  test('honours retry-after with a little jitter, within maxDelayMs', () => {
+    const limited = new LLMRequestError('rate limited', 429, 3000);
+    expect(getRetryDelay(1, limited, options, () => 0)).toBe(3000);
+    expect(getRetryDelay(1, limited, options, () => 1)).toBe(3250);
+    expect(getRetryDelay(1, new LLMRequestError('rate limited', 429, 60000), options, () => 0)).toBe(5000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+
+  test('reads retry-after-ms first', () => {
+    expect(parseRetryAfter(headers({ 'retry-after-ms': '1500', 'retry-after': '9' }), now)).toBe(1500);
+  });
+
+  test('reads retry-after in seconds', () => {
+    expect(parseRetryAfter(headers({ 'retry-after': '20' }), now)).toBe(20000);
+    expect(parseRetryAfter(headers({ 'retry-after': '0.5' }), now)).toBe(500);
+  });
+
+  test('reads retry-after as an HTTP date', () => {
+    expect(parseRetryAfter(headers({ 'retry-after': 'Wed, 01 May 2024 12:00:30 GMT' }), now)).toBe(30000);
+    expect(parseRetryAfter(headers({ 'retry-after': 'Wed, 01 May 2024 11:59:00 GMT' }), now)).toBe(0);
+  });
+
+  test('returns null when missing or unreadable', () => {
+    expect(parseRetryAfter(headers(), now)).toBeNull();
+    expect(parseRetryAfter(headers({ 'retry-after': 'soon' }), now)).toBeNull();
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('retries transient failures after the backoff delay', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new LLMRequestError('overloaded', 529))
+      .mockRejectedValueOnce(new LLMRequestError('rate limited', 429, 2000))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    const result = withRetry(fn, options, onRetry, undefined, () => 0.5);
+    await flushPromises();
+    expect(onRetry).toHaveBeenLastCalledWith(1, 500, expect.any(LLMRequestError));
+
+    jest.advanceTimersByTime(499);
+    await flushPromises();
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(2, 2125, expect.any(LLMRequestError));
+
+    jest.advanceTimersByTime(2125);
+    await expect(result).resolves.toBe('ok');
+    expect(fn.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+  });
+
+  test('fails at once on errors that are not transient', async () => {
+    const fn = jest.fn().mockRejectedValue(new LLMRequestError('bad key', 401));
+    await expect(withRetry(fn, options)).rejects.toThrow('bad key');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('throws the last error once retries run out', async () => {
+    const fn = jest.fn((attempt: number) => Promise.reject(new LLMRequestError(`attempt ${attempt}`, 503)));
+    const result = withRetry(fn, options, undefined, undefined, seededRandom(7));
+    result.catch(() => {});
+
+    for (let i = 0; i < options.maxRetries; i++) {
+      await flushPromises();
+      jest.advanceTimersByTime(options.maxDelayMs);
+    }
+    await expect(result).rejects.toThrow('attempt 3');
+    expect(fn).toHaveBeenCalledTimes(options.maxRetries + 1);
+  });
+
+  test('stops waiting as soon as the run is paused', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new LLMRequestError('overloaded', 529));
+    const result = withRetry(fn, DEFAULT_RETRY_OPTIONS, undefined, controller.signal, () => 1);
+    result.catch(() => {});
+
+    await flushPromises();
+    stopRun(controller, 'paused');
+    await expect(result).rejects.toEqual(new RunAbortedError('paused'));
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
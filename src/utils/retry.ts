@@ -0,0 +1,72 @@
+// Retries for transient API failures
+// Rate limits (429), overload (529), server errors and dropped connections
+// usually clear up on their own, so they are retried with jittered
+// exponential backoff. Anything else (bad key, bad request) fails at once.
+
+import { LLMRequestError } from './providers/http';
+import { sleep } from './runControl';
+
+export interface RetryOptions {
+  maxRetries: number;   // Attempts after the first one
+  baseDelayMs: number;  // Backoff ceiling for the first retry, doubled on each one after
+  maxDelayMs: number;   // Longest single wait, including server-requested ones
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+// 0 = network error, 408 = request timeout, 529 = Anthropic "overloaded"
+const RETRYABLE_STATUSES = [0, 408, 429, 500, 502, 503, 504, 529];
+
+/**
+ * Whether an error is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof LLMRequestError && RETRYABLE_STATUSES.includes(error.status);
+}
+
+/**
+ * Wait before retry number `attempt` (1-based)
+ * Honors the server's retry-after when it sent one, otherwise "full jitter"
+ * backoff: a random wait up to baseDelayMs * 2^(attempt - 1)
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  random: () => number = Math.random
+): number {
+  if (error instanceof LLMRequestError && error.retryAfterMs !== null) {
+    // A little jitter so parallel requests don't all come back at the same instant
+    return Math.min(options.maxDelayMs, error.retryAfterMs + random() * 250);
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Run fn, retrying transient failures - the last error is thrown once retries run out
+ * Aborting the signal ends the wait between attempts at once
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void,
+  signal?: AbortSignal,
+  random: () => number = Math.random
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+
+      const delayMs = getRetryDelay(attempt + 1, error, options, random);
+      if (onRetry) onRetry(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
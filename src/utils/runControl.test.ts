@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+// jsdom's AbortController drops the abort reason that tells a pause from a cancel
+import { describeCheckpoint, getAbortError, RunAbortedError, sleep, stopRun, throwIfAborted } from './runControl';
+import { EvaluationResult, RunCheckpoint } from '../types';
+
+const checkpoint = (overrides: Partial<RunCheckpoint>): RunCheckpoint => ({
+  kind: 'baseline',
+  stage: 'relevance',
+  status: 'paused',
+  messages: [],
+  relevanceIds: ['a', 'b', 'c', 'd'],
+  verdicts: { a: 'relevant', b: 'not_relevant' },
+  evaluationIds: ['a', 'c', 'd'],
+  evaluations: [{ message_id: 'a' } as EvaluationResult],
+  estimated_cost_usd: 0,
+  selection: {} as RunCheckpoint['selection'],
+  conversationsEvaluated: 1,
+  conversationsRange: { start: 0, end: 1 },
+  heuristicStats: { rule_set: 'Default', total: 4, kept: 4, by_reason: {}, rule_hits: {} },
+  created_at: '2024-05-01T12:00:00Z',
+  updated_at: '2024-05-01T12:05:00Z',
+  ...overrides
+});
+
+describe('stopRun', () => {
+  test('aborts with the reason, and the first reason wins', () => {
+    const controller = new AbortController();
+    stopRun(controller, 'paused');
+    stopRun(controller, 'cancelled');
+    expect(getAbortError(controller.signal)).toEqual(new RunAbortedError('paused'));
+    expect(() => throwIfAborted(controller.signal)).toThrow('Run paused');
+  });
+
+  test('treats an abort without a reason as a cancel', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(getAbortError(controller.signal).reason).toBe('cancelled');
+  });
+
+  test('does nothing to a signal that was not aborted', () => {
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+  });
+});
+
+describe('sleep', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('resolves after the delay', async () => {
+    const done = jest.fn();
+    sleep(1000).then(done);
+    jest.advanceTimersByTime(999);
+    await Promise.resolve();
+    expect(done).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    await Promise.resolve();
+    expect(done).toHaveBeenCalled();
+  });
+
+  test('rejects as soon as the run stops and clears its timer', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60000, controller.signal);
+    stopRun(controller, 'cancelled');
+    await expect(waiting).rejects.toEqual(new RunAbortedError('cancelled'));
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('rejects at once when the run already stopped', async () => {
+    const controller = new AbortController();
+    stopRun(controller, 'paused');
+    await expect(sleep(10, controller.signal)).rejects.toEqual(new RunAbortedError('paused'));
+  });
+});
+
+describe('describeCheckpoint', () => {
+  test('counts progress in the stage the run stopped in', () => {
+    expect(describeCheckpoint(checkpoint({}))).toBe('Baseline evaluation paused during relevance checks (2/4 messages checked)');
+    expect(describeCheckpoint(checkpoint({ kind: 'reevaluation', stage: 'evaluation', status: 'running' })))
+      .toBe('Re-evaluation interrupted during evaluation (1/3 messages evaluated)');
+    expect(describeCheckpoint(checkpoint({ stage: 'review' }))).toBe('Baseline evaluation is waiting for you to review the filter decisions');
+  });
+});
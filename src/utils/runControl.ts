@@ -0,0 +1,80 @@
+// Pausing and cancelling runs
+// A run is driven by an AbortController whose signal is passed down to every
+// request. Pausing and cancelling both abort at once (the request in flight is
+// dropped), but a paused run keeps its checkpoint so it can resume from the
+// last finished batch.
+
+import { RunCheckpoint } from '../types';
+
+export type RunStopReason = 'paused' | 'cancelled';
+
+export class RunAbortedError extends Error {
+  readonly reason: RunStopReason;
+
+  constructor(reason: RunStopReason) {
+    super(reason === 'paused' ? 'Run paused' : 'Run cancelled');
+    this.name = 'RunAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Abort a run, recording why
+ */
+export function stopRun(controller: AbortController, reason: RunStopReason): void {
+  if (!controller.signal.aborted) {
+    controller.abort(new RunAbortedError(reason));
+  }
+}
+
+/**
+ * The error an aborted signal should surface as
+ */
+export function getAbortError(signal: AbortSignal): RunAbortedError {
+  return signal.reason instanceof RunAbortedError ? signal.reason : new RunAbortedError('cancelled');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Wait ms milliseconds - rejects as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One-line summary of an unfinished run for the resume banner
+ */
+export function describeCheckpoint(checkpoint: RunCheckpoint): string {
+  const run = checkpoint.kind === 'baseline' ? 'Baseline evaluation' : 'Re-evaluation';
+  const state = checkpoint.status === 'paused' ? 'paused' : 'interrupted';
+  const confirmed = Object.keys(checkpoint.verdicts).length;
+
+  switch (checkpoint.stage) {
+    case 'relevance':
+      return `${run} ${state} during relevance checks (${confirmed}/${checkpoint.relevanceIds.length} messages checked)`;
+    case 'review':
+      return `${run} is waiting for you to review the filter decisions`;
+    case 'evaluation':
+      return `${run} ${state} during evaluation (${checkpoint.evaluations.length}/${checkpoint.evaluationIds.length} messages evaluated)`;
+  }
+}
@@ -0,0 +1,67 @@
+import { getAuthoredText, hashParagraphs, segmentMessage } from './segmentation';
+
+const pasted = (text: string) => segmentMessage(text).filter(s => s.kind === 'pasted');
+
+describe('segmentMessage', () => {
+  test.each([
+    'Here is my draft:\n\nDear Ms. Lee, I am writing to apply for the marketing role at your company.',
+    'Here are my thoughts:\n\nI think the city should invest in bike lanes before building more parking.',
+    'The problem is this:\nnobody on the team reads the weekly report.',
+    'Can you proofread my essay:\n\nThe industrial revolution changed how people worked and lived.',
+    'Please check what I wrote: the meeting moved to Thursday because of the holiday.',
+    'Fix this:\n\nMe and him goes to the store every weekend.'
+  ])('keeps the learner\'s own writing in %j', text => {
+    expect(pasted(text)).toEqual([]);
+    expect(getAuthoredText(segmentMessage(text))).toBe(text);
+  });
+
+  test('strips a quoted payload after the instruction on the same line', () => {
+    const segments = segmentMessage('Fix this: "Me and him goes to the store."\nIs the verb wrong too?');
+    expect(segments).toEqual([
+      { kind: 'authored', text: 'Fix this:' },
+      { kind: 'pasted', text: '"Me and him goes to the store."', reason: 'instruction_payload' },
+      { kind: 'authored', text: 'Is the verb wrong too?' }
+    ]);
+  });
+
+  test('strips a quoted payload in the next paragraph and keeps later paragraphs', () => {
+    const text = 'Can you proofread the following:\n\n“Their going to announce the results tomorow.”\n\nI want to send it to my class tonight.';
+    const segments = segmentMessage(text);
+    expect(segments.map(s => [s.kind, s.reason])).toEqual([
+      ['authored', undefined],
+      ['pasted', 'instruction_payload'],
+      ['authored', undefined]
+    ]);
+    expect(getAuthoredText(segments)).toBe('Can you proofread the following:\n\nI want to send it to my class tonight.');
+  });
+
+  test('strips fenced code and quoted lines', () => {
+    const segments = segmentMessage('Why does this fail?\n```\nconst x = ;\n```\n> quoted reply\nThanks!');
+    expect(segments.map(s => [s.kind, s.reason])).toEqual([
+      ['authored', undefined],
+      ['pasted', 'code_block'],
+      ['pasted', 'quoted_block'],
+      ['authored', undefined]
+    ]);
+  });
+
+  test('treats everything after a forwarded header as quoted', () => {
+    const segments = segmentMessage('Please help me reply.\n\n---------- Forwarded message ---------\nFrom: Sam\n\nCan we meet on Friday?');
+    expect(getAuthoredText(segments)).toBe('Please help me reply.');
+  });
+
+  test('strips a single very long paragraph', () => {
+    const article = Array(220).fill('word').join(' ');
+    expect(segmentMessage(`Summarize the main point.\n\n${article}`).map(s => s.reason)).toEqual([undefined, 'long_passage']);
+  });
+
+  test('strips paragraphs the assistant wrote earlier', () => {
+    const assistantText = 'Here is a revised version of your opening paragraph with clearer transitions.\n\nThanks!';
+    const hashes = new Set(hashParagraphs(assistantText));
+    const segments = segmentMessage('I like this:\n\nHere is a revised version of your opening paragraph with clearer transitions.', hashes);
+    expect(segments.map(s => [s.text, s.reason])).toEqual([
+      ['I like this:', undefined],
+      ['Here is a revised version of your opening paragraph with clearer transitions.', 'assistant_output']
+    ]);
+  });
+});
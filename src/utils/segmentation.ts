@@ -0,0 +1,205 @@
+// Segmentation of user messages into authored vs pasted content
+// Pasted articles, code, quoted emails and assistant output aren't the user's
+// writing, so only authored segments should be evaluated
+
+import { MessageSegment, PastedReason } from '../types';
+import { hashText } from './hash';
+
+// A single paragraph this long is almost always pasted (articles, essays, docs)
+const LONG_PASSAGE_WORDS = 200;
+// Shorter paragraphs are too generic to match reliably against assistant output
+const MIN_ASSISTANT_MATCH_WORDS = 8;
+
+// "fix this: …", "please proofread the following: …" - a request to edit some text
+const INSTRUCTION_PATTERN = /^\s*(?:can you |could you |please |pls )*(?:fix|proofread|edit|check|correct|improve|rewrite|revise|rephrase|polish|review|translate|summari[sz]e|paraphrase|shorten|expand|grade|critique)\b[^:\n]{0,80}:[ \t]*/i;
+// "proofread my essay:", "fix what I wrote:" - the text is the user's own
+const FIRST_PERSON_PATTERN = /\b(?:i|i'm|i've|me|my|mine|we|we've|our|ours)\b/i;
+// The payload has to be set off in quotation marks; unquoted text stays authored
+const QUOTED_PATTERN = /^\s*["“«„'‘][\s\S]+["”»“'’][.!?]?\s*$/;
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const QUOTE_LINE_PATTERN = /^\s*>/;
+const REPLY_HEADER_PATTERN = /^\s*(?:On .+wrote:|-{2,}\s*(?:Original Message|Forwarded message)\s*-*)\s*$/i;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Hashes of the paragraphs in a piece of text, used to recognise assistant
+ * output the user pasted back into a later turn
+ */
+export function hashParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(normalizeForMatch)
+    .filter(p => countWords(p) >= MIN_ASSISTANT_MATCH_WORDS)
+    .map(p => hashText(p));
+}
+
+interface RawBlock {
+  text: string;
+  type: 'prose' | 'code' | 'quote';
+}
+
+interface InstructionSplit {
+  instruction: string;     // Everything up to and including the instruction line
+  payload: string;
+  rest: string;            // Lines after an inline payload
+  usesNextBlock: boolean;  // The payload is the following paragraph
+}
+
+/**
+ * First pass: split into fenced code, quoted blocks and prose paragraphs
+ */
+function splitBlocks(text: string): RawBlock[] {
+  const blocks: RawBlock[] = [];
+  let current: RawBlock | null = null;
+  let inFence = false;
+  let inForwardedTail = false;  // Everything after a reply/forward header is quoted
+
+  const push = (line: string, type: RawBlock['type']) => {
+    if (current && current.type === type) {
+      current.text += `\n${line}`;
+    } else {
+      current = { text: line, type };
+      blocks.push(current);
+    }
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (FENCE_PATTERN.test(line)) {
+      push(line, 'code');
+      inFence = !inFence;
+      if (!inFence) current = null;  // Adjacent fences are separate code blocks
+      return;
+    }
+    if (inFence) {
+      push(line, 'code');
+      return;
+    }
+    if (inForwardedTail || REPLY_HEADER_PATTERN.test(line)) {
+      inForwardedTail = inForwardedTail || !/wrote:\s*$/.test(line);
+      push(line, 'quote');
+      return;
+    }
+    if (QUOTE_LINE_PATTERN.test(line)) {
+      push(line, 'quote');
+      return;
+    }
+    if (line.trim() === '') {
+      current = null;  // Blank line ends a paragraph
+      return;
+    }
+    push(line, 'prose');
+  });
+
+  return blocks;
+}
+
+/**
+ * Find a request to edit someone else's text and the quoted text it's about
+ * The quote can follow the colon, take up the next lines or be the next paragraph;
+ * fenced and `>` quoted pastes are already split off as blocks of their own
+ */
+function splitInstruction(block: RawBlock, next: RawBlock | undefined): InstructionSplit | null {
+  const lines = block.text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(INSTRUCTION_PATTERN);
+    if (!match || FIRST_PERSON_PATTERN.test(match[0])) continue;
+
+    const instruction = [...lines.slice(0, i), match[0]].join('\n');
+    const inline = lines[i].slice(match[0].length);
+    const following = lines.slice(i + 1).join('\n');
+    if (inline.trim()) {
+      if (QUOTED_PATTERN.test(inline)) {
+        return { instruction, payload: inline, rest: following, usesNextBlock: false };
+      }
+    } else if (following.trim()) {
+      if (QUOTED_PATTERN.test(following)) {
+        return { instruction, payload: following, rest: '', usesNextBlock: false };
+      }
+    } else if (next && next.type === 'prose' && QUOTED_PATTERN.test(next.text)) {
+      return { instruction, payload: next.text, rest: '', usesNextBlock: true };
+    }
+  }
+  return null;
+}
+
+/**
+ * Split a user message into authored and pasted segments
+ * An instruction payload ("fix this: \"…\"") covers only the quoted text; later
+ * paragraphs are judged on their own
+ */
+export function segmentMessage(text: string, assistantParagraphHashes?: Set<string>): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let skipIdx = -1;  // A following paragraph already taken as a payload
+
+  const add = (segmentText: string, reason?: PastedReason) => {
+    const trimmed = segmentText.trim();
+    if (!trimmed) return;
+
+    const kind = reason ? 'pasted' : 'authored';
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind && last.reason === reason) {
+      last.text += `\n\n${trimmed}`;
+    } else {
+      segments.push(reason ? { kind, text: trimmed, reason } : { kind, text: trimmed });
+    }
+  };
+
+  const blocks = splitBlocks(text);
+
+  blocks.forEach((block, idx) => {
+    if (idx === skipIdx) return;
+    if (block.type === 'code') {
+      add(block.text, 'code_block');
+      return;
+    }
+    if (block.type === 'quote') {
+      add(block.text, 'quoted_block');
+      return;
+    }
+    // "fix this: \"<payload>\"" - the instruction is authored, the payload isn't
+    const split = splitInstruction(block, blocks[idx + 1]);
+    if (split) {
+      add(split.instruction);
+      add(split.payload, 'instruction_payload');
+      add(split.rest);
+      if (split.usesNextBlock) skipIdx = idx + 1;
+      return;
+    }
+
+    if (assistantParagraphHashes && assistantParagraphHashes.size > 0) {
+      const normalized = normalizeForMatch(block.text);
+      if (countWords(normalized) >= MIN_ASSISTANT_MATCH_WORDS && assistantParagraphHashes.has(hashText(normalized))) {
+        add(block.text, 'assistant_output');
+        return;
+      }
+    }
+
+    if (countWords(block.text) >= LONG_PASSAGE_WORDS) {
+      add(block.text, 'long_passage');
+      return;
+    }
+
+    add(block.text);
+  });
+
+  return segments;
+}
+
+/**
+ * The text the user actually wrote, with pasted segments removed
+ */
+export function getAuthoredText(segments: MessageSegment[]): string {
+  return segments
+    .filter(s => s.kind === 'authored')
+    .map(s => s.text)
+    .join('\n\n')
+    .trim();
+}
@@ -0,0 +1,103 @@
+import { MAX_TELEMETRY_EVENTS, TelemetryLog, summarizeTelemetry, toNDJSON } from './telemetry';
+import { LLMCallEvent } from '../types';
+
+const event = (id: string, overrides: Partial<LLMCallEvent> = {}): LLMCallEvent => ({
+  id,
+  started_at: 0,
+  stage: 'evaluation',
+  provider: 'Test',
+  model: 'claude-sonnet-4-5',
+  max_tokens: 500,
+  prompt_chars: 400,
+  prompt_tokens_estimate: 100,
+  status: 'ok',
+  retries: 0,
+  latency_ms: 1000,
+  duration_ms: 1000,
+  parse: 'not_checked',
+  reprompt: false,
+  ...overrides
+});
+
+describe('TelemetryLog', () => {
+  test('notifies subscribers after every recorded event', () => {
+    const log = new TelemetryLog();
+    const seen: string[][] = [];
+    log.subscribe(events => seen.push(events.map(e => e.id)));
+
+    log.record(event('a'));
+    log.record(event('b'));
+    expect(seen).toEqual([['a'], ['a', 'b']]);
+  });
+
+  test('keeps one log that grows in place', () => {
+    const log = new TelemetryLog();
+    const events = log.getEvents();
+    log.record(event('a'));
+    log.update('a', { parse: 'valid' });
+    log.clear();
+    log.record(event('b'));
+    expect(log.getEvents()).toBe(events);
+    expect(events.map(e => e.id)).toEqual(['b']);
+  });
+
+  test('drops the oldest events past the cap', () => {
+    const log = new TelemetryLog();
+    for (let i = 0; i < MAX_TELEMETRY_EVENTS + 3; i++) {
+      log.record(event(`e${i}`));
+    }
+    const events = log.getEvents();
+    expect(events).toHaveLength(MAX_TELEMETRY_EVENTS);
+    expect(events[0].id).toBe('e3');
+    expect(events[events.length - 1].id).toBe(`e${MAX_TELEMETRY_EVENTS + 2}`);
+  });
+
+  test('amends a recorded event and ignores unknown ids', () => {
+    const log = new TelemetryLog();
+    const listener = jest.fn();
+    log.record(event('a'));
+    log.record(event('b'));
+    log.subscribe(listener);
+
+    log.update('a', { parse: 'invalid', parse_error: 'grades[0].score: expected a number' });
+    expect(log.getEvents()[0]).toMatchObject({ id: 'a', parse: 'invalid' });
+    expect(log.getEvents()[1].parse).toBe('not_checked');
+
+    log.update('missing', { parse: 'valid' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops notifying after unsubscribing', () => {
+    const log = new TelemetryLog();
+    const listener = jest.fn();
+    log.subscribe(listener)();
+    log.record(event('a'));
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeTelemetry', () => {
+  test('counts statuses, retries and invalid responses, and averages latency over sent calls', () => {
+    expect(summarizeTelemetry([
+      event('a', { retries: 2, latency_ms: 2000 }),
+      event('b', { status: 'cached', latency_ms: 0 }),
+      event('c', { status: 'error', http_status: 500, parse: 'invalid' })
+    ])).toEqual({
+      calls: 3,
+      byStatus: { ok: 1, cached: 1, error: 1 },
+      retries: 2,
+      invalidResponses: 1,
+      avgLatencyMs: 1500
+    });
+  });
+});
+
+describe('toNDJSON', () => {
+  test('writes one event per line', () => {
+    const lines = toNDJSON([event('a'), event('b')]).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[1]).id).toBe('b');
+    expect(lines[2]).toBe('');
+    expect(toNDJSON([])).toBe('');
+  });
+});
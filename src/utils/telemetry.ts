@@ -0,0 +1,118 @@
+// Structured log of LLM calls
+// AnthropicAPI records one event per callClaude call - stage, batch, prompt size,
+// latency, status, tokens, retries and whether the response parsed - so a bad
+// batch can be traced after the run instead of in DevTools. Kept in memory for
+// the current run and exported as NDJSON (one JSON object per line).
+
+import { LLMCallEvent, LLMCallStatus, PipelineStage } from '../types';
+
+// Oldest events are dropped past this, so a huge run can't exhaust memory
+export const MAX_TELEMETRY_EVENTS = 5000;
+
+export interface TelemetrySummary {
+  calls: number;
+  byStatus: { [status in LLMCallStatus]?: number };
+  retries: number;
+  invalidResponses: number;
+  avgLatencyMs: number | null;  // Over calls that reached the provider
+}
+
+let eventCounter = 0;
+
+export function createEventId(now: number = Date.now()): string {
+  eventCounter += 1;
+  return `call_${now.toString(36)}_${eventCounter}`;
+}
+
+export class TelemetryLog {
+  private readonly events: LLMCallEvent[] = [];
+  private listeners: ((events: LLMCallEvent[]) => void)[] = [];
+
+  /**
+   * Append an event - the log is updated in place, so recording stays cheap on long runs
+   */
+  record(event: LLMCallEvent): void {
+    this.events.push(event);
+    if (this.events.length > MAX_TELEMETRY_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_TELEMETRY_EVENTS);
+    }
+    this.notify();
+  }
+
+  /**
+   * Amend a recorded event, e.g. with the parse outcome once the caller has validated the response
+   */
+  update(id: string, changes: Partial<LLMCallEvent>): void {
+    // Searched from the end - the event being amended is almost always a recent one
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      if (this.events[i].id === id) {
+        this.events[i] = { ...this.events[i], ...changes };
+        this.notify();
+        return;
+      }
+    }
+  }
+
+  clear(): void {
+    this.events.length = 0;
+    this.notify();
+  }
+
+  /**
+   * The live log, oldest first - read it, don't modify it
+   */
+  getEvents(): LLMCallEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Follow new and amended events - returns a function that stops listening
+   * Listeners get the live log, which keeps its identity as it changes
+   */
+  subscribe(listener: (events: LLMCallEvent[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.events));
+  }
+}
+
+/**
+ * Events as NDJSON, oldest first
+ */
+export function toNDJSON(events: LLMCallEvent[]): string {
+  return events.map(event => JSON.stringify(event)).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+export function summarizeTelemetry(events: LLMCallEvent[]): TelemetrySummary {
+  const byStatus: TelemetrySummary['byStatus'] = {};
+  events.forEach(event => {
+    byStatus[event.status] = (byStatus[event.status] || 0) + 1;
+  });
+  const sent = events.filter(event => event.status !== 'cached' && event.status !== 'budget_exceeded');
+  return {
+    calls: events.length,
+    byStatus,
+    retries: events.reduce((sum, event) => sum + event.retries, 0),
+    invalidResponses: events.filter(event => event.parse === 'invalid').length,
+    avgLatencyMs: sent.length > 0
+      ? Math.round(sent.reduce((sum, event) => sum + event.latency_ms, 0) / sent.length)
+      : null
+  };
+}
+
+/**
+ * Events of one stage and/or status - unset filters match everything
+ */
+export function filterEvents(
+  events: LLMCallEvent[],
+  { stage, status }: { stage?: PipelineStage; status?: LLMCallStatus }
+): LLMCallEvent[] {
+  return events.filter(event =>
+    (!stage || event.stage === stage) && (!status || event.status === status)
+  );
+}
@@ -0,0 +1,97 @@
+import { extractJSON, parseStructured, validateSchema, ValidationError } from './validation';
+import { evaluationOutput, gradingOutput, relevanceOutput } from './outputSchemas';
+
+const evaluation = (messageNumber: number) => ({
+  message_number: messageNumber,
+  grammar_score: 4,
+  punctuation_score: 3,
+  tone_score: 5,
+  grammar_issues: [],
+  punctuation_issues: ['missing comma'],
+  tone_issues: [],
+  annotations: []
+});
+
+const grade = (questionNumber: number, isCorrect: boolean) => ({
+  question_number: questionNumber,
+  is_correct: isCorrect,
+  feedback: isCorrect ? 'Correct!' : 'Not quite'
+});
+
+describe('extractJSON', () => {
+  test('leaves plain JSON alone', () => {
+    expect(extractJSON('{"relevant": [true]}')).toBe('{"relevant": [true]}');
+  });
+
+  test('takes the body of a code fence', () => {
+    expect(extractJSON('```json\n{"relevant": [true]}\n```')).toBe('{"relevant": [true]}');
+    expect(extractJSON('```\n[1, 2]\n```')).toBe('[1, 2]');
+  });
+
+  test('drops prose around the outermost object', () => {
+    expect(extractJSON('Here are the results:\n{"a": {"b": 1}}\nLet me know if you need more.')).toBe('{"a": {"b": 1}}');
+  });
+});
+
+describe('parseStructured', () => {
+  test('parses fenced responses from text-mode providers', () => {
+    const text = 'Sure!\n```json\n{"relevant": [true, false]}\n```';
+    expect(parseStructured(text, relevanceOutput(2))).toEqual({ relevant: [true, false] });
+  });
+
+  test('reports invalid JSON at the root', () => {
+    expect(() => parseStructured('not json at all', relevanceOutput(1))).toThrow(ValidationError);
+    try {
+      parseStructured('not json at all', relevanceOutput(1));
+    } catch (error) {
+      expect((error as ValidationError).path).toBe('$');
+    }
+  });
+
+  test('names the path of a field with the wrong type', () => {
+    const text = JSON.stringify({ evaluations: [evaluation(1), { ...evaluation(2), tone_score: 7 }] });
+    expect(() => parseStructured(text, evaluationOutput(2))).toThrow('$.evaluations[1].tone_score: expected an integer from 1 to 5, got 7');
+  });
+});
+
+describe('validateSchema', () => {
+  test('reports a missing required field', () => {
+    expect(() => validateSchema({}, relevanceOutput(1).schema)).toThrow('$.relevant: required field is missing');
+  });
+
+  test('enforces item counts', () => {
+    expect(() => relevanceOutput(3).validate({ relevant: [true] })).toThrow('expected at least 3 items, got 1');
+  });
+});
+
+describe('evaluationOutput', () => {
+  test('sorts evaluations by message number', () => {
+    const { evaluations } = evaluationOutput(2).validate({ evaluations: [evaluation(2), evaluation(1)] });
+    expect(evaluations.map(e => e.message_number)).toEqual([1, 2]);
+  });
+
+  test('rejects a message evaluated twice', () => {
+    expect(() => evaluationOutput(2).validate({ evaluations: [evaluation(1), evaluation(1)] })).toThrow('message 1 is evaluated twice');
+  });
+
+  test('rejects empty annotation quotes', () => {
+    const annotated = { ...evaluation(1), annotations: [{ category: 'grammar', issue: 'x', quote: ' ', suggestion: 'y' }] };
+    expect(() => evaluationOutput(1).validate({ evaluations: [annotated] })).toThrow('$.evaluations[0].annotations[0].quote: quote is empty');
+  });
+});
+
+describe('gradingOutput', () => {
+  test('sorts grades returned out of order', () => {
+    const { grades } = gradingOutput(3).validate({ grades: [grade(3, false), grade(1, true), grade(2, false)] });
+    expect(grades.map(g => g.question_number)).toEqual([1, 2, 3]);
+    expect(grades[0].is_correct).toBe(true);
+  });
+
+  test('rejects a question graded twice', () => {
+    expect(() => gradingOutput(2).validate({ grades: [grade(1, true), grade(1, false)] })).toThrow('question 1 is graded twice');
+  });
+
+  test('rejects question numbers outside the prompt', () => {
+    expect(() => gradingOutput(2).validate({ grades: [grade(1, true), grade(5, false)] })).toThrow('$.grades[1].question_number');
+  });
+});
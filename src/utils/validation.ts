@@ -0,0 +1,132 @@
+// Runtime validation of structured LLM output
+// Each structured stage has one JSON Schema (see outputSchemas.ts), used both to
+// ask the provider for that shape and to check what actually came back.
+// Only the parts of JSON Schema the stage schemas use are supported.
+
+import { JSONSchema, StructuredOutput } from '../types';
+
+/**
+ * A response that doesn't match its schema - path points at the offending field, e.g. $.evaluations[2].tone_score
+ */
+export class ValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, problem: string) {
+    super(`${path}: ${problem}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return value.length > 40 ? `"${value.slice(0, 40)}..."` : `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function describeType(schema: JSONSchema): string {
+  const range = schema.minimum !== undefined && schema.maximum !== undefined
+    ? ` from ${schema.minimum} to ${schema.maximum}`
+    : '';
+  switch (schema.type) {
+    case 'integer':
+      return `an integer${range}`;
+    case 'number':
+      return `a number${range}`;
+    case 'array':
+    case 'object':
+      return `an ${schema.type}`;
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+/**
+ * Check value against schema, throwing a ValidationError for the first problem found
+ * Properties not in the schema are allowed and left untouched
+ */
+export function validateSchema<T>(value: unknown, schema: JSONSchema, path: string = '$'): T {
+  const fail = (): never => {
+    throw new ValidationError(path, `expected ${describeType(schema)}, got ${describeValue(value)}`);
+  };
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') fail();
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail();
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !isFinite(value)) fail();
+      if (schema.type === 'integer' && !Number.isInteger(value)) fail();
+      if (schema.minimum !== undefined && (value as number) < schema.minimum) fail();
+      if (schema.maximum !== undefined && (value as number) > schema.maximum) fail();
+      break;
+    case 'array': {
+      if (!Array.isArray(value)) fail();
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        throw new ValidationError(path, `expected at least ${schema.minItems} items, got ${items.length}`);
+      }
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+        throw new ValidationError(path, `expected at most ${schema.maxItems} items, got ${items.length}`);
+      }
+      if (schema.items) {
+        items.forEach((item, idx) => validateSchema(item, schema.items!, `${path}[${idx}]`));
+      }
+      break;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail();
+      const record = value as { [key: string]: unknown };
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined) {
+          throw new ValidationError(`${path}.${key}`, 'required field is missing');
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined) {
+          validateSchema(record[key], propertySchema, `${path}.${key}`);
+        }
+      });
+      break;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    throw new ValidationError(path, `expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${describeValue(value)}`);
+  }
+
+  return value as T;
+}
+
+/**
+ * The JSON inside a text-mode response
+ * Local servers often wrap it in ``` fences or add a line of prose around it,
+ * so this takes the fenced block, then the outermost object or array in it
+ */
+export function extractJSON(text: string): string {
+  const fenced = text.match(/```(?:json)?[^\S\n]*\n?([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.search(/[[{]/);
+  if (start === -1) return body;
+  const end = body.lastIndexOf(body[start] === '{' ? '}' : ']');
+  return end > start ? body.slice(start, end + 1) : body;
+}
+
+/**
+ * Parse a structured response and run the output's validator
+ */
+export function parseStructured<T>(text: string, output: StructuredOutput<T>): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJSON(text));
+  } catch (error) {
+    throw new ValidationError('$', `response is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  return output.validate(value);
+}
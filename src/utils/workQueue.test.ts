@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+// jsdom's AbortController drops the abort reason that tells a pause from a cancel
+import { chunk, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, parseConcurrency, runWorkQueue } from './workQueue';
+import { RunAbortedError, stopRun, throwIfAborted } from './runControl';
+import { BatchState } from '../types';
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+// A promise the test settles by hand
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+// Worker whose tasks finish only when the test says so, counting how many run at once
+function controlledWorker() {
+  const pending: { [index: number]: ReturnType<typeof deferred<string>> } = {};
+  let running = 0;
+  let maxRunning = 0;
+  const started: number[] = [];
+  const worker = async (task: string, index: number) => {
+    started.push(index);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    pending[index] = deferred<string>();
+    try {
+      return await pending[index].promise;
+    } finally {
+      running--;
+    }
+  };
+  return {
+    worker,
+    started,
+    finish: (index: number, value = `result ${index}`) => pending[index].resolve(value),
+    fail: (index: number, error: unknown) => pending[index].reject(error),
+    maxRunning: () => maxRunning
+  };
+}
+
+describe('chunk', () => {
+  test('splits items into batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
+
+describe('parseConcurrency', () => {
+  test.each([[4, 4], ['2', 2], [20, MAX_BATCH_CONCURRENCY], [0, DEFAULT_BATCH_CONCURRENCY], [1.5, DEFAULT_BATCH_CONCURRENCY], ['x', DEFAULT_BATCH_CONCURRENCY], [undefined, DEFAULT_BATCH_CONCURRENCY]])(
+    'reads %p as %p', (value, expected) => {
+      expect(parseConcurrency(value)).toBe(expected);
+    }
+  );
+});
+
+describe('runWorkQueue', () => {
+  test('never runs more tasks at once than the concurrency', async () => {
+    const control = controlledWorker();
+    const tasks = Array.from({ length: 7 }, (_, i) => `task ${i}`);
+    const result = runWorkQueue(tasks, control.worker, { concurrency: 3 });
+
+    await flushPromises();
+    expect(control.started).toEqual([0, 1, 2]);
+
+    // Finishing out of order starts the next task in the freed slot
+    control.finish(2);
+    await flushPromises();
+    expect(control.started).toEqual([0, 1, 2, 3]);
+
+    for (const index of [0, 1, 3, 4, 5, 6]) {
+      await flushPromises();
+      control.finish(index);
+    }
+    const results = await result;
+    expect(control.maxRunning()).toBe(3);
+    expect(results).toEqual(tasks.map((_, i) => `result ${i}`));
+  });
+
+  test('reports batch states and marks unusable results as failed', async () => {
+    const updates: BatchState[][] = [];
+    await runWorkQueue(['a', 'b'], async task => task, {
+      concurrency: 2,
+      isFailure: result => result === 'b',
+      onStatusChange: states => updates.push(states)
+    });
+    expect(updates[0]).toEqual(['queued', 'queued']);
+    expect(updates[updates.length - 1]).toEqual(['done', 'failed']);
+  });
+
+  test('stops starting tasks after an error and throws it once running ones settle', async () => {
+    const control = controlledWorker();
+    const states: BatchState[][] = [];
+    const result = runWorkQueue(['a', 'b', 'c', 'd'], control.worker, { concurrency: 2, onStatusChange: s => states.push(s) });
+    result.catch(() => {});
+
+    await flushPromises();
+    control.fail(0, new Error('invalid key'));
+    await flushPromises();
+    expect(control.started).toEqual([0, 1]);
+
+    control.finish(1);
+    await expect(result).rejects.toThrow('invalid key');
+    expect(states[states.length - 1]).toEqual(['failed', 'done', 'queued', 'queued']);
+  });
+
+  test('pausing stops new dispatch but keeps results that finish in flight', async () => {
+    const controller = new AbortController();
+    const control = controlledWorker();
+    const saved: string[] = [];
+    const states: BatchState[][] = [];
+    // Like the API batches: save each finished result as soon as it arrives
+    const worker = async (task: string, index: number) => {
+      const value = await control.worker(task, index);
+      saved.push(value);
+      return value;
+    };
+    const result = runWorkQueue(['a', 'b', 'c', 'd', 'e'], worker, {
+      concurrency: 2,
+      signal: controller.signal,
+      onStatusChange: s => states.push(s)
+    });
+    result.catch(() => {});
+
+    await flushPromises();
+    control.finish(0);
+    await flushPromises();
+    expect(control.started).toEqual([0, 1, 2]);
+
+    stopRun(controller, 'paused');
+    // Batch 1 returns after the pause; batch 2's request is dropped by the abort
+    control.finish(1);
+    control.fail(2, new RunAbortedError('paused'));
+
+    await expect(result).rejects.toEqual(new RunAbortedError('paused'));
+    expect(control.started).toEqual([0, 1, 2]);
+    expect(saved).toEqual(['result 0', 'result 1']);
+    expect(states[states.length - 1]).toEqual(['done', 'done', 'queued', 'queued', 'queued']);
+  });
+
+  test('cancelling leaves a checkpoint holding exactly the finished tasks', async () => {
+    const controller = new AbortController();
+    const checkpoint: { [index: number]: string } = {};
+    const states: BatchState[][] = [];
+    const worker = async (task: string, index: number) => {
+      await flushPromises();
+      throwIfAborted(controller.signal);
+      if (index === 3) stopRun(controller, 'cancelled');
+      checkpoint[index] = task.toUpperCase();
+      return task;
+    };
+
+    const result = runWorkQueue(['a', 'b', 'c', 'd', 'e', 'f'], worker, {
+      concurrency: 2,
+      signal: controller.signal,
+      onStatusChange: s => states.push(s)
+    });
+
+    await expect(result).rejects.toEqual(new RunAbortedError('cancelled'));
+    const finalStates = states[states.length - 1];
+    const done = finalStates.flatMap((state, index) => (state === 'done' ? [index] : []));
+    expect(Object.keys(checkpoint).map(Number)).toEqual(done);
+    expect(done).toEqual([0, 1, 2, 3]);
+    expect(finalStates.slice(4)).toEqual(['queued', 'queued']);
+    done.forEach(index => expect(checkpoint[index]).toBe('abcdef'[index].toUpperCase()));
+  });
+
+  test('does nothing for an empty task list', async () => {
+    const worker = jest.fn();
+    await expect(runWorkQueue([], worker, { concurrency: 3 })).resolves.toEqual([]);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+// Bounded-concurrency work queue for the batched stages
+// Runs up to `concurrency` batches at once. Results come back in batch order
+// however the batches finish, so every result stays matched to its message.
+// Requests still go through the rate limiter, which spaces out the starts.
+
+import { BatchState } from '../types';
+import { throwIfAborted } from './runControl';
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+export interface WorkQueueOptions<R> {
+  concurrency: number;
+  signal?: AbortSignal;
+  isFailure?: (result: R) => boolean;  // Finished, but without a usable result (e.g. a batch that could not be parsed)
+  onStatusChange?: (states: BatchState[]) => void;
+}
+
+/**
+ * Split items into batches of at most size items
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Parallel batches from a stored or typed value - anything invalid falls back to the default
+ */
+export function parseConcurrency(value: unknown): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 1) {
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+  return Math.min(parsed, MAX_BATCH_CONCURRENCY);
+}
+
+/**
+ * Run worker over every task, at most `concurrency` at a time
+ * The first error stops new tasks from starting; it is thrown once the running ones settle
+ */
+export async function runWorkQueue<T, R>(
+  tasks: T[],
+  worker: (task: T, index: number) => Promise<R>,
+  { concurrency, signal, isFailure, onStatusChange }: WorkQueueOptions<R>
+): Promise<R[]> {
+  const results: R[] = new Array(tasks.length);
+  const states: BatchState[] = tasks.map(() => 'queued');
+  let next = 0;
+  let stopped = false;
+  let firstError: unknown;
+
+  const setState = (index: number, state: BatchState) => {
+    states[index] = state;
+    if (onStatusChange) onStatusChange([...states]);
+  };
+
+  const runNext = async () => {
+    while (!stopped && next < tasks.length) {
+      const index = next++;
+      setState(index, 'running');
+      try {
+        throwIfAborted(signal);
+        const result = await worker(tasks[index], index);
+        results[index] = result;
+        setState(index, isFailure && isFailure(result) ? 'failed' : 'done');
+      } catch (error) {
+        // A paused or cancelled batch didn't fail - it just hasn't run yet
+        setState(index, signal?.aborted ? 'queued' : 'failed');
+        if (!stopped) {
+          stopped = true;
+          firstError = error;
+        }
+      }
+    }
+  };
+
+  if (onStatusChange) onStatusChange([...states]);
+  const workers = Math.min(Math.max(1, concurrency), tasks.length);
+  await Promise.all(Array.from({ length: workers }, runNext));
+
+  if (stopped) throw firstError;
+  return results;
+}
@@ -0,0 +1,32 @@
+/* eslint-disable no-restricted-globals */
+// Web Worker: reads, stream-parses and indexes uploaded files off the main thread
+// so huge exports don't freeze the tab. Started by utils/importClient.ts
+
+import { importFiles } from '../utils/importers';
+import { getConversationsMetadata } from '../utils/chatLogParser';
+import { ImportWorkerRequest, ImportWorkerResponse } from '../types';
+
+const ctx = self as unknown as {
+  postMessage: (message: ImportWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<ImportWorkerRequest>) => void) | null;
+};
+
+ctx.onmessage = async (event) => {
+  try {
+    const { format, conversations } = await importFiles(event.data.files, (status, current, total) => {
+      ctx.postMessage({ type: 'progress', status, current, total });
+    });
+
+    ctx.postMessage({
+      type: 'progress',
+      status: `Indexing ${conversations.length} conversations...`,
+      current: conversations.length,
+      total: conversations.length
+    });
+    const metadata = getConversationsMetadata(conversations, format);
+
+    ctx.postMessage({ type: 'done', index: { format, conversations, metadata } });
+  } catch (err: any) {
+    ctx.postMessage({ type: 'error', message: err?.message || String(err) });
+  }
+};